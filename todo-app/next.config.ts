@@ -1,13 +1,20 @@
 import type { NextConfig } from "next";
 
+// GitHub Pagesではリポジトリ名のパスで公開する
+const basePath = process.env.NODE_ENV === 'production' ? '/kiro-todo' : '';
+
 const nextConfig: NextConfig = {
   output: 'export',
   trailingSlash: true,
   images: {
     unoptimized: true,
   },
-  basePath: process.env.NODE_ENV === 'production' ? '/kiro-todo' : '',
-  assetPrefix: process.env.NODE_ENV === 'production' ? '/kiro-todo/' : '',
+  basePath,
+  assetPrefix: basePath ? `${basePath}/` : '',
+  // Service Workerの登録やWebアプリマニフェストでbasePathを使う
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,66 @@
+/**
+ * オフラインで動作させるためのService Worker
+ * - ビルド時に書き出したファイルをすべてキャッシュし、キャッシュから応答する
+ * - 新しいビルドはバージョンごとのキャッシュに取得し、ページからの指示（SKIP_WAITING）で切り替える
+ *   （古いバンドルを使い続けないよう、ページには更新の案内を表示する）
+ * - パスはService Workerのスコープ（basePathを含む）からの相対パスとして扱う
+ */
+
+// ビルド時に scripts/generate-sw.mjs が書き出したファイルの一覧とバージョンに置き換える
+const PRECACHE_MANIFEST = { version: 'development', urls: [] }; // __PRECACHE_MANIFEST__
+
+const CACHE_PREFIX = 'kiro-todo-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE_MANIFEST.version}`;
+
+/** スコープからの相対パスをURLにする */
+const toScopeUrl = path => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_MANIFEST.urls.map(toScopeUrl)))
+  );
+});
+
+self.addEventListener('activate', event => {
+  // 古いバージョンのキャッシュを削除する
+  event.waitUntil(
+    caches
+      .keys()
+      .then(names =>
+        Promise.all(
+          names
+            .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+            .map(name => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || !request.url.startsWith(self.registration.scope)) return;
+
+  // ページの表示はキャッシュしたトップページで行う（同じバージョンのバンドルと組み合わせる）
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches
+        .match(toScopeUrl('index.html'), { cacheName: CACHE_NAME })
+        .then(cached => cached ?? fetch(request))
+    );
+    return;
+  }
+
+  // 検索条件（?q=など）を無視してキャッシュを探し、ない場合はネットワークから取得する
+  event.respondWith(
+    caches
+      .match(request, { cacheName: CACHE_NAME, ignoreSearch: true })
+      .then(cached => cached ?? fetch(request))
+  );
+});
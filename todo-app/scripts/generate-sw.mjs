@@ -0,0 +1,52 @@
+/**
+ * 静的エクスポート（out/）のファイル一覧とバージョンをService Workerに書き込む
+ * `next build` の後に実行する（package.jsonのbuildスクリプトから呼び出す）
+ */
+import { createHash } from 'node:crypto';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const OUT_DIR = fileURLToPath(new URL('../out/', import.meta.url));
+const SW_FILE = 'sw.js';
+const MARKER = '// __PRECACHE_MANIFEST__';
+
+/**
+ * ディレクトリ以下のファイルを再帰的に列挙する（out/からの相対パス、区切りは「/」）
+ */
+async function listFiles(dir) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(entry => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+    })
+  );
+  return files.flat();
+}
+
+const files = (await listFiles(OUT_DIR))
+  .map(file => path.relative(OUT_DIR, file).split(path.sep).join('/'))
+  .filter(file => file !== SW_FILE)
+  .sort();
+
+// ファイルの内容からバージョンを決める（内容が変わらなければService Workerも変わらない）
+const hash = createHash('sha256');
+for (const file of files) {
+  hash.update(file);
+  hash.update(await readFile(path.join(OUT_DIR, file)));
+}
+const version = hash.digest('hex').slice(0, 12);
+
+const swPath = path.join(OUT_DIR, SW_FILE);
+const source = await readFile(swPath, 'utf8');
+const lines = source.split('\n');
+const index = lines.findIndex(line => line.includes(MARKER));
+if (index === -1) {
+  throw new Error(`${SW_FILE}に${MARKER}が見つかりません`);
+}
+
+lines[index] = `const PRECACHE_MANIFEST = ${JSON.stringify({ version, urls: files })};`;
+await writeFile(swPath, lines.join('\n'));
+
+console.log(`Service Worker: ${files.length}件のファイルをキャッシュ対象にしました（バージョン ${version}）`);
@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 
@@ -12,9 +12,23 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+
 export const metadata: Metadata = {
   title: "TODO管理アプリ",
   description: "シンプルで使いやすいTODO管理アプリケーション",
+  // メタデータのアイコンにはbasePathが付かないため明示する
+  icons: {
+    apple: `${basePath}/icons/apple-touch-icon.png`,
+  },
+  appleWebApp: {
+    capable: true,
+    title: "TODO",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
 };
 
 export default function RootLayout({
@@ -0,0 +1,29 @@
+import type { MetadataRoute } from 'next';
+
+// 静的エクスポートでマニフェストをビルド時に生成する
+export const dynamic = 'force-static';
+
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+
+/**
+ * Webアプリマニフェスト（ホーム画面への追加・インストール用）
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'TODO管理アプリ',
+    short_name: 'TODO',
+    description: 'シンプルで使いやすいTODO管理アプリケーション',
+    lang: 'ja',
+    start_url: `${basePath}/`,
+    scope: `${basePath}/`,
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#2563eb',
+    icons: [
+      { src: `${basePath}/icons/icon-192.png`, sizes: '192x192', type: 'image/png' },
+      { src: `${basePath}/icons/icon-512.png`, sizes: '512x512', type: 'image/png' },
+      { src: `${basePath}/icons/icon-maskable-512.png`, sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+      { src: `${basePath}/icons/icon.svg`, sizes: 'any', type: 'image/svg+xml' },
+    ],
+  };
+}
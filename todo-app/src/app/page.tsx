@@ -1,4 +1,4 @@
-import { TodoApp } from '@/components';
+import { TodoApp, StorageGate, UpdatePrompt } from '@/components';
 
 export default function HomePage() {
   return (
@@ -13,8 +13,13 @@ export default function HomePage() {
         </p>
       </header>
 
-      {/* メインコンテンツエリア */}
-      <TodoApp />
+      {/* メインコンテンツエリア（保存先の準備ができてから表示する） */}
+      <StorageGate>
+        <TodoApp />
+      </StorageGate>
+
+      {/* 新しいバージョンの案内（オフライン対応のService Worker） */}
+      <UpdatePrompt />
 
       {/* フッター */}
       <footer className="text-center mt-12 text-sm text-gray-500 dark:text-gray-400">
@@ -1,20 +1,36 @@
 'use client';
 
 import { useState, FormEvent } from 'react';
-import { CreateTodoInput } from '@/types';
+import {
+  CreateTodoInput,
+  RecurrenceRule,
+  TodoPriority,
+  TODO_PRIORITIES,
+  PRIORITY_LABELS,
+  parseDateTimeInput,
+} from '@/types';
+import { TagInput } from './TagInput';
+import { RecurrenceEditor } from './RecurrenceEditor';
 
 interface AddTodoFormProps {
   onAdd: (input: CreateTodoInput) => Promise<void>;
   isLoading?: boolean;
   error?: string | null;
+  /** タグの補完候補 */
+  tagSuggestions?: string[];
 }
 
 /**
  * 新しいTODOアイテムを作成するフォームコンポーネント
  * 要件1.1, 1.2, 1.3, 1.4に対応
  */
-export function AddTodoForm({ onAdd, isLoading = false, error }: AddTodoFormProps) {
+export function AddTodoForm({ onAdd, isLoading = false, error, tagSuggestions = [] }: AddTodoFormProps) {
   const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [priority, setPriority] = useState<TodoPriority>('none');
+  const [tags, setTags] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
 
@@ -41,10 +57,23 @@ export function AddTodoForm({ onAdd, isLoading = false, error }: AddTodoFormProp
       setValidationError(null);
 
       // 新しいTODOアイテムを作成（要件1.2, 1.4）
-      await onAdd({ title: trimmedTitle });
+      const parsedDueDate = parseDateTimeInput(dueDate, dueTime);
+      await onAdd({
+        title: trimmedTitle,
+        dueDate: parsedDueDate,
+        hasDueTime: !!parsedDueDate && !!dueTime,
+        priority,
+        tags,
+        recurrence,
+      });
       
       // 成功時はフォームをクリア
       setTitle('');
+      setDueDate('');
+      setDueTime('');
+      setPriority('none');
+      setTags([]);
+      setRecurrence(undefined);
     } catch (err) {
       // エラーは親コンポーネントで処理される
       console.error('TODO追加エラー:', err);
@@ -128,6 +157,86 @@ export function AddTodoForm({ onAdd, isLoading = false, error }: AddTodoFormProp
           </button>
         </div>
 
+        {/* 期限入力（日付と任意の時刻）と優先度 */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label htmlFor="todo-due-date" className="text-gray-600 dark:text-gray-400">
+            期限:
+          </label>
+          <input
+            id="todo-due-date"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            disabled={isFormDisabled}
+            className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          <label htmlFor="todo-due-time" className="sr-only">
+            期限の時刻
+          </label>
+          <input
+            id="todo-due-time"
+            type="time"
+            value={dueTime}
+            onChange={(e) => setDueTime(e.target.value)}
+            disabled={isFormDisabled || !dueDate}
+            className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          {dueDate && (
+            <button
+              type="button"
+              onClick={() => {
+                setDueDate('');
+                setDueTime('');
+              }}
+              disabled={isFormDisabled}
+              className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              クリア
+            </button>
+          )}
+
+          {/* 優先度選択 */}
+          <label htmlFor="todo-priority" className="sm:ml-4 text-gray-600 dark:text-gray-400">
+            優先度:
+          </label>
+          <select
+            id="todo-priority"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as TodoPriority)}
+            disabled={isFormDisabled}
+            className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {TODO_PRIORITIES.map((value) => (
+              <option key={value} value={value}>
+                {PRIORITY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* 繰り返し */}
+        <RecurrenceEditor
+          id="todo-recurrence"
+          value={recurrence}
+          onChange={setRecurrence}
+          baseDate={parseDateTimeInput(dueDate, dueTime)}
+          disabled={isFormDisabled}
+        />
+
+        {/* タグ入力 */}
+        <div className="text-sm">
+          <label htmlFor="todo-tags" className="sr-only">
+            タグ
+          </label>
+          <TagInput
+            id="todo-tags"
+            tags={tags}
+            onChange={setTags}
+            suggestions={tagSuggestions}
+            disabled={isFormDisabled}
+          />
+        </div>
+
         {/* エラーメッセージ表示（要件1.3） */}
         {displayError && (
           <div
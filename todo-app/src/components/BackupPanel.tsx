@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, ChangeEvent } from 'react';
+import { Todo, TodoListMeta } from '@/types';
+import {
+  BackupService,
+  FileService,
+  BackupFile,
+  BackupRejectedRecord,
+  BackupImportResult,
+  ImportStrategy,
+} from '@/services';
+
+interface BackupPanelProps {
+  lists: TodoListMeta[];
+  /** 現在のリストごとのTODOリストを取得する */
+  getTodosByList: () => Record<string, Todo[]>;
+  onImport: (result: BackupImportResult) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/** インポート方法の表示名と説明 */
+const STRATEGY_OPTIONS: { value: ImportStrategy; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: '新しい方を残して統合',
+    description: '同じTODOは更新日時の新しい方を残し、ないものを追加します',
+  },
+  {
+    value: 'replace',
+    label: '置き換え',
+    description: 'バックアップに含まれるリストの内容を、バックアップの内容で置き換えます',
+  },
+  {
+    value: 'append',
+    label: 'コピーとして追加',
+    description: 'すべてのTODOを新しいTODOとして追加します（既存のTODOは変更しません）',
+  },
+];
+
+/**
+ * JSON形式のバックアップの書き出し・読み込みを行うコンポーネント
+ */
+export function BackupPanel({ lists, getTodosByList, onImport, isLoading = false }: BackupPanelProps) {
+  const [parsed, setParsed] = useState<{ backup: BackupFile; rejected: BackupRejectedRecord[] } | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * すべてのリストのTODOを書き出す
+   */
+  const handleExport = () => {
+    try {
+      const backup = BackupService.createBackup(lists, getTodosByList());
+      FileService.download(BackupService.serialize(backup), BackupService.getFileName(), 'application/json');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'バックアップの書き出しに失敗しました');
+      console.error('バックアップ書き出しエラー:', err);
+    }
+  };
+
+  /**
+   * バックアップファイルの選択
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    try {
+      setParsed(BackupService.parse(await FileService.readAsText(file)));
+      setError(null);
+    } catch (err) {
+      setParsed(null);
+      setError(err instanceof Error ? err.message : 'バックアップの読み込みに失敗しました');
+    }
+  };
+
+  /**
+   * インポートの実行
+   */
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    try {
+      await onImport(BackupService.applyImport(parsed.backup, strategy, lists, getTodosByList()));
+      setParsed(null);
+      setError(null);
+      setMessage('バックアップを読み込みました');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'バックアップの読み込みに失敗しました');
+      console.error('バックアップ読み込みエラー:', err);
+    }
+  };
+
+  const diffs = parsed ? BackupService.diff(parsed.backup, lists, getTodosByList()) : [];
+
+  return (
+    <section
+      aria-labelledby="backup-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="backup-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        💾 バックアップ（JSON）
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isLoading}
+          className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          すべてのリストを書き出す
+        </button>
+        <label className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-500 cursor-pointer dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700">
+          ファイルから読み込む
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            disabled={isLoading}
+            className="sr-only"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div role="status" className="text-green-600 dark:text-green-400 text-sm">
+          {message}
+        </div>
+      )}
+
+      {/* インポートのプレビュー */}
+      {parsed && (
+        <div className="space-y-4 text-sm">
+          <p className="text-gray-600 dark:text-gray-400">
+            {parsed.backup.exportedAt.toLocaleString('ja-JP')} に書き出されたバックアップ
+            （アプリ {parsed.backup.appVersion || '不明'}・データ形式 v{parsed.backup.schemaVersion}）
+          </p>
+
+          <table className="w-full text-left">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-1 font-medium">リスト</th>
+                <th className="py-1 font-medium text-right">新規</th>
+                <th className="py-1 font-medium text-right">変更あり</th>
+                <th className="py-1 font-medium text-right">同一</th>
+                {strategy === 'replace' && <th className="py-1 font-medium text-right">削除</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-800 dark:text-gray-200">
+              {diffs.map(diff => (
+                <tr key={diff.listId}>
+                  <td className="py-1">
+                    {diff.name}
+                    {diff.isNewList && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        新しいリスト
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right">{diff.added.length}</td>
+                  <td className="py-1 text-right">{diff.changed.length}</td>
+                  <td className="py-1 text-right">{diff.identical.length}</td>
+                  {strategy === 'replace' && <td className="py-1 text-right">{diff.removed.length}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* 新規・変更ありのTODOの内訳 */}
+          {diffs.some(diff => diff.added.length + diff.changed.length > 0) && (
+            <details className="text-gray-600 dark:text-gray-400">
+              <summary className="cursor-pointer">新規・変更ありのTODOを表示</summary>
+              <ul className="mt-2 space-y-1 max-h-48 overflow-auto">
+                {diffs.flatMap(diff => [
+                  ...diff.added.map(todo => (
+                    <li key={`added-${diff.listId}-${todo.id}`}>
+                      <span className="text-green-600 dark:text-green-400">＋</span> {todo.title}（{diff.name}）
+                    </li>
+                  )),
+                  ...diff.changed.map(todo => (
+                    <li key={`changed-${diff.listId}-${todo.id}`}>
+                      <span className="text-orange-600 dark:text-orange-400">～</span> {todo.title}（{diff.name}）
+                    </li>
+                  )),
+                ])}
+              </ul>
+            </details>
+          )}
+
+          {/* 除外されたレコードの報告 */}
+          {parsed.rejected.length > 0 && (
+            <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">不正なデータ {parsed.rejected.length} 件は読み込まれません</p>
+              <ul className="mt-1 text-xs space-y-0.5 max-h-32 overflow-auto">
+                {parsed.rejected.map(record => (
+                  <li key={`${record.listName}-${record.index}`}>
+                    {record.listName} の {record.index + 1} 件目: {record.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <fieldset className="space-y-2">
+            <legend className="font-medium text-gray-700 dark:text-gray-300">読み込み方法</legend>
+            {STRATEGY_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="backup-import-strategy"
+                  value={option.value}
+                  checked={strategy === option.value}
+                  onChange={() => setStrategy(option.value)}
+                  className="mt-1 accent-blue-600"
+                />
+                <span>
+                  <span className="text-gray-800 dark:text-gray-200">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={() => setParsed(null)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              読み込む
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
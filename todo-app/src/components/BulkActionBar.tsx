@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { BulkEdit, TodoPriority, TODO_PRIORITIES, PRIORITY_LABELS, parseDateTimeInput } from '@/types';
+
+interface BulkActionBarProps {
+  /** 選択中のTODOの件数 */
+  selectedCount: number;
+  /** 表示中のTODOの件数 */
+  visibleCount: number;
+  /** タグの補完候補 */
+  allTags?: string[];
+  isLoading?: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onComplete: () => Promise<void>;
+  onReopen: () => Promise<void>;
+  onDelete: () => Promise<void>;
+  onEdit: (edit: BulkEdit) => Promise<void>;
+  /** 選択モードを終了する */
+  onClose: () => void;
+}
+
+/** 一括編集の項目 */
+type BulkEditField = BulkEdit['field'];
+
+/** 一括編集の項目の表示名 */
+const FIELD_LABELS: Record<BulkEditField, string> = {
+  priority: '優先度',
+  dueDate: '期限',
+  addTag: 'タグを追加',
+  removeTag: 'タグを外す',
+};
+
+/**
+ * 選択したTODOへの一括操作（完了・未完了・削除・項目の編集）を行うバー
+ */
+export function BulkActionBar({
+  selectedCount,
+  visibleCount,
+  allTags = [],
+  isLoading = false,
+  onSelectAll,
+  onClearSelection,
+  onComplete,
+  onReopen,
+  onDelete,
+  onEdit,
+  onClose,
+}: BulkActionBarProps) {
+  const [field, setField] = useState<BulkEditField>('priority');
+  const [priority, setPriority] = useState<TodoPriority>('none');
+  const [dueDate, setDueDate] = useState('');
+  const [tag, setTag] = useState('');
+
+  const isDisabled = isLoading || selectedCount === 0;
+
+  /**
+   * 選択した項目の編集を適用する
+   */
+  const handleEdit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isDisabled) return;
+
+    switch (field) {
+      case 'priority':
+        await onEdit({ field, priority });
+        break;
+      case 'dueDate':
+        // 空欄の場合は期限を外す
+        await onEdit({ field, dueDate: parseDateTimeInput(dueDate) ?? null });
+        break;
+      case 'addTag':
+      case 'removeTag':
+        if (!tag.trim()) return;
+        await onEdit({ field, tag });
+        setTag('');
+        break;
+    }
+  };
+
+  return (
+    <section
+      aria-label="選択したTODOの一括操作"
+      className="p-3 space-y-3 bg-blue-50 border border-blue-200 rounded-lg text-sm dark:bg-blue-900/20 dark:border-blue-800"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span role="status" className="font-medium text-blue-800 dark:text-blue-200">
+          {selectedCount}件を選択中
+        </span>
+        <button
+          type="button"
+          onClick={selectedCount === visibleCount ? onClearSelection : onSelectAll}
+          disabled={visibleCount === 0}
+          className="px-2 py-1 text-blue-700 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded disabled:opacity-50 dark:text-blue-300"
+        >
+          {selectedCount === visibleCount && visibleCount > 0 ? '選択を解除' : `表示中をすべて選択 (${visibleCount})`}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto px-2 py-1 text-gray-600 hover:underline focus:outline-none focus:ring-2 focus:ring-gray-400 rounded dark:text-gray-300"
+        >
+          選択を終了
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => void onComplete()}
+          disabled={isDisabled}
+          className="px-3 py-1.5 font-medium text-green-700 bg-white border border-green-200 rounded-lg hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:border-green-800 dark:text-green-400 dark:hover:bg-green-900/20"
+        >
+          ✅ 完了にする
+        </button>
+        <button
+          type="button"
+          onClick={() => void onReopen()}
+          disabled={isDisabled}
+          className="px-3 py-1.5 font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          ↩️ 未完了に戻す
+        </button>
+        <button
+          type="button"
+          onClick={() => void onDelete()}
+          disabled={isDisabled}
+          className="px-3 py-1.5 font-medium text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20"
+        >
+          🗑️ 削除
+        </button>
+      </div>
+
+      {/* 項目の一括編集 */}
+      <form onSubmit={handleEdit} className="flex flex-wrap items-center gap-2">
+        <label htmlFor="bulk-edit-field" className="text-gray-700 dark:text-gray-300">
+          まとめて編集:
+        </label>
+        <select
+          id="bulk-edit-field"
+          value={field}
+          onChange={(e) => setField(e.target.value as BulkEditField)}
+          className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(FIELD_LABELS) as BulkEditField[]).map(key => (
+            <option key={key} value={key}>
+              {FIELD_LABELS[key]}
+            </option>
+          ))}
+        </select>
+
+        {field === 'priority' && (
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as TodoPriority)}
+            aria-label="設定する優先度"
+            className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {TODO_PRIORITIES.map(value => (
+              <option key={value} value={value}>
+                {PRIORITY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {field === 'dueDate' && (
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            aria-label="設定する期限（空欄の場合は期限を外す）"
+            title="空欄の場合は期限を外します"
+            className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+
+        {(field === 'addTag' || field === 'removeTag') && (
+          <>
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              list="bulk-edit-tags"
+              placeholder="タグ"
+              aria-label={field === 'addTag' ? '追加するタグ' : '外すタグ'}
+              className="w-32 px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <datalist id="bulk-edit-tags">
+              {allTags.map(value => (
+                <option key={value} value={value} />
+              ))}
+            </datalist>
+          </>
+        )}
+
+        <button
+          type="submit"
+          disabled={isDisabled}
+          className="px-3 py-1.5 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          適用
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, ChangeEvent } from 'react';
+import { Todo } from '@/types';
+import {
+  CsvService,
+  CSV_FIELDS,
+  FileService,
+  CsvColumnMapping,
+  CsvField,
+  CsvImportResult,
+} from '@/services';
+
+interface CsvPanelProps {
+  listName: string;
+  todos: Todo[];
+  onImport: (todos: Todo[]) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * 表示中のリストのCSV形式での書き出し・読み込みを行うコンポーネント
+ * 読み込み時は列の対応付けを確認してから取り込む
+ */
+export function CsvPanel({ listName, todos, onImport, isLoading = false }: CsvPanelProps) {
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [report, setReport] = useState<Omit<CsvImportResult, 'todos'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const header = rows?.[0] ?? [];
+  const sample = rows?.[1] ?? [];
+
+  /**
+   * 表示中のリストを書き出す
+   */
+  const handleExport = () => {
+    try {
+      FileService.download(CsvService.toCsv(todos), CsvService.getFileName(listName), 'text/csv;charset=utf-8');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'CSVの書き出しに失敗しました');
+      console.error('CSV書き出しエラー:', err);
+    }
+  };
+
+  /**
+   * CSVファイルの選択
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+    if (!file) return;
+
+    setReport(null);
+    try {
+      const parsed = CsvService.parse(await FileService.readAsText(file));
+      if (parsed.length < 2) {
+        throw new Error('見出し行とデータ行を含むCSVファイルを選択してください');
+      }
+
+      setRows(parsed);
+      setMapping(CsvService.guessMapping(parsed[0]));
+      setError(null);
+    } catch (err) {
+      setRows(null);
+      setError(err instanceof Error ? err.message : 'CSVの読み込みに失敗しました');
+    }
+  };
+
+  /**
+   * 列の対応付けの変更
+   */
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * 読み込みの実行
+   */
+  const handleImport = async () => {
+    if (!rows) return;
+
+    try {
+      const { todos: importedTodos, ...result } = CsvService.importRows(rows.slice(1), mapping, todos);
+      if (result.added + result.updated > 0) {
+        await onImport(importedTodos);
+      }
+      setReport(result);
+      setRows(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'CSVの読み込みに失敗しました');
+      console.error('CSV読み込みエラー:', err);
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="csv-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="csv-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        📊 CSV（表計算ソフト用）
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isLoading || todos.length === 0}
+          className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          このリストを書き出す
+        </button>
+        <label className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-500 cursor-pointer dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700">
+          CSVから読み込む
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isLoading}
+            className="sr-only"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* 読み込み結果の報告 */}
+      {report && (
+        <div role="status" className="space-y-2 text-sm">
+          <p className="text-green-600 dark:text-green-400">
+            {report.added}件を追加、{report.updated}件を更新しました
+          </p>
+          {report.errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">{report.errors.length}行は読み込めませんでした</p>
+              <ul className="mt-1 text-xs space-y-0.5 max-h-32 overflow-auto">
+                {report.errors.map(rowError => (
+                  <li key={rowError.row}>
+                    {rowError.row}行目{rowError.title && `（${rowError.title}）`}: {rowError.errors.join('、')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 列の対応付け */}
+      {rows && (
+        <div className="space-y-4 text-sm">
+          <p className="text-gray-600 dark:text-gray-400">
+            {rows.length - 1}行のデータがあります。各項目に対応する列を選んでください（IDが一致するTODOは更新されます）。
+          </p>
+
+          <table className="w-full text-left">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-1 font-medium">項目</th>
+                <th className="py-1 font-medium">CSVの列</th>
+                <th className="py-1 font-medium">1行目の値</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-800 dark:text-gray-200">
+              {CSV_FIELDS.map(field => {
+                const column = mapping[field];
+                return (
+                  <tr key={field}>
+                    <td className="py-1 pr-2">
+                      <label htmlFor={`csv-column-${field}`}>
+                        {CsvService.FIELD_LABELS[field]}
+                        {field === 'title' && <span className="text-red-500"> *</span>}
+                      </label>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        id={`csv-column-${field}`}
+                        value={column ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-100"
+                      >
+                        <option value="">（使わない）</option>
+                        {header.map((name, index) => (
+                          <option key={index} value={index}>
+                            {name || `${index + 1}列目`}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 text-xs text-gray-500 dark:text-gray-400 max-w-[12rem] truncate">
+                      {column !== undefined ? sample[column] : ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={() => setRows(null)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isLoading || mapping.title === undefined}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              読み込む
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
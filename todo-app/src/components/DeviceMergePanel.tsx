@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, ChangeEvent } from 'react';
+import { Todo } from '@/types';
+import { TodoService, CrdtService, FileService, CrdtMergeResult } from '@/services';
+
+interface DeviceMergePanelProps {
+  listId: string;
+  listName: string;
+  /** 表示中のリストのTODO */
+  todos: Todo[];
+  onMerge: (todos: Todo[]) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * サーバーを使わずに、他の端末で書き出した状態と表示中のリストを統合するコンポーネント
+ */
+export function DeviceMergePanel({ listId, listName, todos, onMerge, isLoading = false }: DeviceMergePanelProps) {
+  const [report, setReport] = useState<(Omit<CrdtMergeResult, 'todos'> & { source: string }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 表示中のリストの状態を書き出す
+   */
+  const handleExport = () => {
+    try {
+      const state = TodoService.exportCrdtState(todos, listId);
+      FileService.download(
+        CrdtService.toFile(state, listName, CrdtService.getReplicaId()),
+        CrdtService.getFileName(listName),
+        'application/json'
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '書き出しに失敗しました');
+      console.error('統合用の書き出しエラー:', err);
+    }
+  };
+
+  /**
+   * 他の端末で書き出したファイルを読み込んで統合する
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const snapshot = CrdtService.parseFile(await FileService.readAsText(file));
+      const { todos: mergedTodos, ...result } = TodoService.mergeCrdtState(todos, listId, snapshot.state);
+      if (result.added + result.updated + result.removed > 0) {
+        await onMerge(mergedTodos);
+      }
+      setReport({ ...result, source: snapshot.listName });
+      setError(null);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : '統合に失敗しました');
+      console.error('統合エラー:', err);
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="device-merge-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="device-merge-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        🔀 他の端末と統合
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isLoading}
+          className="px-4 py-2 font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          この端末の状態を書き出す
+        </button>
+        <label className="px-4 py-2 font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-500 cursor-pointer dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700">
+          読み込んで統合
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            disabled={isLoading}
+            className="sr-only"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        書き出したファイルを他の端末で読み込むと、どちらの端末の変更も失わずに統合します（同じ項目の変更は後から変更した方、削除と変更は変更を残します）。お互いに書き出して読み込めば、両方の端末が同じ内容になります。
+      </p>
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* 統合結果の報告 */}
+      {report && (
+        <p role="status" className="text-sm text-green-600 dark:text-green-400">
+          {report.added + report.updated + report.removed > 0
+            ? `「${report.source}」を統合しました（追加${report.added}件・更新${report.updated}件・削除${report.removed}件）`
+            : `「${report.source}」の変更はすべて反映済みです`}
+        </p>
+      )}
+    </section>
+  );
+}
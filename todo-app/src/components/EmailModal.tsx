@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, FormEvent } from 'react';
+import { Todo } from '@/types';
+import { EmailService } from '@/services';
+
+interface EmailModalProps {
+  todos: Todo[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * TODOリストをメールで送信するためのモーダルコンポーネント
+ * 要件7.1, 7.2, 7.3, 7.4, 7.5に対応
+ */
+export function EmailModal({ todos, isOpen, onClose }: EmailModalProps) {
+  const [recipient, setRecipient] = useState('');
+  const [subject, setSubject] = useState(EmailService.DEFAULT_SUBJECT);
+  const [body, setBody] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const recipientRef = useRef<HTMLInputElement>(null);
+
+  // モーダルを開いた時に現在のTODOリストを本文に挿入する（要件7.3）
+  // 開いた時点のTODOリストのみを反映し、開いている間の変更で編集中の本文を上書きしない
+  const [wasOpen, setWasOpen] = useState(false);
+  if (wasOpen !== isOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setBody(EmailService.formatTodoList(todos));
+      setValidationError(null);
+    }
+  }
+
+  // モーダルを開いた時に宛先にフォーカスする
+  useEffect(() => {
+    if (isOpen) {
+      recipientRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Escapeキーでモーダルを閉じる
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // 本文がmailto:の長さ制限を超えるかどうか
+  const willTruncate = useMemo(
+    () => EmailService.buildMailtoUrl({ recipient, subject, body }).truncated,
+    [recipient, subject, body]
+  );
+
+  /**
+   * 送信処理（要件7.4, 7.5）
+   */
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const emailData = { recipient, subject, body };
+    const validation = EmailService.validateEmailData(emailData);
+    if (!validation.isValid) {
+      setValidationError(validation.error ?? '入力内容を確認してください');
+      recipientRef.current?.focus();
+      return;
+    }
+
+    try {
+      EmailService.openEmailClient(emailData);
+      onClose();
+    } catch (err) {
+      console.error('メール送信エラー:', err);
+      setValidationError(err instanceof Error ? err.message : 'メールクライアントを開けませんでした');
+    }
+  };
+
+  /**
+   * 宛先変更処理
+   */
+  const handleRecipientChange = (value: string) => {
+    setRecipient(value);
+    // 入力中はバリデーションエラーをクリア
+    if (validationError) {
+      setValidationError(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="email-modal-title"
+        className="w-full max-w-lg bg-white dark:bg-gray-900 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 id="email-modal-title" className="text-lg font-semibold text-gray-800 dark:text-gray-100">
+              📧 メールで送信
+            </h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="閉じる"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* 宛先（要件7.2, 7.5） */}
+          <div className="space-y-1">
+            <label htmlFor="email-recipient" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              宛先
+            </label>
+            <input
+              ref={recipientRef}
+              id="email-recipient"
+              type="email"
+              value={recipient}
+              onChange={(e) => handleRecipientChange(e.target.value)}
+              placeholder="example@example.com"
+              className={`
+                w-full px-3 py-2 rounded border transition-colors
+                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+                ${validationError
+                  ? 'border-red-300 bg-red-50 dark:border-red-600 dark:bg-red-900/20'
+                  : 'border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700'
+                }
+                dark:text-white
+              `}
+              aria-invalid={!!validationError}
+              aria-describedby={validationError ? 'email-error' : undefined}
+            />
+            {validationError && (
+              <div id="email-error" role="alert" className="text-red-600 dark:text-red-400 text-sm">
+                {validationError}
+              </div>
+            )}
+          </div>
+
+          {/* 件名（要件7.2） */}
+          <div className="space-y-1">
+            <label htmlFor="email-subject" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              件名
+            </label>
+            <input
+              id="email-subject"
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="w-full px-3 py-2 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* 本文（要件7.2, 7.3） */}
+          <div className="space-y-1">
+            <label htmlFor="email-body" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              本文
+            </label>
+            <textarea
+              id="email-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={10}
+              className="w-full px-3 py-2 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* 切り詰めの警告 */}
+          {willTruncate && (
+            <div
+              role="status"
+              className="p-3 text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg dark:bg-orange-900/20 dark:border-orange-800 dark:text-orange-300"
+            >
+              ⚠️ 本文が長すぎるため、メールクライアントには途中までしか渡されません。
+              必要に応じて本文を短くするか、送信後にメール内で追記してください。
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors dark:bg-gray-600 dark:text-gray-300 dark:hover:bg-gray-500"
+            >
+              キャンセル
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              メールを作成
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { SearchService } from '@/services';
+
+interface HighlightTextProps {
+  text: string;
+  /** 検索文字列（一致した部分を強調表示する） */
+  query?: string;
+}
+
+/**
+ * 検索に一致した部分を強調表示するコンポーネント
+ */
+export function HighlightText({ text, query = '' }: HighlightTextProps) {
+  const ranges = SearchService.findMatches(text, query);
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-600/60"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+}
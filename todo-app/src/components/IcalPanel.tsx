@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, ChangeEvent } from 'react';
+import { Todo } from '@/types';
+import { IcalService, FileService, IcalImportResult } from '@/services';
+
+interface IcalPanelProps {
+  listName: string;
+  todos: Todo[];
+  onImport: (todos: Todo[]) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * 表示中のリストのiCalendar（.ics）形式での書き出し・読み込みを行うコンポーネント
+ * カレンダーアプリ・タスク管理アプリとの受け渡しに使用する
+ */
+export function IcalPanel({ listName, todos, onImport, isLoading = false }: IcalPanelProps) {
+  const [report, setReport] = useState<Omit<IcalImportResult, 'todos'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 表示中のリストを書き出す
+   */
+  const handleExport = () => {
+    try {
+      FileService.download(
+        IcalService.toIcs(todos, listName),
+        IcalService.getFileName(listName),
+        'text/calendar;charset=utf-8'
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'iCalendarの書き出しに失敗しました');
+      console.error('iCalendar書き出しエラー:', err);
+    }
+  };
+
+  /**
+   * iCalendarファイルの選択（選択したファイルをそのまま読み込む）
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { todos: importedTodos, ...result } = IcalService.importIcs(
+        await FileService.readAsText(file),
+        todos
+      );
+      if (result.added + result.updated > 0) {
+        await onImport(importedTodos);
+      }
+      setReport(result);
+      setError(null);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'iCalendarの読み込みに失敗しました');
+      console.error('iCalendar読み込みエラー:', err);
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="ical-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="ical-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        📅 iCalendar（カレンダー・タスクアプリ用）
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isLoading || todos.length === 0}
+          className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          このリストを書き出す
+        </button>
+        <label className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-500 cursor-pointer dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700">
+          .icsから読み込む
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            disabled={isLoading}
+            className="sr-only"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        同じTODO（UIDが一致するもの）は重複せずに更新されます。サブタスクは書き出されません。
+      </p>
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* 読み込み結果の報告 */}
+      {report && (
+        <div role="status" className="space-y-2 text-sm">
+          <p className="text-green-600 dark:text-green-400">
+            {report.added}件を追加、{report.updated}件を更新しました
+            {report.skippedComponents > 0 && `（予定などTODO以外の${report.skippedComponents}件は読み飛ばしました）`}
+          </p>
+          {report.errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">{report.errors.length}件は読み込めませんでした</p>
+              <ul className="mt-1 text-xs space-y-0.5 max-h-32 overflow-auto">
+                {report.errors.map((todoError, index) => (
+                  <li key={index}>
+                    {todoError.summary || todoError.uid || `${index + 1}件目`}: {todoError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
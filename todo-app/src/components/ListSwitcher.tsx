@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, FormEvent, KeyboardEvent } from 'react';
+import { TodoListMeta } from '@/types';
+
+interface ListSwitcherProps {
+  lists: TodoListMeta[];
+  activeListId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onMove: (id: string, toIndex: number) => Promise<void>;
+  onSetArchived: (id: string, archived: boolean) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  error?: string | null;
+}
+
+/**
+ * 名前付きリスト（プロジェクト）の切り替えと管理を行うコンポーネント
+ */
+export function ListSwitcher({
+  lists,
+  activeListId,
+  onSelect,
+  onCreate,
+  onRename,
+  onMove,
+  onSetArchived,
+  onDelete,
+  error,
+}: ListSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const [isManaging, setIsManaging] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const visibleLists = lists.filter(list => !list.archived);
+
+  /**
+   * 新しいリストの作成
+   */
+  const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+
+    await onCreate(newListName);
+    setNewListName('');
+    setIsCreating(false);
+  };
+
+  /**
+   * 名前変更の確定
+   */
+  const commitRename = async () => {
+    if (!editingId) return;
+
+    const list = lists.find(item => item.id === editingId);
+    if (list && editName.trim() && editName.trim() !== list.name) {
+      await onRename(editingId, editName);
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * 名前変更中のキーボードイベント処理
+   */
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditingId(null);
+    }
+  };
+
+  /**
+   * リストの削除（確認あり）
+   */
+  const handleDelete = async (list: TodoListMeta) => {
+    if (window.confirm(`リスト「${list.name}」とそのすべてのTODOを削除しますか？`)) {
+      await onDelete(list.id);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-3 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="list-switcher" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          リスト:
+        </label>
+        <select
+          id="list-switcher"
+          value={activeListId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-[10rem] px-3 py-2 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {visibleLists.map(list => (
+            <option key={list.id} value={list.id}>
+              {list.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setIsCreating(!isCreating)}
+          aria-expanded={isCreating}
+          className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          ＋ 新しいリスト
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsManaging(!isManaging);
+            setEditingId(null);
+          }}
+          aria-expanded={isManaging}
+          className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          {isManaging ? '閉じる' : '管理'}
+        </button>
+      </div>
+
+      {/* 新規作成フォーム */}
+      {isCreating && (
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <label htmlFor="new-list-name" className="sr-only">
+            新しいリストの名前
+          </label>
+          <input
+            id="new-list-name"
+            type="text"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder="リスト名（例: 仕事、買い物）"
+            autoFocus
+            className="flex-1 px-3 py-2 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!newListName.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            作成
+          </button>
+        </form>
+      )}
+
+      {/* リストの管理（名前変更・並べ替え・アーカイブ・削除） */}
+      {isManaging && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {lists.map((list, index) => (
+            <li key={list.id} className="flex flex-wrap items-center gap-2 py-2">
+              {editingId === list.id ? (
+                <input
+                  type="text"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={commitRename}
+                  autoFocus
+                  className="flex-1 px-2 py-1 rounded border border-blue-400 bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`リスト「${list.name}」の新しい名前`}
+                />
+              ) : (
+                <span
+                  className={`flex-1 break-words ${list.archived ? 'text-gray-400 line-through dark:text-gray-500' : 'text-gray-800 dark:text-gray-200'}`}
+                >
+                  {list.name}
+                  {list.archived && <span className="ml-2 text-xs no-underline">（アーカイブ済み）</span>}
+                </span>
+              )}
+
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => onMove(list.id, index - 1)}
+                  disabled={index === 0}
+                  className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-30"
+                  aria-label={`リスト「${list.name}」を上へ移動`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onMove(list.id, index + 1)}
+                  disabled={index === lists.length - 1}
+                  className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-30"
+                  aria-label={`リスト「${list.name}」を下へ移動`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(list.id);
+                    setEditName(list.name);
+                  }}
+                  className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  名前変更
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSetArchived(list.id, !list.archived)}
+                  className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  {list.archived ? '戻す' : 'アーカイブ'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(list)}
+                  className="px-2 py-1 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
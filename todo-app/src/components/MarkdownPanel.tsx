@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, ChangeEvent } from 'react';
+import { Todo } from '@/types';
+import { MarkdownService, FileService, MarkdownImportResult } from '@/services';
+
+interface MarkdownPanelProps {
+  listName: string;
+  /** 表示中のリストのTODO（表示順） */
+  todos: Todo[];
+  onImport: (todos: Todo[]) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * 表示中のリストのMarkdownタスクリスト（GitHub形式）での書き出し・読み込みを行うコンポーネント
+ * 読み込みは貼り付けたテキストまたはファイルから行う
+ */
+export function MarkdownPanel({ listName, todos, onImport, isLoading = false }: MarkdownPanelProps) {
+  const [groupByStatus, setGroupByStatus] = useState(false);
+  const [input, setInput] = useState('');
+  const [report, setReport] = useState<Omit<MarkdownImportResult, 'todos'> | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const markdown = MarkdownService.toMarkdown(todos, { groupByStatus });
+
+  /**
+   * クリップボードにコピーする
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setMessage('クリップボードにコピーしました');
+      setError(null);
+    } catch (err) {
+      setError('クリップボードにコピーできませんでした');
+      console.error('クリップボードコピーエラー:', err);
+    }
+  };
+
+  /**
+   * ファイルとして書き出す
+   */
+  const handleDownload = () => {
+    try {
+      FileService.download(markdown, MarkdownService.getFileName(listName), 'text/markdown;charset=utf-8');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Markdownの書き出しに失敗しました');
+      console.error('Markdown書き出しエラー:', err);
+    }
+  };
+
+  /**
+   * Markdownファイルの選択（内容を入力欄に読み込む）
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setInput(await FileService.readAsText(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ファイルの読み込みに失敗しました');
+    }
+  };
+
+  /**
+   * 読み込みの実行
+   */
+  const handleImport = async () => {
+    try {
+      const { todos: importedTodos, ...result } = MarkdownService.importMarkdown(input, todos);
+      if (result.added > 0) {
+        await onImport(importedTodos);
+        setInput('');
+      }
+      setReport(result);
+      setMessage(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Markdownの読み込みに失敗しました');
+      console.error('Markdown読み込みエラー:', err);
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="markdown-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="markdown-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        📝 Markdown（タスクリスト）
+      </h3>
+
+      {/* 書き出し */}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={handleCopy}
+          disabled={isLoading || todos.length === 0}
+          className="px-4 py-2 font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          コピー
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={isLoading || todos.length === 0}
+          className="px-4 py-2 font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          このリストを書き出す
+        </button>
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={groupByStatus}
+            onChange={(e) => setGroupByStatus(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          未完了・完了済みの見出しで分ける
+        </label>
+      </div>
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div role="status" className="text-green-600 dark:text-green-400 text-sm">
+          {message}
+        </div>
+      )}
+
+      {/* 読み込み */}
+      <div className="space-y-2 text-sm">
+        <label htmlFor="markdown-input" className="block text-gray-700 dark:text-gray-300">
+          「- [ ]」「- [x]」形式のタスクリストを貼り付けてください（字下げした項目はサブタスクになります）
+        </label>
+        <textarea
+          id="markdown-input"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={5}
+          placeholder={'- [ ] 未完了のタスク\n- [x] 完了したタスク\n  - [ ] サブタスク'}
+          className="w-full px-3 py-2 font-mono border border-gray-300 rounded-lg bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-100"
+        />
+        <div className="flex flex-wrap gap-2 justify-end">
+          <label className="px-4 py-2 text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-500 cursor-pointer dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700">
+            ファイルを開く
+            <input
+              type="file"
+              accept=".md,.markdown,.txt,text/markdown,text/plain"
+              onChange={handleFileChange}
+              disabled={isLoading}
+              className="sr-only"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={isLoading || !input.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            読み込む
+          </button>
+        </div>
+      </div>
+
+      {/* 読み込み結果の報告 */}
+      {report && (
+        <div role="status" className="space-y-2 text-sm">
+          <p className={report.added > 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}>
+            {report.added > 0 ? `${report.added}件を追加しました` : 'タスク項目が見つかりませんでした'}
+            {report.ignored > 0 && `（チェックボックスのない${report.ignored}行は読み飛ばしました）`}
+          </p>
+          {report.errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">{report.errors.length}件は読み込めませんでした</p>
+              <ul className="mt-1 text-xs space-y-0.5 max-h-32 overflow-auto">
+                {report.errors.map(lineError => (
+                  <li key={lineError.line}>
+                    {lineError.line}行目: {lineError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
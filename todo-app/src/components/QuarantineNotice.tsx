@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { TodoListMeta } from '@/types';
+import { TodoService, TrashService, ListService, FileService, QuarantineEntry } from '@/services';
+
+interface QuarantineNoticeProps {
+  entries: QuarantineEntry[];
+  /** 保存キーをリスト名で表示するためのリスト一覧 */
+  lists: TodoListMeta[];
+  onRemove: (id: string) => void;
+}
+
+/**
+ * 読み込めずに隔離された保存データがあることを知らせ、ダウンロード・削除できるようにするコンポーネント
+ */
+export function QuarantineNotice({ entries, lists, onRemove }: QuarantineNoticeProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  /**
+   * 元の保存キーを表示用の名前にする
+   */
+  const getSourceLabel = (sourceKey: string): string => {
+    const listName = (prefix: string) => {
+      const id = sourceKey.slice(prefix.length);
+      return lists.find(list => list.id === id)?.name ?? id;
+    };
+
+    if (sourceKey === ListService.LISTS_KEY) return 'リスト一覧';
+    if (sourceKey.startsWith(TrashService.getStorageKey(''))) {
+      return `ゴミ箱（${listName(TrashService.getStorageKey(''))}）`;
+    }
+    if (sourceKey.startsWith(TodoService.getStorageKey(''))) {
+      return `TODO（${listName(TodoService.getStorageKey(''))}）`;
+    }
+    return sourceKey;
+  };
+
+  /**
+   * 隔離されたデータをJSONファイルとしてダウンロードする
+   */
+  const handleDownload = (entry: QuarantineEntry) => {
+    const timestamp = entry.quarantinedAt.toISOString().replace(/[:.]/g, '-');
+    const safeKey = entry.sourceKey.replace(/[\\/:*?"<>|\s]+/g, '_');
+    FileService.download(entry.content, `quarantine_${safeKey}_${timestamp}.json`, 'application/json');
+  };
+
+  return (
+    <div
+      role="alert"
+      className="p-4 space-y-3 text-sm rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-medium">
+          ⚠️ 読み込めなかった保存データが{entries.length}件あります。データは削除せずに保管しています。
+        </p>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+          className="font-medium underline hover:no-underline focus:outline-none focus:ring-2 focus:ring-yellow-500 rounded"
+        >
+          {isExpanded ? '閉じる' : '詳細を表示'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li
+              key={entry.id}
+              className="flex flex-wrap items-center gap-3 p-2 rounded bg-white/60 dark:bg-gray-900/40"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{getSourceLabel(entry.sourceKey)}</p>
+                <p className="text-xs">{entry.reason}</p>
+                <p className="text-xs opacity-75">{entry.quarantinedAt.toLocaleString('ja-JP')}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDownload(entry)}
+                className="px-3 py-1 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+              >
+                ダウンロード
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm('隔離されたデータを削除しますか？削除すると元に戻せません。')) {
+                    onRemove(entry.id);
+                  }
+                }}
+                className="px-3 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-200 rounded hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/30"
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
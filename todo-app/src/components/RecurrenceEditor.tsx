@@ -0,0 +1,156 @@
+'use client';
+
+import { RecurrenceRule, RecurrenceFrequency } from '@/types';
+import { RecurrenceService } from '@/services';
+
+interface RecurrenceEditorProps {
+  id: string;
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  /** 既定の曜日・日付の決定に使う基準日（期限） */
+  baseDate?: Date;
+  disabled?: boolean;
+}
+
+/** 頻度の表示名 */
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: '日ごと',
+  weekly: '週ごと',
+  monthly: 'か月ごと',
+};
+
+/**
+ * 繰り返しルールを編集するコンポーネント
+ * 「繰り返さない」を選ぶと繰り返しを停止する
+ */
+export function RecurrenceEditor({ id, value, onChange, baseDate, disabled = false }: RecurrenceEditorProps) {
+  const base = baseDate ?? new Date();
+
+  /**
+   * 頻度の変更（頻度に応じた既定値を設定する）
+   */
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+    if (!frequency) {
+      onChange(undefined);
+      return;
+    }
+
+    onChange({
+      frequency,
+      interval: value?.interval ?? 1,
+      ...(frequency === 'weekly' ? { weekdays: value?.weekdays ?? [base.getDay()] } : {}),
+      ...(frequency === 'monthly' ? { monthDay: value?.monthDay ?? base.getDate() } : {}),
+    });
+  };
+
+  /**
+   * 曜日の選択を切り替える（最低1つは残す）
+   */
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+
+    const weekdays = value.weekdays ?? [];
+    const updated = weekdays.includes(day)
+      ? weekdays.filter(selected => selected !== day)
+      : [...weekdays, day].sort();
+    if (updated.length === 0) return;
+
+    onChange({ ...value, weekdays: updated });
+  };
+
+  const inputClassName =
+    'px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <label htmlFor={`${id}-frequency`} className="text-gray-600 dark:text-gray-400">
+        繰り返し:
+      </label>
+
+      {value && (
+        <input
+          type="number"
+          min={1}
+          max={RecurrenceService.MAX_INTERVAL}
+          value={value.interval}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              interval: Math.min(
+                RecurrenceService.MAX_INTERVAL,
+                Math.max(1, Math.floor(Number(e.target.value)) || 1)
+              ),
+            })
+          }
+          disabled={disabled}
+          className={`${inputClassName} w-16`}
+          aria-label="繰り返しの間隔"
+        />
+      )}
+
+      <select
+        id={`${id}-frequency`}
+        value={value?.frequency ?? ''}
+        onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+        disabled={disabled}
+        className={inputClassName}
+      >
+        <option value="">繰り返さない</option>
+        {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+          <option key={frequency} value={frequency}>
+            {FREQUENCY_LABELS[frequency]}
+          </option>
+        ))}
+      </select>
+
+      {/* 曜日の選択（週ごと） */}
+      {value?.frequency === 'weekly' && (
+        <div role="group" aria-label="曜日" className="inline-flex gap-1">
+          {RecurrenceService.WEEKDAY_LABELS.map((label, day) => {
+            const selected = value.weekdays?.includes(day) ?? false;
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                disabled={disabled}
+                aria-pressed={selected}
+                className={`
+                  w-7 h-7 rounded-full text-xs transition-colors
+                  ${selected
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                  }
+                `}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 日付の指定（か月ごと） */}
+      {value?.frequency === 'monthly' && (
+        <label className="inline-flex items-center gap-1 text-gray-600 dark:text-gray-400">
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.monthDay ?? base.getDate()}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                monthDay: Math.min(31, Math.max(1, Math.floor(Number(e.target.value)) || 1)),
+              })
+            }
+            disabled={disabled}
+            className={`${inputClassName} w-16`}
+            aria-label="繰り返す日付"
+          />
+          日
+        </label>
+      )}
+    </div>
+  );
+}
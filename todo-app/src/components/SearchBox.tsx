@@ -0,0 +1,71 @@
+'use client';
+
+import { KeyboardEvent } from 'react';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** 検索結果の件数 */
+  resultCount: number;
+  /** 検索対象の件数 */
+  totalCount: number;
+}
+
+/**
+ * TODOを全文検索するための入力欄
+ * Escapeキーで検索をクリアする
+ */
+export function SearchBox({ value, onChange, resultCount, totalCount }: SearchBoxProps) {
+  const isSearching = value.trim().length > 0;
+
+  /**
+   * キーボードイベント処理
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'Escape' && value) {
+      e.preventDefault();
+      onChange('');
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <label htmlFor="todo-search" className="sr-only">
+          TODOを検索
+        </label>
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" aria-hidden="true">
+          🔍
+        </span>
+        <input
+          id="todo-search"
+          type="search"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="TODOを検索（タイトル・タグ・サブタスク）"
+          aria-describedby={isSearching ? 'todo-search-result' : undefined}
+          className="w-full pl-10 pr-10 py-2 rounded-lg border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="検索をクリア"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {isSearching && (
+        <p id="todo-search-result" role="status" className="text-xs text-gray-500 dark:text-gray-400">
+          {totalCount}件中 <strong className="text-gray-700 dark:text-gray-200">{resultCount}</strong> 件が一致しました
+        </p>
+      )}
+    </div>
+  );
+}
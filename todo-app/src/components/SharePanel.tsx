@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { Todo, SortMode } from '@/types';
+import { ShareService } from '@/services';
+
+interface SharePanelProps {
+  listName: string;
+  /** 表示中のリストのTODO */
+  todos: Todo[];
+  sortMode: SortMode;
+}
+
+/**
+ * 表示中のリストを閲覧専用で共有するリンクを作成するコンポーネント
+ */
+export function SharePanel({ listName, todos, sortMode }: SharePanelProps) {
+  const [includeCompleted, setIncludeCompleted] = useState(true);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sharedTodos = includeCompleted ? todos : todos.filter(todo => !todo.completed);
+
+  /**
+   * 共有リンクを作成する
+   */
+  const handleCreate = async () => {
+    try {
+      const baseUrl = `${window.location.origin}${window.location.pathname}`;
+      setShareUrl(await ShareService.createShareUrl(listName, sharedTodos, sortMode, baseUrl));
+      setIsCopied(false);
+      setError(null);
+    } catch (err) {
+      setShareUrl(null);
+      setError(err instanceof Error ? err.message : '共有リンクの作成に失敗しました');
+      console.error('共有リンク作成エラー:', err);
+    }
+  };
+
+  /**
+   * 共有リンクをクリップボードにコピーする
+   */
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setIsCopied(true);
+    } catch (err) {
+      setError('コピーできませんでした。リンクを選択してコピーしてください');
+      console.error('共有リンクのコピーエラー:', err);
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="share-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="share-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        🔗 共有リンク
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={() => void handleCreate()}
+          disabled={sharedTodos.length === 0}
+          className="px-4 py-2 font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          共有リンクを作成
+        </button>
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeCompleted}
+            onChange={(e) => {
+              setIncludeCompleted(e.target.checked);
+              setShareUrl(null);
+            }}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          完了済みも含める
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        「{listName}」の{sharedTodos.length}件を閲覧専用で共有します。内容はリンクの中に含まれるため、サーバーには送信されません。リンクを知っている人は誰でも内容を見られます。
+      </p>
+
+      {shareUrl && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={shareUrl}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            aria-label="共有リンク"
+            className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50 text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200"
+          />
+          <button
+            type="button"
+            onClick={() => void handleCopy()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            {isCopied ? 'コピーしました' : 'コピー'}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm break-words">
+          {error}
+        </div>
+      )}
+    </section>
+  );
+}
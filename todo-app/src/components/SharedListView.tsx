@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { SharedSnapshot } from '@/services';
+import { TodoList } from './TodoList';
+
+interface SharedListViewProps {
+  /** 共有されたリスト（読み込めなかった場合はnull） */
+  snapshot: SharedSnapshot | null;
+  /** 共有リンクを読み込めなかった理由 */
+  error: string | null;
+  isLoading: boolean;
+  /** 読み込み先のリスト名 */
+  targetListName: string;
+  onImport: (snapshot: SharedSnapshot) => Promise<void>;
+  onClose: () => void;
+}
+
+/** 閲覧専用の表示では何もしない */
+const noop = async () => {};
+
+/**
+ * 共有リンクで開かれたリストを閲覧専用で表示するコンポーネント
+ */
+export function SharedListView({
+  snapshot,
+  error,
+  isLoading,
+  targetListName,
+  onImport,
+  onClose,
+}: SharedListViewProps) {
+  const [isImporting, setIsImporting] = useState(false);
+
+  /**
+   * 共有されたTODOを自分のリストに読み込む
+   */
+  const handleImport = async () => {
+    if (!snapshot) return;
+    try {
+      setIsImporting(true);
+      await onImport(snapshot);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* ヘッダーセクション */}
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">
+          {snapshot ? snapshot.listName || '共有されたリスト' : '共有されたリスト'}
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 text-sm">
+          {snapshot
+            ? `閲覧専用・${snapshot.sharedAt.toLocaleString('ja-JP')}に共有されました`
+            : '閲覧専用'}
+        </p>
+      </div>
+
+      {/* 共有されたリストへの操作 */}
+      <div className="flex flex-wrap gap-3 justify-center sm:justify-end">
+        {snapshot && snapshot.todos.length > 0 && (
+          <button
+            type="button"
+            onClick={() => void handleImport()}
+            disabled={isImporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            「{targetListName}」に読み込む
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          自分のリストに戻る
+        </button>
+      </div>
+
+      {isLoading && !snapshot && (
+        <p role="status" className="text-center text-sm text-gray-500 dark:text-gray-400">
+          共有されたリストを読み込み中…
+        </p>
+      )}
+
+      {/* 共有されたTODO（変更はできない） */}
+      {snapshot && (
+        <TodoList
+          todos={snapshot.todos}
+          onUpdate={noop}
+          onDelete={noop}
+          onToggle={noop}
+          sortMode={snapshot.sortMode}
+          readOnly
+        />
+      )}
+
+      {error && (
+        <div role="alert" className="p-4 text-sm rounded-lg bg-red-50 border border-red-200 text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
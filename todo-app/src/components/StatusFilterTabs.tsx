@@ -0,0 +1,68 @@
+'use client';
+
+import { KeyboardEvent } from 'react';
+import { StatusFilter, STATUS_FILTERS, STATUS_FILTER_LABELS } from '@/types';
+
+interface StatusFilterTabsProps {
+  value: StatusFilter;
+  onChange: (filter: StatusFilter) => void;
+  /** 各条件に該当する件数 */
+  counts: Record<StatusFilter, number>;
+}
+
+/**
+ * 完了状態（すべて／未完了／完了済み）で絞り込むタブ
+ * ←/→キーでタブを切り替えられる
+ */
+export function StatusFilterTabs({ value, onChange, counts }: StatusFilterTabsProps) {
+  /**
+   * 矢印キーで前後のタブに移動する
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const offset = e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : 0;
+    if (offset === 0) return;
+
+    e.preventDefault();
+    const index = (STATUS_FILTERS.indexOf(value) + offset + STATUS_FILTERS.length) % STATUS_FILTERS.length;
+    onChange(STATUS_FILTERS[index]);
+    e.currentTarget.querySelectorAll<HTMLButtonElement>('[role="tab"]')[index]?.focus();
+  };
+
+  return (
+    <div
+      role="tablist"
+      aria-label="完了状態で絞り込み"
+      onKeyDown={handleKeyDown}
+      className="flex gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg"
+    >
+      {STATUS_FILTERS.map(filter => {
+        const selected = filter === value;
+        return (
+          <button
+            key={filter}
+            type="button"
+            role="tab"
+            aria-selected={selected}
+            tabIndex={selected ? 0 : -1}
+            onClick={() => onChange(filter)}
+            className={`
+              flex-1 inline-flex items-center justify-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors
+              focus:outline-none focus:ring-2 focus:ring-blue-500
+              ${selected
+                ? 'bg-white text-blue-700 shadow-sm dark:bg-gray-900 dark:text-blue-300'
+                : 'text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'
+              }
+            `}
+          >
+            {STATUS_FILTER_LABELS[filter]}
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs ${selected ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}
+            >
+              {counts[filter]}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { useStorageBackend } from '@/hooks';
+
+interface StorageGateProps {
+  children: ReactNode;
+}
+
+/**
+ * 保存先の準備ができるまで読み込み中を表示し、準備ができてから子要素を表示するコンポーネント
+ * 保存先への書き込みの失敗や、データが永続化されない場合の注意もここで表示する
+ */
+export function StorageGate({ children }: StorageGateProps) {
+  const { backend, isReady, error, clearError } = useStorageBackend();
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div
+          role="alert"
+          className="max-w-2xl mx-auto flex items-start gap-3 p-3 text-sm rounded-lg bg-red-50 border border-red-200 text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300"
+        >
+          <span className="flex-1">{error}</span>
+          <button
+            type="button"
+            onClick={clearError}
+            className="font-medium hover:underline focus:outline-none focus:underline"
+            aria-label="エラーを閉じる"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {backend === 'memory' && (
+        <p
+          role="status"
+          className="max-w-2xl mx-auto p-3 text-sm rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200"
+        >
+          ⚠️ このブラウザではデータを保存できないため、ページを閉じると変更は失われます。
+        </p>
+      )}
+
+      {isReady ? (
+        children
+      ) : (
+        <p role="status" className="text-center text-sm text-gray-500 dark:text-gray-400">
+          読み込み中...
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, FormEvent, KeyboardEvent } from 'react';
+import { Subtask } from '@/types';
+import { HighlightText } from './HighlightText';
+
+/**
+ * サブタスク操作のハンドラー（対象のTODOは呼び出し側で束縛済み）
+ */
+export interface SubtaskActions {
+  onAdd: (title: string) => Promise<void>;
+  onRename: (subtaskId: string, title: string) => Promise<void>;
+  onToggle: (subtaskId: string) => Promise<void>;
+  onDelete: (subtaskId: string) => Promise<void>;
+  onMove: (subtaskId: string, toIndex: number) => Promise<void>;
+  onAutoCompleteChange: (enabled: boolean) => Promise<void>;
+}
+
+interface SubtaskListProps {
+  todoId: string;
+  subtasks: Subtask[];
+  autoComplete: boolean;
+  actions: SubtaskActions;
+  disabled?: boolean;
+  /** 検索文字列（一致した部分を強調表示する） */
+  searchQuery?: string;
+}
+
+/**
+ * TODOのサブタスク（チェックリスト）を表示・編集するコンポーネント
+ */
+export function SubtaskList({
+  todoId,
+  subtasks,
+  autoComplete,
+  actions,
+  disabled = false,
+  searchQuery,
+}: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  /**
+   * サブタスクの追加
+   */
+  const handleAdd = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+
+    await actions.onAdd(newTitle);
+    setNewTitle('');
+  };
+
+  /**
+   * タイトル編集の確定
+   */
+  const commitEdit = async () => {
+    if (!editingId) return;
+
+    const subtask = subtasks.find(item => item.id === editingId);
+    if (subtask && editTitle.trim() && editTitle.trim() !== subtask.title) {
+      await actions.onRename(editingId, editTitle);
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * タイトル編集中のキーボードイベント処理
+   */
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditingId(null);
+    }
+  };
+
+  /**
+   * Alt+↑/↓キーでサブタスクを並べ替える
+   */
+  const handleItemKeyDown = (e: KeyboardEvent<HTMLLIElement>, subtaskId: string, index: number) => {
+    if (!e.altKey || editingId) return;
+
+    if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault();
+      actions.onMove(subtaskId, index - 1);
+    } else if (e.key === 'ArrowDown' && index < subtasks.length - 1) {
+      e.preventDefault();
+      actions.onMove(subtaskId, index + 1);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {subtasks.length > 0 && (
+        <ul className="space-y-1" aria-label="サブタスク">
+          {subtasks.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              onKeyDown={(e) => handleItemKeyDown(e, subtask.id, index)}
+              className="group/subtask flex items-center gap-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={subtask.completed}
+                onChange={() => actions.onToggle(subtask.id)}
+                disabled={disabled}
+                className="w-4 h-4 accent-green-500 cursor-pointer disabled:cursor-not-allowed"
+                aria-label={`${subtask.title}を${subtask.completed ? '未完了' : '完了'}にする`}
+              />
+
+              {editingId === subtask.id ? (
+                <input
+                  type="text"
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  onBlur={commitEdit}
+                  autoFocus
+                  maxLength={500}
+                  className="flex-1 px-2 py-0.5 rounded border border-blue-400 bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="サブタスクのタイトル"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(subtask.id);
+                    setEditTitle(subtask.title);
+                  }}
+                  disabled={disabled}
+                  className={`
+                    flex-1 text-left break-words rounded focus:outline-none focus:ring-2 focus:ring-blue-500
+                    ${subtask.completed
+                      ? 'text-gray-400 line-through dark:text-gray-500'
+                      : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400'
+                    }
+                  `}
+                  title="クリックして編集（Alt+↑/↓で並べ替え）"
+                >
+                  <HighlightText text={subtask.title} query={searchQuery} />
+                </button>
+              )}
+
+              <div className="flex items-center gap-0.5 opacity-0 group-hover/subtask:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => actions.onMove(subtask.id, index - 1)}
+                  disabled={disabled || index === 0}
+                  className="px-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                  aria-label={`${subtask.title}を上へ移動`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => actions.onMove(subtask.id, index + 1)}
+                  disabled={disabled || index === subtasks.length - 1}
+                  className="px-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                  aria-label={`${subtask.title}を下へ移動`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => actions.onDelete(subtask.id)}
+                  disabled={disabled}
+                  className="px-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                  aria-label={`${subtask.title}を削除`}
+                >
+                  ×
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* サブタスクの追加 */}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <label htmlFor={`new-subtask-${todoId}`} className="sr-only">
+          サブタスクを追加
+        </label>
+        <input
+          id={`new-subtask-${todoId}`}
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="サブタスクを追加..."
+          disabled={disabled}
+          maxLength={500}
+          className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !newTitle.trim()}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          追加
+        </button>
+      </form>
+
+      {/* 自動完了の設定 */}
+      <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoComplete}
+          onChange={(e) => actions.onAutoCompleteChange(e.target.checked)}
+          disabled={disabled}
+          className="w-3.5 h-3.5 accent-blue-600"
+        />
+        すべてのサブタスクが完了したら親のTODOも完了にする（未完了に戻すと親も戻る）
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { SyncSettings } from '@/services';
+import { SyncStatus } from '@/hooks';
+
+interface SyncPanelProps {
+  status: SyncStatus;
+  /** 同期の設定（同期が無効な場合はnull） */
+  settings: SyncSettings | null;
+  /** 送信待ちの変更の件数 */
+  pendingCount: number;
+  error: string | null;
+  onEnable: (endpoint: string, token?: string) => Promise<void>;
+  onDisable: () => void;
+  onSyncNow: () => Promise<void>;
+}
+
+/** 同期の状態の表示名 */
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: '無効',
+  idle: '同期済み',
+  syncing: '同期中…',
+  error: '同期に失敗しました（自動で再試行します）',
+};
+
+/**
+ * 同期サーバーとの同期の設定・状態の表示を行うコンポーネント
+ */
+export function SyncPanel({
+  status,
+  settings,
+  pendingCount,
+  error,
+  onEnable,
+  onDisable,
+  onSyncNow,
+}: SyncPanelProps) {
+  const [endpoint, setEndpoint] = useState('');
+  const [token, setToken] = useState('');
+
+  /**
+   * 同期を有効にする
+   */
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await onEnable(endpoint, token);
+    setToken('');
+  };
+
+  /**
+   * 同期を無効にする（手元のデータは残る）
+   */
+  const handleDisable = () => {
+    if (window.confirm('同期を無効にしますか？手元のデータはそのまま残り、送信していない変更は送信されません。')) {
+      onDisable();
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="sync-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="sync-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        🔄 同期
+      </h3>
+
+      {settings ? (
+        <div className="space-y-3 text-sm">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-gray-700 dark:text-gray-300">
+            <dt className="text-gray-500 dark:text-gray-400">同期サーバー</dt>
+            <dd className="break-all">{settings.endpoint}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">状態</dt>
+            <dd role="status" className={status === 'error' ? 'text-red-600 dark:text-red-400' : undefined}>
+              {STATUS_LABELS[status]}
+            </dd>
+            <dt className="text-gray-500 dark:text-gray-400">送信待ち</dt>
+            <dd>{pendingCount}件</dd>
+            <dt className="text-gray-500 dark:text-gray-400">最終同期</dt>
+            <dd>{settings.lastSyncedAt ? new Date(settings.lastSyncedAt).toLocaleString('ja-JP') : 'まだ同期していません'}</dd>
+          </dl>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => void onSyncNow()}
+              disabled={status === 'syncing'}
+              className="px-4 py-2 font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+            >
+              今すぐ同期
+            </button>
+            <button
+              type="button"
+              onClick={handleDisable}
+              className="px-4 py-2 font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              同期を無効にする
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+          <div className="space-y-1">
+            <label htmlFor="sync-endpoint" className="block font-medium text-gray-700 dark:text-gray-300">
+              同期サーバーのURL
+            </label>
+            <input
+              id="sync-endpoint"
+              type="url"
+              value={endpoint}
+              onChange={(e) => setEndpoint(e.target.value)}
+              placeholder="https://example.com:8787"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="sync-token" className="block font-medium text-gray-700 dark:text-gray-300">
+              トークン（サーバーで設定した場合のみ）
+            </label>
+            <input
+              id="sync-token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              autoComplete="off"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            同期を有効にする
+          </button>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            すべてのリストとTODOを同期します（ゴミ箱と表示の設定は同期しません）。同じTODOを複数の端末で変更した場合は、後から変更した方が残ります。
+            同期サーバーは <code>npm run sync-server</code> で起動できます。
+          </p>
+        </form>
+      )}
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm break-words">
+          {error}
+        </div>
+      )}
+    </section>
+  );
+}
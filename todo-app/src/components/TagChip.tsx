@@ -0,0 +1,99 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { HighlightText } from './HighlightText';
+
+/**
+ * タグの色のパレット
+ */
+const TAG_COLORS = [
+  'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200',
+  'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  'bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-200',
+];
+
+/**
+ * タグ名から色のクラスを決定する（同じタグは常に同じ色になる）
+ * @param tag タグ
+ * @returns TailwindCSSのクラス
+ */
+export function getTagColorClass(tag: string): string {
+  let hash = 0;
+  for (const char of tag.toLowerCase()) {
+    hash = (hash * 31 + char.codePointAt(0)!) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+}
+
+interface TagChipProps {
+  tag: string;
+  /** 選択状態（フィルターバーで使用） */
+  selected?: boolean;
+  onClick?: () => void;
+  /** 指定された場合は削除ボタンを表示する */
+  onRemove?: () => void;
+  disabled?: boolean;
+  /** 検索文字列（一致した部分を強調表示する） */
+  highlightQuery?: string;
+  children?: ReactNode;
+}
+
+/**
+ * 色付きのタグチップを表示するコンポーネント
+ */
+export function TagChip({
+  tag,
+  selected,
+  onClick,
+  onRemove,
+  disabled = false,
+  highlightQuery,
+  children,
+}: TagChipProps) {
+  const className = `
+    inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-all
+    ${getTagColorClass(tag)}
+    ${selected === undefined ? '' : selected ? 'ring-2 ring-offset-1 ring-blue-500' : 'opacity-60 hover:opacity-100'}
+  `;
+
+  const label = (
+    <span className="break-all">
+      #<HighlightText text={tag} query={highlightQuery} />
+    </span>
+  );
+
+  return (
+    <span className={className}>
+      {onClick ? (
+        <button
+          type="button"
+          onClick={onClick}
+          disabled={disabled}
+          className="focus:outline-none focus:underline disabled:cursor-not-allowed"
+          aria-pressed={selected}
+        >
+          {label}
+        </button>
+      ) : (
+        label
+      )}
+      {children}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="ml-0.5 leading-none hover:opacity-70 focus:outline-none disabled:cursor-not-allowed"
+          aria-label={`タグ「${tag}」を外す`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, KeyboardEvent } from 'react';
+import { TagFilterMode } from '@/types';
+import { TagChip } from './TagChip';
+
+interface TagFilterBarProps {
+  tags: string[];
+  selectedTags: string[];
+  mode: TagFilterMode;
+  onSelectedTagsChange: (tags: string[]) => void;
+  onModeChange: (mode: TagFilterMode) => void;
+  onRenameTag: (oldTag: string, newTag: string) => Promise<void>;
+  onDeleteTag: (tag: string) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * タグによる絞り込みバー
+ * 複数タグのAND/OR選択と、タグの名前変更・削除を提供する
+ */
+export function TagFilterBar({
+  tags,
+  selectedTags,
+  mode,
+  onSelectedTagsChange,
+  onModeChange,
+  onRenameTag,
+  onDeleteTag,
+  isLoading = false,
+}: TagFilterBarProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  if (tags.length === 0) return null;
+
+  /**
+   * タグの選択を切り替える
+   */
+  const toggleTag = (tag: string) => {
+    onSelectedTagsChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter(selected => selected !== tag)
+        : [...selectedTags, tag]
+    );
+  };
+
+  /**
+   * 名前変更を確定する
+   */
+  const commitRename = async () => {
+    if (!editingTag) return;
+
+    const newTag = editValue.trim();
+    if (newTag && newTag !== editingTag) {
+      await onRenameTag(editingTag, newTag);
+      // 選択中のタグも新しい名前に置き換える
+      if (selectedTags.includes(editingTag)) {
+        onSelectedTagsChange(selectedTags.map(tag => (tag === editingTag ? newTag : tag)));
+      }
+    }
+    setEditingTag(null);
+  };
+
+  /**
+   * 名前変更中のキーボードイベント処理
+   */
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditingTag(null);
+    }
+  };
+
+  /**
+   * タグを削除する（すべてのTODOから取り除く）
+   */
+  const handleDelete = async (tag: string) => {
+    if (!window.confirm(`タグ「${tag}」をすべてのTODOから削除しますか？`)) return;
+
+    await onDeleteTag(tag);
+    onSelectedTagsChange(selectedTags.filter(selected => selected !== tag));
+  };
+
+  return (
+    <div className="p-4 space-y-3 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="font-medium text-gray-700 dark:text-gray-300">タグで絞り込み</span>
+
+        <div className="flex items-center gap-2">
+          {/* AND/OR切り替え */}
+          <div role="group" aria-label="絞り込み条件" className="inline-flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-xs">
+            {(['or', 'and'] as const).map(value => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onModeChange(value)}
+                aria-pressed={mode === value}
+                className={`
+                  px-3 py-1 transition-colors
+                  ${mode === value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-600 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }
+                `}
+                title={value === 'or' ? 'いずれかのタグを含む' : 'すべてのタグを含む'}
+              >
+                {value === 'or' ? 'OR' : 'AND'}
+              </button>
+            ))}
+          </div>
+
+          {selectedTags.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onSelectedTagsChange([])}
+              className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              解除
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={() => {
+              setIsManaging(!isManaging);
+              setEditingTag(null);
+            }}
+            aria-pressed={isManaging}
+            className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            {isManaging ? '完了' : '管理'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {tags.map(tag =>
+          editingTag === tag ? (
+            <input
+              key={tag}
+              type="text"
+              value={editValue}
+              onChange={(e) => setEditValue(e.target.value)}
+              onKeyDown={handleRenameKeyDown}
+              onBlur={commitRename}
+              disabled={isLoading}
+              autoFocus
+              className="px-2 py-0.5 text-xs rounded border border-blue-400 bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={`タグ「${tag}」の新しい名前`}
+            />
+          ) : (
+            <TagChip
+              key={tag}
+              tag={tag}
+              selected={selectedTags.includes(tag)}
+              onClick={() => toggleTag(tag)}
+              disabled={isLoading}
+            >
+              {isManaging && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingTag(tag);
+                      setEditValue(tag);
+                    }}
+                    disabled={isLoading}
+                    className="ml-1 hover:opacity-70"
+                    aria-label={`タグ「${tag}」の名前を変更`}
+                    title="名前を変更"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(tag)}
+                    disabled={isLoading}
+                    className="hover:opacity-70"
+                    aria-label={`タグ「${tag}」を削除`}
+                    title="削除"
+                  >
+                    🗑
+                  </button>
+                </>
+              )}
+            </TagChip>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useId, KeyboardEvent } from 'react';
+import { TodoService } from '@/services';
+import { TagChip } from './TagChip';
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** 補完候補（既存のタグ） */
+  suggestions?: string[];
+  disabled?: boolean;
+}
+
+/** 補完候補の最大表示数 */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * タグを編集する入力コンポーネント
+ * Enterまたはカンマで追加し、既存タグからの補完をサポートする
+ */
+export function TagInput({ id, tags, onChange, suggestions = [], disabled = false }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const listboxId = useId();
+
+  // 入力中の文字列に一致し、まだ付いていないタグを候補とする
+  const query = TodoService.normalizeTag(input).toLowerCase();
+  const currentKeys = new Set(tags.map(tag => tag.toLowerCase()));
+  const filteredSuggestions = query
+    ? suggestions
+        .filter(tag => !currentKeys.has(tag.toLowerCase()) && tag.toLowerCase().includes(query))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  /**
+   * タグを追加する
+   */
+  const addTag = (value: string) => {
+    if (!TodoService.normalizeTag(value)) {
+      setInput('');
+      return;
+    }
+
+    const validation = TodoService.validateTag(value);
+    if (!validation.isValid) {
+      setError(validation.error ?? null);
+      return;
+    }
+
+    onChange(TodoService.normalizeTags([...tags, value]));
+    setInput('');
+    setError(null);
+    setHighlightedIndex(-1);
+  };
+
+  /**
+   * タグを外す
+   */
+  const removeTag = (tagToRemove: string) => {
+    onChange(tags.filter(tag => tag !== tagToRemove));
+  };
+
+  /**
+   * キーボードイベント処理
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // IME変換中のEnterは確定操作なので無視する
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'Enter' || e.key === ',') {
+      if (!input.trim()) return;
+      e.preventDefault();
+      e.stopPropagation();
+      addTag(
+        highlightedIndex >= 0 && filteredSuggestions[highlightedIndex]
+          ? filteredSuggestions[highlightedIndex]
+          : input
+      );
+    } else if (e.key === 'ArrowDown' && filteredSuggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex((highlightedIndex + 1) % filteredSuggestions.length);
+    } else if (e.key === 'ArrowUp' && filteredSuggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(
+        (highlightedIndex - 1 + filteredSuggestions.length) % filteredSuggestions.length
+      );
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'Escape' && input) {
+      e.preventDefault();
+      e.stopPropagation();
+      setInput('');
+      setHighlightedIndex(-1);
+    }
+  };
+
+  return (
+    <div className="relative space-y-1">
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 focus-within:ring-2 focus-within:ring-blue-500">
+        {tags.map(tag => (
+          <TagChip key={tag} tag={tag} onRemove={() => removeTag(tag)} disabled={disabled} />
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlightedIndex(-1);
+            if (error) setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTag(input)}
+          disabled={disabled}
+          placeholder={tags.length === 0 ? 'タグを追加（Enterで確定）' : ''}
+          className="flex-1 min-w-[8rem] py-0.5 text-sm bg-transparent focus:outline-none dark:text-white disabled:cursor-not-allowed"
+          maxLength={TodoService.MAX_TAG_LENGTH + 1}
+          role="combobox"
+          aria-controls={listboxId}
+          aria-expanded={filteredSuggestions.length > 0}
+          aria-autocomplete="list"
+          aria-invalid={!!error}
+        />
+      </div>
+
+      {/* 補完候補 */}
+      {filteredSuggestions.length > 0 && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 left-0 right-0 mt-1 max-h-48 overflow-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded shadow-lg"
+        >
+          {filteredSuggestions.map((tag, index) => (
+            <li key={tag} role="option" aria-selected={index === highlightedIndex}>
+              <button
+                type="button"
+                // onBlurより先に候補を確定させる
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className={`
+                  w-full text-left px-3 py-1.5 text-sm
+                  ${index === highlightedIndex
+                    ? 'bg-blue-100 dark:bg-blue-900'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }
+                  dark:text-gray-100
+                `}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-xs">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,74 @@
 'use client';
 
-import { useTodos } from '@/hooks';
-import { AddTodoForm, TodoList } from '@/components';
+import { useState, useEffect } from 'react';
+import { useTodos, useTodoLists, useViewState, usePersistentState, useQuarantine, useSync, useSharedSnapshot } from '@/hooks';
+import { Todo, TagFilterMode, SortMode } from '@/types';
+import {
+  TodoService,
+  SearchService,
+  TrashService,
+  ShareService,
+  ListService,
+  BackupService,
+  BackupImportResult,
+  SharedSnapshot,
+} from '@/services';
+import {
+  AddTodoForm,
+  TodoList,
+  EmailModal,
+  TagFilterBar,
+  ListSwitcher,
+  SearchBox,
+  StatusFilterTabs,
+  UndoToast,
+  TrashPanel,
+  BackupPanel,
+  CsvPanel,
+  MarkdownPanel,
+  IcalPanel,
+  TodoTxtPanel,
+  DeviceMergePanel,
+  SyncPanel,
+  SharePanel,
+  SharedListView,
+  QuarantineNotice,
+} from '@/components';
 
 /**
  * TODOアプリケーションのメインコンポーネント
  * すべてのTODO関連コンポーネントを統合し、状態管理を行う
  */
 export function TodoApp() {
+  // リスト一覧（初回読み込み時に既存データを既定のリストへ移行する）
+  const {
+    lists,
+    activeList,
+    activeListId,
+    error: listError,
+    selectList,
+    createList,
+    renameList,
+    moveList,
+    setListArchived,
+    deleteList,
+    replaceLists,
+  } = useTodoLists();
+
   const {
     // データ
     todos,
+    trash,
     stats,
+    allTags,
     
     // 状態
     isLoading,
     error,
+    canUndo,
+    canRedo,
+    undoNotice,
+    syncNotice,
     
     // アクション
     addTodo,
@@ -24,66 +77,437 @@ export function TodoApp() {
     toggleComplete,
     clearAllTodos,
     clearCompletedTodos,
-  } = useTodos();
+    setTodosCompleted,
+    deleteTodos,
+    editTodos,
+    renameTag,
+    deleteTag,
+    moveTodoToList,
+    reorderTodo,
+    replaceTodos,
+    addSubtask,
+    renameSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    moveSubtask,
+    setSubtaskAutoComplete,
+    restoreFromTrash,
+    purgeFromTrash,
+    undo,
+    redo,
+    dismissUndoNotice,
+    dismissSyncNotice,
+  } = useTodos(activeListId);
+
+  const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isImportExportOpen, setIsImportExportOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [storedSortMode, setSortMode] = usePersistentState<SortMode>(TodoService.SORT_MODE_KEY, 'auto');
+  const sortMode: SortMode = storedSortMode === 'manual' ? 'manual' : 'auto';
+  const [retentionDays, setRetentionDays] = usePersistentState<number>(
+    TrashService.RETENTION_KEY,
+    TrashService.DEFAULT_RETENTION_DAYS
+  );
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagFilterMode, setTagFilterMode] = useState<TagFilterMode>('or');
+
+  // 完了状態の絞り込みと検索文字列（URLに保持し、再読み込みやブックマークで復元する）
+  const { statusFilter, searchQuery, setStatusFilter, setSearchQuery } = useViewState();
+
+  // 読み込めずに隔離された保存データ
+  const { entries: quarantineEntries, removeEntry: removeQuarantineEntry } = useQuarantine();
+
+  // 同期サーバーとの同期（有効な間は自動で同期する）
+  const sync = useSync();
+
+  // 共有リンクで開かれたリスト（閲覧専用で表示する）
+  const shared = useSharedSnapshot();
+
+  // 存在しなくなったタグは選択から外す
+  const activeSelectedTags = selectedTags.filter(tag => allTags.includes(tag));
+  const isSearching = searchQuery.trim().length > 0;
+  const visibleTodos = SearchService.filterTodos(
+    TodoService.filterByStatus(
+      TodoService.filterByTags(todos, activeSelectedTags, tagFilterMode),
+      statusFilter
+    ),
+    searchQuery
+  );
+
+  // 書き出し用の表示順のTODOリスト
+  const sortedTodos = [...todos].sort(
+    sortMode === 'manual' ? TodoService.compareByPosition : TodoService.compareTodos
+  );
+
+  // Ctrl+Z で元に戻す、Ctrl+Shift+Z（Ctrl+Y）でやり直す
+  // 入力欄ではブラウザ標準の取り消しを優先する
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target;
+      const isTextEntry =
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit'].includes(target.type)) ||
+        (target instanceof HTMLElement && target.isContentEditable);
+      if (isTextEntry) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && canUndo) {
+        e.preventDefault();
+        undo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && canRedo) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, undo, redo]);
+
+  /**
+   * すべてのリストのTODOを取得する（表示中のリストは画面の状態を使う）
+   */
+  const getTodosByList = (): Record<string, Todo[]> =>
+    Object.fromEntries(
+      lists.map(list => [list.id, list.id === activeListId ? todos : TodoService.loadTodos(list.id)])
+    );
+
+  /**
+   * バックアップの読み込み結果を反映する
+   * 何かを保存する前に検証し、リスト一覧を置き換えられなかった場合はTODOを保存しない
+   * 表示中のリストは履歴に記録し、元に戻せるようにする（それ以外のリストで消えるTODOはゴミ箱に移す）
+   */
+  const handleImportBackup = async ({ lists: importedLists, todosByList }: BackupImportResult) => {
+    const validation = ListService.validateLists(importedLists);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+
+    await replaceLists(importedLists);
+    BackupService.saveImportedTodos(todosByList, activeListId);
+    if (todosByList[activeListId]) {
+      await replaceTodos(todosByList[activeListId], 'バックアップを読み込みました');
+    }
+  };
+
+  /**
+   * 共有されたリストを表示中のリストに読み込み、自分のリストの表示に戻る
+   */
+  const handleImportShared = async (snapshot: SharedSnapshot) => {
+    await replaceTodos(ShareService.importInto(snapshot.todos, todos), '共有されたリストを読み込みました');
+    shared.close();
+  };
+
+  // 移動先の候補（表示中以外の未アーカイブのリスト）
+  const moveTargets = lists.filter(list => list.id !== activeListId && !list.archived);
+
+  // 共有リンクで開かれた場合は、共有されたリストを閲覧専用で表示する
+  if (shared.isShared) {
+    return (
+      <SharedListView
+        snapshot={shared.snapshot}
+        error={shared.error}
+        isLoading={shared.isLoading}
+        targetListName={activeList.name}
+        onImport={handleImportShared}
+        onClose={shared.close}
+      />
+    );
+  }
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       {/* ヘッダーセクション */}
       <div className="text-center space-y-2">
         <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">
-          あなたのTODOリスト
+          {activeList.name}
         </h2>
         <p className="text-gray-600 dark:text-gray-400 text-sm">
           タスクを追加して、効率的に管理しましょう
         </p>
       </div>
 
+      {/* 隔離された保存データの通知 */}
+      <QuarantineNotice entries={quarantineEntries} lists={lists} onRemove={removeQuarantineEntry} />
+
+      {/* 別のタブとの競合の通知 */}
+      {syncNotice && (
+        <div
+          role="status"
+          className="flex items-start gap-3 p-3 text-sm rounded-lg bg-blue-50 border border-blue-200 text-blue-800 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-200"
+        >
+          <span className="flex-1 break-words whitespace-pre-line">{syncNotice}</span>
+          <button
+            type="button"
+            onClick={dismissSyncNotice}
+            className="font-medium hover:underline focus:outline-none focus:underline"
+            aria-label="通知を閉じる"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* リストの切り替え */}
+      <ListSwitcher
+        lists={lists}
+        activeListId={activeListId}
+        onSelect={selectList}
+        onCreate={createList}
+        onRename={renameList}
+        onMove={moveList}
+        onSetArchived={setListArchived}
+        onDelete={deleteList}
+        error={listError}
+      />
+
       {/* TODO追加フォーム */}
       <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
         <AddTodoForm
           onAdd={addTodo}
           isLoading={isLoading}
           error={error}
+          tagSuggestions={allTags}
         />
       </div>
 
       {/* アクションボタン群 */}
-      {todos.length > 0 && (
-        <div className="flex flex-wrap gap-3 justify-center sm:justify-end">
-          {/* 完了済みクリアボタン */}
-          {stats.completed > 0 && (
+      <div className="flex flex-wrap gap-3 justify-center sm:justify-end">
+        {todos.length > 0 && (
+          <>
+            {/* メール送信ボタン（要件7.1） */}
             <button
-              onClick={clearCompletedTodos}
+              onClick={() => setIsEmailModalOpen(true)}
               disabled={isLoading}
-              className="px-4 py-2 text-sm font-medium text-orange-600 bg-orange-50 border border-orange-200 rounded-lg hover:bg-orange-100 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors dark:bg-orange-900/20 dark:border-orange-800 dark:text-orange-400 dark:hover:bg-orange-900/30"
+              className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
             >
-              完了済みを削除 ({stats.completed})
+              📧 メールで送信
             </button>
-          )}
 
-          {/* 全削除ボタン */}
-          <button
-            onClick={() => {
-              if (window.confirm('すべてのTODOを削除しますか？この操作は取り消せません。')) {
-                clearAllTodos();
-              }
-            }}
-            disabled={isLoading}
-            className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors dark:bg-red-900/20 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/30"
-          >
-            すべて削除
-          </button>
+            {/* 共有リンクの表示切り替え */}
+            <button
+              onClick={() => setIsShareOpen(!isShareOpen)}
+              aria-expanded={isShareOpen}
+              className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+            >
+              🔗 共有リンク
+            </button>
+
+            {/* 完了済みクリアボタン */}
+            {stats.completed > 0 && (
+              <button
+                onClick={clearCompletedTodos}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm font-medium text-orange-600 bg-orange-50 border border-orange-200 rounded-lg hover:bg-orange-100 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors dark:bg-orange-900/20 dark:border-orange-800 dark:text-orange-400 dark:hover:bg-orange-900/30"
+              >
+                完了済みを削除 ({stats.completed})
+              </button>
+            )}
+
+            {/* 全削除ボタン */}
+            <button
+              onClick={clearAllTodos}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors dark:bg-red-900/20 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/30"
+            >
+              すべて削除
+            </button>
+          </>
+        )}
+
+        {/* ゴミ箱の表示切り替え */}
+        <button
+          onClick={() => setIsTrashOpen(!isTrashOpen)}
+          aria-expanded={isTrashOpen}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          🗑️ ゴミ箱 ({trash.length})
+        </button>
+
+        {/* 書き出し・読み込みの表示切り替え */}
+        <button
+          onClick={() => setIsImportExportOpen(!isImportExportOpen)}
+          aria-expanded={isImportExportOpen}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          💾 書き出し・読み込み
+        </button>
+
+        {/* 同期の表示切り替え */}
+        <button
+          onClick={() => setIsSyncOpen(!isSyncOpen)}
+          aria-expanded={isSyncOpen}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          🔄 同期{sync.status === 'error' ? ' ⚠️' : sync.pendingCount > 0 && sync.settings ? ` (${sync.pendingCount})` : ''}
+        </button>
+      </div>
+
+      {/* 共有リンクの作成 */}
+      {isShareOpen && todos.length > 0 && (
+        <SharePanel listName={activeList.name} todos={sortedTodos} sortMode={sortMode} />
+      )}
+
+      {/* ゴミ箱 */}
+      {isTrashOpen && (
+        <TrashPanel
+          trash={trash}
+          onRestore={restoreFromTrash}
+          onPurge={purgeFromTrash}
+          retentionDays={retentionDays}
+          onRetentionDaysChange={setRetentionDays}
+          isLoading={isLoading}
+        />
+      )}
+
+      {/* 同期サーバーとの同期 */}
+      {isSyncOpen && (
+        <SyncPanel
+          status={sync.status}
+          settings={sync.settings}
+          pendingCount={sync.pendingCount}
+          error={sync.error}
+          onEnable={sync.enable}
+          onDisable={sync.disable}
+          onSyncNow={sync.syncNow}
+        />
+      )}
+
+      {/* バックアップ・各形式での書き出し・読み込み */}
+      {isImportExportOpen && (
+        <div className="space-y-4">
+          <BackupPanel
+            lists={lists}
+            getTodosByList={getTodosByList}
+            onImport={handleImportBackup}
+            isLoading={isLoading}
+          />
+          <CsvPanel
+            listName={activeList.name}
+            todos={todos}
+            onImport={(importedTodos) => replaceTodos(importedTodos, 'CSVを読み込みました')}
+            isLoading={isLoading}
+          />
+          <MarkdownPanel
+            listName={activeList.name}
+            todos={sortedTodos}
+            onImport={(importedTodos) => replaceTodos(importedTodos, 'Markdownを読み込みました')}
+            isLoading={isLoading}
+          />
+          <IcalPanel
+            listName={activeList.name}
+            todos={sortedTodos}
+            onImport={(importedTodos) => replaceTodos(importedTodos, 'iCalendarを読み込みました')}
+            isLoading={isLoading}
+          />
+          <TodoTxtPanel
+            listName={activeList.name}
+            todos={sortedTodos}
+            onImport={(importedTodos) => replaceTodos(importedTodos, 'todo.txtを読み込みました')}
+            isLoading={isLoading}
+          />
+          <DeviceMergePanel
+            listId={activeListId}
+            listName={activeList.name}
+            todos={todos}
+            onMerge={(mergedTodos) => replaceTodos(mergedTodos, '他の端末のデータを統合しました')}
+            isLoading={isLoading}
+          />
+        </div>
+      )}
+
+      {/* 完了状態の絞り込みタブ・全文検索 */}
+      {todos.length > 0 && (
+        <div className="space-y-3">
+          <StatusFilterTabs
+            value={statusFilter}
+            onChange={setStatusFilter}
+            counts={{ all: stats.total, active: stats.active, completed: stats.completed }}
+          />
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <label htmlFor="sort-mode" className="text-gray-600 dark:text-gray-400">
+              並び順:
+            </label>
+            <select
+              id="sort-mode"
+              value={sortMode}
+              onChange={(e) => setSortMode(e.target.value as SortMode)}
+              className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="auto">自動（優先度・期限順）</option>
+              <option value="manual">手動（ドラッグで並べ替え）</option>
+            </select>
+          </div>
+          <SearchBox
+            value={searchQuery}
+            onChange={setSearchQuery}
+            resultCount={visibleTodos.length}
+            totalCount={todos.length}
+          />
         </div>
       )}
 
+      {/* タグ絞り込みバー */}
+      <TagFilterBar
+        tags={allTags}
+        selectedTags={activeSelectedTags}
+        mode={tagFilterMode}
+        onSelectedTagsChange={setSelectedTags}
+        onModeChange={setTagFilterMode}
+        onRenameTag={renameTag}
+        onDeleteTag={deleteTag}
+        isLoading={isLoading}
+      />
+
       {/* TODOリスト */}
       <TodoList
-        todos={todos}
+        todos={visibleTodos}
         onUpdate={updateTodo}
         onDelete={deleteTodo}
         onToggle={toggleComplete}
         isLoading={isLoading}
         error={error}
+        allTags={allTags}
+        isFiltered={activeSelectedTags.length > 0 || isSearching || statusFilter !== 'all'}
+        moveTargets={moveTargets}
+        onMove={moveTodoToList}
+        subtaskActions={{
+          addSubtask,
+          renameSubtask,
+          toggleSubtask,
+          deleteSubtask,
+          moveSubtask,
+          setSubtaskAutoComplete,
+        }}
+        searchQuery={searchQuery}
+        sortMode={sortMode}
+        onReorder={reorderTodo}
+        bulkActions={{
+          setCompleted: setTodosCompleted,
+          deleteTodos,
+          editTodos,
+        }}
+      />
+
+      {/* 取り消し用の通知 */}
+      {undoNotice && (
+        <UndoToast
+          noticeId={undoNotice.id}
+          message={undoNotice.message}
+          onUndo={undo}
+          onDismiss={dismissUndoNotice}
+        />
+      )}
+
+      {/* メール送信モーダル（要件7） */}
+      <EmailModal
+        todos={todos}
+        isOpen={isEmailModalOpen}
+        onClose={() => setIsEmailModalOpen(false)}
       />
 
       {/* フッター情報 */}
@@ -93,6 +517,11 @@ export function TodoApp() {
             {stats.active > 0 ? (
               <span>
                 あと <strong className="text-blue-600 dark:text-blue-400">{stats.active}</strong> 個のタスクが残っています
+                {stats.activeByPriority.urgent > 0 && (
+                  <>
+                    （うち緊急 <strong className="text-red-600 dark:text-red-400">{stats.activeByPriority.urgent}</strong> 個）
+                  </>
+                )}
               </span>
             ) : (
               <span className="text-green-600 dark:text-green-400 font-medium">
@@ -143,6 +572,7 @@ export function TodoApp() {
                 <li>• ✅ タスクの完了マーク</li>
                 <li>• ✏️ タスクの編集（クリックで編集）</li>
                 <li>• 🗑️ 不要なタスクの削除</li>
+                <li>• 📧 TODOリストのメール送信</li>
                 <li>• 💾 データの自動保存</li>
               </ul>
             </div>
@@ -1,7 +1,35 @@
 'use client';
 
 import { useState, useRef, useEffect, KeyboardEvent } from 'react';
-import { Todo, TodoUpdate } from '@/types';
+import {
+  Todo,
+  RecurrenceRule,
+  TodoListMeta,
+  TodoUpdate,
+  TodoPriority,
+  TODO_PRIORITIES,
+  PRIORITY_LABELS,
+  toDateInputValue,
+  toTimeInputValue,
+  parseDateTimeInput,
+} from '@/types';
+import { TodoService, RecurrenceService } from '@/services';
+import { TagChip } from './TagChip';
+import { TagInput } from './TagInput';
+import { SubtaskList, SubtaskActions } from './SubtaskList';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { HighlightText } from './HighlightText';
+
+/**
+ * 優先度ごとの表示スタイル
+ */
+const PRIORITY_STYLES: Record<TodoPriority, string> = {
+  none: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+  low: 'bg-sky-100 text-sky-700 dark:bg-sky-900 dark:text-sky-200',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  high: 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200',
+  urgent: 'bg-red-600 text-white dark:bg-red-700',
+};
 
 interface TodoItemProps {
   todo: Todo;
@@ -9,15 +37,51 @@ interface TodoItemProps {
   onDelete: () => Promise<void>;
   onToggle: () => Promise<void>;
   isLoading?: boolean;
+  /** タグの補完候補 */
+  tagSuggestions?: string[];
+  /** 移動先の候補となるリスト */
+  moveTargets?: TodoListMeta[];
+  onMove?: (listId: string) => Promise<void>;
+  /** サブタスク操作（指定時のみチェックリストを編集可能） */
+  subtaskActions?: SubtaskActions;
+  /** 検索文字列（一致した部分を強調表示する） */
+  searchQuery?: string;
+  /** 閲覧専用（完了の切り替え・編集・削除を行わない。共有されたリストの表示に使用） */
+  readOnly?: boolean;
+  /** 一括操作の対象として選択されているか */
+  isSelected?: boolean;
+  /** 選択の切り替え（指定時のみ選択用のチェックボックスを表示する。extendはShift+クリックによる範囲選択） */
+  onSelect?: (extend: boolean) => void;
 }
 
 /**
  * 個別のTODOアイテムを表示するコンポーネント
  * 要件2.3, 2.4, 3.1, 3.2, 3.3, 4.1, 4.2, 4.3, 4.4, 5.1, 5.3に対応
  */
-export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false }: TodoItemProps) {
+export function TodoItem({
+  todo,
+  onUpdate,
+  onDelete,
+  onToggle,
+  isLoading = false,
+  tagSuggestions = [],
+  moveTargets = [],
+  onMove,
+  subtaskActions,
+  searchQuery,
+  readOnly = false,
+  isSelected = false,
+  onSelect,
+}: TodoItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(todo.title);
+  const [editDueDate, setEditDueDate] = useState('');
+  const [editDueTime, setEditDueTime] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<RecurrenceRule | undefined>(undefined);
+  // 編集開始時のTODO（編集中に別のタブなどで変更された場合も、編集した項目だけを保存する）
+  const [editOrigin, setEditOrigin] = useState<Todo | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -36,7 +100,12 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
   const handleStartEdit = () => {
     if (isLoading) return;
     setIsEditing(true);
+    setEditOrigin(todo);
     setEditTitle(todo.title);
+    setEditDueDate(toDateInputValue(todo.dueDate));
+    setEditDueTime(todo.hasDueTime ? toTimeInputValue(todo.dueDate) : '');
+    setEditTags(todo.tags);
+    setEditRecurrence(todo.recurrence);
     setValidationError(null);
   };
 
@@ -66,8 +135,35 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
       return;
     }
 
+    // 編集開始時から変えた項目だけを更新する
+    const origin = editOrigin ?? todo;
+    const updates: TodoUpdate = {};
+    if (trimmedTitle !== origin.title) {
+      updates.title = trimmedTitle;
+    }
+
+    // 期限の変更を検出（時刻は日付が指定されている場合のみ有効）
+    const dueDate = parseDateTimeInput(editDueDate, editDueTime);
+    const hasDueTime = !!dueDate && !!editDueTime;
+    if (
+      dueDate?.getTime() !== origin.dueDate?.getTime() ||
+      hasDueTime !== !!origin.hasDueTime
+    ) {
+      updates.dueDate = dueDate;
+      updates.hasDueTime = dueDate ? hasDueTime : undefined;
+    }
+
+    if (editTags.join('\n') !== origin.tags.join('\n')) {
+      updates.tags = editTags;
+    }
+
+    // 繰り返しの変更・停止
+    if (JSON.stringify(editRecurrence) !== JSON.stringify(origin.recurrence)) {
+      updates.recurrence = editRecurrence;
+    }
+
     // 変更がない場合は編集モードを終了
-    if (trimmedTitle === todo.title) {
+    if (Object.keys(updates).length === 0) {
       handleCancelEdit();
       return;
     }
@@ -76,7 +172,7 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
       setIsSubmitting(true);
       setValidationError(null);
       
-      await onUpdate({ title: trimmedTitle });
+      await onUpdate(updates);
       setIsEditing(false);
     } catch (err) {
       console.error('TODO更新エラー:', err);
@@ -112,6 +208,32 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
     }
   };
 
+  /**
+   * 優先度の変更（インライン）
+   */
+  const handlePriorityChange = async (priority: TodoPriority) => {
+    if (isLoading || priority === todo.priority) return;
+
+    try {
+      await onUpdate({ priority });
+    } catch (err) {
+      console.error('優先度更新エラー:', err);
+    }
+  };
+
+  /**
+   * 別のリストへの移動
+   */
+  const handleMove = async (listId: string) => {
+    if (isLoading || !onMove || !listId) return;
+
+    try {
+      await onMove(listId);
+    } catch (err) {
+      console.error('TODO移動エラー:', err);
+    }
+  };
+
   /**
    * 削除処理（要件5.1, 5.3）
    */
@@ -148,25 +270,59 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
     }
   };
 
+  /**
+   * 期限のフォーマット
+   */
+  const formatDueDate = (date: Date, hasTime?: boolean) => {
+    return date.toLocaleString('ja-JP', {
+      month: 'short',
+      day: 'numeric',
+      weekday: 'short',
+      ...(hasTime ? { hour: '2-digit', minute: '2-digit' } : {}),
+    });
+  };
+
+  const dueStatus = TodoService.getDueStatus(todo);
+  const isOverdue = !todo.completed && dueStatus === 'overdue';
+  const isDueToday = !todo.completed && dueStatus === 'today';
+  const subtaskProgress = TodoService.getSubtaskProgress(todo);
   const isItemDisabled = isLoading || isSubmitting;
 
   return (
     <div
       className={`
-        group flex items-center gap-3 p-4 rounded-lg border transition-all duration-200
+        group flex ${isExpanded && !isEditing ? 'items-start' : 'items-center'} gap-3 p-4 rounded-lg border transition-all duration-200
         ${todo.completed 
           ? 'bg-gray-50 border-gray-200 dark:bg-gray-800 dark:border-gray-700' 
-          : 'bg-white border-gray-200 dark:bg-gray-900 dark:border-gray-600'
+          : isOverdue
+            ? 'bg-red-50 border-red-300 dark:bg-red-900/20 dark:border-red-700'
+            : isDueToday
+              ? 'bg-orange-50 border-orange-300 dark:bg-orange-900/20 dark:border-orange-700'
+              : 'bg-white border-gray-200 dark:bg-gray-900 dark:border-gray-600'
         }
         hover:shadow-md hover:border-gray-300 dark:hover:border-gray-500
         ${isItemDisabled ? 'opacity-50' : ''}
+        ${isSelected ? 'ring-2 ring-blue-500' : ''}
         animate-fade-in
       `}
     >
+      {/* 一括操作の選択（Shift+クリックで範囲を選択） */}
+      {onSelect && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          onClick={(e) => onSelect(e.shiftKey)}
+          disabled={isItemDisabled}
+          className="flex-shrink-0 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:cursor-not-allowed"
+          aria-label={`「${todo.title}」を選択`}
+        />
+      )}
+
       {/* 完了チェックボックス（要件3.1, 3.2, 3.3） */}
       <button
         onClick={handleToggleComplete}
-        disabled={isItemDisabled || isEditing}
+        disabled={isItemDisabled || isEditing || readOnly}
         className={`
           flex-shrink-0 w-5 h-5 rounded border-2 transition-all duration-200
           focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
@@ -219,7 +375,73 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
               maxLength={500}
               aria-invalid={!!validationError}
             />
+
+            {/* 期限の編集 */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <label htmlFor={`due-date-${todo.id}`} className="text-gray-600 dark:text-gray-400">
+                期限:
+              </label>
+              <input
+                id={`due-date-${todo.id}`}
+                type="date"
+                value={editDueDate}
+                onChange={(e) => setEditDueDate(e.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={isSubmitting}
+                className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="time"
+                value={editDueTime}
+                onChange={(e) => setEditDueTime(e.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={isSubmitting || !editDueDate}
+                className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                aria-label="期限の時刻"
+              />
+              {editDueDate && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditDueDate('');
+                    setEditDueTime('');
+                  }}
+                  disabled={isSubmitting}
+                  className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  期限を削除
+                </button>
+              )}
+            </div>
+            
+            {/* 繰り返しの編集（「繰り返さない」で停止） */}
+            {!todo.completed && (
+              <RecurrenceEditor
+                id={`recurrence-${todo.id}`}
+                value={editRecurrence}
+                onChange={setEditRecurrence}
+                baseDate={parseDateTimeInput(editDueDate, editDueTime)}
+                disabled={isSubmitting}
+              />
+            )}
+
+            {/* タグの編集 */}
+            <div className="text-sm">
+              <TagInput
+                tags={editTags}
+                onChange={setEditTags}
+                suggestions={tagSuggestions}
+                disabled={isSubmitting}
+              />
+            </div>
             
+            {/* 編集中に別のタブなどで変更された場合の注意 */}
+            {editOrigin && editOrigin.updatedAt.getTime() !== todo.updatedAt.getTime() && (
+              <div role="status" className="text-yellow-700 dark:text-yellow-300 text-sm">
+                編集中にこのTODOが別の場所で変更されました。保存すると、編集した項目だけが上書きされます。
+              </div>
+            )}
+
             {validationError && (
               <div className="text-red-600 dark:text-red-400 text-sm flex items-center gap-1">
                 <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
@@ -249,34 +471,169 @@ export function TodoItem({ todo, onUpdate, onDelete, onToggle, isLoading = false
         ) : (
           /* 表示モード */
           <div className="space-y-1">
-            {/* タイトル（要件4.1でクリック可能） */}
-            <button
-              onClick={handleStartEdit}
-              disabled={isItemDisabled}
-              className={`
-                text-left w-full transition-all duration-200
-                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded
-                disabled:cursor-not-allowed
-                ${todo.completed 
-                  ? 'text-gray-500 line-through dark:text-gray-400' 
-                  : 'text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400'
-                }
-              `}
-              title="クリックして編集"
-            >
-              <span className="break-words">{todo.title}</span>
-            </button>
+            {/* タイトル（要件4.1でクリック可能。閲覧専用の場合は表示のみ） */}
+            {readOnly ? (
+              <p
+                className={`break-words ${
+                  todo.completed ? 'text-gray-500 line-through dark:text-gray-400' : 'text-gray-900 dark:text-gray-100'
+                }`}
+              >
+                {todo.title}
+              </p>
+            ) : (
+              <button
+                onClick={handleStartEdit}
+                disabled={isItemDisabled}
+                className={`
+                  text-left w-full transition-all duration-200
+                  focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded
+                  disabled:cursor-not-allowed
+                  ${todo.completed 
+                    ? 'text-gray-500 line-through dark:text-gray-400' 
+                    : 'text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400'
+                  }
+                `}
+                title="クリックして編集"
+              >
+                <span className="break-words">
+                  <HighlightText text={todo.title} query={searchQuery} />
+                </span>
+              </button>
+            )}
             
-            {/* 作成日時（要件2.3） */}
-            <div className="text-xs text-gray-500 dark:text-gray-400">
-              {formatCreatedAt(todo.createdAt)}
+            {/* 作成日時（要件2.3）・優先度・期限・タグ */}
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{formatCreatedAt(todo.createdAt)}</span>
+              {/* 優先度（インラインで変更可能） */}
+              {readOnly ? (
+                <span className={`px-2 py-0.5 rounded-full font-medium ${PRIORITY_STYLES[todo.priority]}`}>
+                  優先度: {PRIORITY_LABELS[todo.priority]}
+                </span>
+              ) : (
+                <select
+                  value={todo.priority}
+                  onChange={(e) => handlePriorityChange(e.target.value as TodoPriority)}
+                  disabled={isItemDisabled}
+                  className={`
+                    px-2 py-0.5 rounded-full font-medium border-0 cursor-pointer
+                    focus:outline-none focus:ring-2 focus:ring-blue-500
+                    disabled:cursor-not-allowed
+                    ${PRIORITY_STYLES[todo.priority]}
+                  `}
+                  aria-label="優先度"
+                  title="優先度を変更"
+                >
+                  {TODO_PRIORITIES.map((value) => (
+                    <option key={value} value={value}>
+                      優先度: {PRIORITY_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {todo.dueDate && (
+                <span
+                  className={`
+                    px-2 py-0.5 rounded-full font-medium
+                    ${isOverdue
+                      ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200'
+                      : isDueToday
+                        ? 'bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200'
+                        : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                    }
+                  `}
+                >
+                  {isOverdue ? '⚠️ 期限切れ: ' : isDueToday ? '⏰ 今日まで: ' : '📅 期限: '}
+                  {formatDueDate(todo.dueDate, todo.hasDueTime)}
+                </span>
+              )}
+              {/* 繰り返し */}
+              {todo.recurrence && (
+                <span
+                  className="px-2 py-0.5 rounded-full font-medium bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200"
+                  title="完了すると次回分が作成されます"
+                >
+                  🔁 {RecurrenceService.describe(todo.recurrence)}
+                </span>
+              )}
+              {/* タグ */}
+              {todo.tags.map(tag => (
+                <TagChip key={tag} tag={tag} highlightQuery={searchQuery} />
+              ))}
+              {/* 別のリストへ移動 */}
+              {onMove && moveTargets.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleMove(e.target.value)}
+                  disabled={isItemDisabled}
+                  className="px-1 py-0.5 rounded bg-transparent text-gray-500 dark:text-gray-400 cursor-pointer opacity-0 group-hover:opacity-100 focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-opacity"
+                  aria-label="別のリストへ移動"
+                >
+                  <option value="">移動...</option>
+                  {moveTargets.map(list => (
+                    <option key={list.id} value={list.id}>
+                      → {list.name}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
+
+            {/* サブタスクの進捗と展開ボタン */}
+            {subtaskActions && (
+              <button
+                type="button"
+                onClick={() => setIsExpanded(!isExpanded)}
+                aria-expanded={isExpanded}
+                aria-controls={`subtasks-${todo.id}`}
+                className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+              >
+                <span aria-hidden="true">{isExpanded ? '▾' : '▸'}</span>
+                {subtaskProgress.total > 0 ? (
+                  <>
+                    <span>☑ {subtaskProgress.done}/{subtaskProgress.total} 完了</span>
+                    <span className="w-12 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <span
+                        className="block h-full bg-green-500 transition-all duration-300"
+                        style={{ width: `${(subtaskProgress.done / subtaskProgress.total) * 100}%` }}
+                      />
+                    </span>
+                  </>
+                ) : (
+                  <span>サブタスク</span>
+                )}
+              </button>
+            )}
+
+            {/* サブタスク（閲覧専用） */}
+            {readOnly && todo.subtasks.length > 0 && (
+              <ul className="space-y-0.5 text-sm text-gray-600 dark:text-gray-300" aria-label="サブタスク">
+                {todo.subtasks.map(subtask => (
+                  <li key={subtask.id} className={subtask.completed ? 'line-through text-gray-400 dark:text-gray-500' : ''}>
+                    <span aria-hidden="true">{subtask.completed ? '☑' : '☐'}</span> {subtask.title}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* サブタスク（展開時） */}
+            {subtaskActions && isExpanded && (
+              <div id={`subtasks-${todo.id}`}>
+                <SubtaskList
+                  todoId={todo.id}
+                  subtasks={todo.subtasks}
+                  autoComplete={!!todo.autoCompleteWithSubtasks}
+                  actions={subtaskActions}
+                  disabled={isItemDisabled}
+                  searchQuery={searchQuery}
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
 
       {/* 削除ボタン（要件5.1） */}
-      {!isEditing && (
+      {!isEditing && !readOnly && (
         <button
           onClick={handleDelete}
           disabled={isItemDisabled}
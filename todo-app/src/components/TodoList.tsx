@@ -1,7 +1,31 @@
 'use client';
 
-import { Todo, TodoUpdate } from '@/types';
+import { useState, useRef, Fragment, KeyboardEvent, PointerEvent } from 'react';
+import { Todo, TodoListMeta, TodoUpdate, BulkEdit, SortMode } from '@/types';
+import { TodoService } from '@/services';
 import { TodoItem } from './TodoItem';
+import { BulkActionBar } from './BulkActionBar';
+
+/**
+ * サブタスク操作のハンドラー（TODOのIDを第1引数に取る）
+ */
+export interface SubtaskActionHandlers {
+  addSubtask: (id: string, title: string) => Promise<void>;
+  renameSubtask: (id: string, subtaskId: string, title: string) => Promise<void>;
+  toggleSubtask: (id: string, subtaskId: string) => Promise<void>;
+  deleteSubtask: (id: string, subtaskId: string) => Promise<void>;
+  moveSubtask: (id: string, subtaskId: string, toIndex: number) => Promise<void>;
+  setSubtaskAutoComplete: (id: string, enabled: boolean) => Promise<void>;
+}
+
+/**
+ * 選択したTODOへの一括操作のハンドラー（対象のTODOのIDを第1引数に取る）
+ */
+export interface BulkActionHandlers {
+  setCompleted: (ids: string[], completed: boolean) => Promise<void>;
+  deleteTodos: (ids: string[]) => Promise<void>;
+  editTodos: (ids: string[], edit: BulkEdit) => Promise<void>;
+}
 
 interface TodoListProps {
   todos: Todo[];
@@ -10,6 +34,23 @@ interface TodoListProps {
   onToggle: (id: string) => Promise<void>;
   isLoading?: boolean;
   error?: string | null;
+  /** タグの補完候補 */
+  allTags?: string[];
+  /** 絞り込み中かどうか（空の表示を切り替える） */
+  isFiltered?: boolean;
+  /** 移動先の候補となるリスト */
+  moveTargets?: TodoListMeta[];
+  onMove?: (id: string, listId: string) => Promise<void>;
+  subtaskActions?: SubtaskActionHandlers;
+  /** 検索文字列（一致した部分を強調表示する） */
+  searchQuery?: string;
+  /** 並び順（manualの場合はドラッグ＆ドロップで並べ替えられる） */
+  sortMode?: SortMode;
+  onReorder?: (id: string, prevId: string | null, nextId: string | null) => Promise<void>;
+  /** 閲覧専用（完了の切り替え・編集・削除・並べ替えを行わない。共有されたリストの表示に使用） */
+  readOnly?: boolean;
+  /** 一括操作（指定時のみ複数選択できる） */
+  bulkActions?: BulkActionHandlers;
 }
 
 /**
@@ -22,8 +63,27 @@ export function TodoList({
   onDelete,
   onToggle,
   isLoading = false,
-  error
+  error,
+  allTags = [],
+  isFiltered = false,
+  moveTargets = [],
+  onMove,
+  subtaskActions,
+  searchQuery,
+  sortMode = 'auto',
+  onReorder,
+  readOnly = false,
+  bulkActions,
 }: TodoListProps) {
+  // ドラッグ中のTODOと、ドロップ先の位置（ドラッグ中のTODOを除いた並びでの位置）
+  const [drag, setDrag] = useState<{ id: string; overIndex: number } | null>(null);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  // 複数選択（選択したTODOのIDと、Shift+クリックによる範囲選択の起点）
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
   // 統計情報の計算
   const stats = {
     total: todos.length,
@@ -31,15 +91,135 @@ export function TodoList({
     active: todos.filter(todo => !todo.completed).length,
   };
 
-  // TODOリストを完了状態でソート（未完了を上に、完了済みを下に）
-  const sortedTodos = [...todos].sort((a, b) => {
-    // 完了状態で分ける
-    if (a.completed !== b.completed) {
-      return a.completed ? 1 : -1;
+  // TODOリストをソート（自動: 未完了を上に、完了済みを下に。未完了は期限の近い順／手動: 並べ替えた順）
+  // 閲覧専用の場合は手動の並び順で表示するだけで、並べ替えはできない
+  const isManualOrder = sortMode === 'manual' && (!!onReorder || readOnly);
+  const canReorder = isManualOrder && !readOnly;
+  const sortedTodos = [...todos].sort(
+    isManualOrder ? TodoService.compareByPosition : TodoService.compareTodos
+  );
+
+  // 表示されなくなったTODOは選択から外す
+  const canSelect = !!bulkActions && !readOnly;
+  const activeSelectedIds = selectedIds.filter(id => sortedTodos.some(todo => todo.id === id));
+
+  /**
+   * TODOの選択を切り替える
+   * @param id 対象のTODOのID
+   * @param extend trueの場合は起点から対象までの範囲を、起点と同じ選択状態にする
+   */
+  const handleSelect = (id: string, extend: boolean) => {
+    const anchorIndex = sortedTodos.findIndex(todo => todo.id === anchorId);
+    if (extend && anchorId && anchorIndex !== -1) {
+      const index = sortedTodos.findIndex(todo => todo.id === id);
+      const range = sortedTodos
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map(todo => todo.id);
+      const others = activeSelectedIds.filter(selectedId => !range.includes(selectedId));
+      setSelectedIds(activeSelectedIds.includes(anchorId) ? [...others, ...range] : others);
+      return;
+    }
+
+    setSelectedIds(
+      activeSelectedIds.includes(id)
+        ? activeSelectedIds.filter(selectedId => selectedId !== id)
+        : [...activeSelectedIds, id]
+    );
+    setAnchorId(id);
+  };
+
+  /**
+   * 選択モードを終了する
+   */
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  /**
+   * TODOを表示中の並びの指定した位置へ移動する
+   * @param id 移動するTODOのID
+   * @param toIndex 移動先（移動するTODOを除いた並びでの位置）
+   * @returns 移動した場合はtrue
+   */
+  const moveToIndex = async (id: string, toIndex: number): Promise<boolean> => {
+    if (!onReorder) return false;
+
+    const others = sortedTodos.filter(todo => todo.id !== id);
+    const index = Math.max(0, Math.min(toIndex, others.length));
+    if (index === sortedTodos.findIndex(todo => todo.id === id)) return false;
+
+    await onReorder(id, others[index - 1]?.id ?? null, others[index]?.id ?? null);
+    return true;
+  };
+
+  /**
+   * ポインターの位置からドロップ先を求める
+   */
+  const getDropIndex = (id: string, clientY: number) =>
+    sortedTodos.filter(todo => {
+      if (todo.id === id) return false;
+      const rect = itemRefs.current.get(todo.id)?.getBoundingClientRect();
+      return !!rect && clientY > rect.top + rect.height / 2;
+    }).length;
+
+  /**
+   * ドラッグの開始（マウス・タッチ共通）
+   */
+  const handlePointerDown = (e: PointerEvent<HTMLButtonElement>, id: string) => {
+    if (e.button !== 0 || isLoading) return;
+
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id, overIndex: sortedTodos.findIndex(todo => todo.id === id) });
+  };
+
+  /**
+   * ドラッグ中の移動
+   */
+  const handlePointerMove = (e: PointerEvent<HTMLButtonElement>) => {
+    if (!drag) return;
+
+    const overIndex = getDropIndex(drag.id, e.clientY);
+    if (overIndex !== drag.overIndex) {
+      setDrag({ ...drag, overIndex });
+    }
+  };
+
+  /**
+   * ドロップ
+   */
+  const handlePointerUp = () => {
+    if (!drag) return;
+
+    moveToIndex(drag.id, drag.overIndex);
+    setDrag(null);
+  };
+
+  /**
+   * キーボードによる並べ替え（つまみでは↑/↓、項目内ではAlt+↑/↓）
+   */
+  const handleReorderKeyDown = async (e: KeyboardEvent<HTMLElement>, id: string, requireAlt: boolean) => {
+    if (e.defaultPrevented || (requireAlt && !e.altKey)) return;
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+
+    e.preventDefault();
+    const index = sortedTodos.findIndex(todo => todo.id === id);
+    const moved = await moveToIndex(id, e.key === 'ArrowUp' ? index - 1 : index + 1);
+
+    // 並べ替え後もつまみにフォーカスを残す
+    if (moved) {
+      requestAnimationFrame(() => handleRefs.current.get(id)?.focus());
     }
-    // 同じ完了状態内では作成日時の新しい順
-    return b.createdAt.getTime() - a.createdAt.getTime();
-  });
+  };
+
+  /**
+   * ドロップ先を示す線
+   */
+  const renderDropIndicator = () => (
+    <div className="h-0.5 mx-2 bg-blue-500 rounded-full" aria-hidden="true" />
+  );
 
   /**
    * 空のリスト状態の表示（要件2.2, 5.4）
@@ -59,6 +239,18 @@ export function TodoList({
     </div>
   );
 
+  /**
+   * 絞り込み結果が空の場合の表示
+   */
+  const renderNoMatchState = () => (
+    <div className="text-center py-12">
+      <div className="text-4xl mb-4">🔍</div>
+      <p className="text-gray-500 dark:text-gray-400">
+        条件に一致するTODOはありません
+      </p>
+    </div>
+  );
+
   /**
    * エラー状態の表示
    */
@@ -128,6 +320,38 @@ export function TodoList({
         </div>
       )}
 
+      {/* 複数選択と一括操作 */}
+      {canSelect && todos.length > 0 && (
+        isSelecting ? (
+          <BulkActionBar
+            selectedCount={activeSelectedIds.length}
+            visibleCount={sortedTodos.length}
+            allTags={allTags}
+            isLoading={isLoading}
+            onSelectAll={() => setSelectedIds(sortedTodos.map(todo => todo.id))}
+            onClearSelection={() => setSelectedIds([])}
+            onComplete={() => bulkActions.setCompleted(activeSelectedIds, true)}
+            onReopen={() => bulkActions.setCompleted(activeSelectedIds, false)}
+            onDelete={async () => {
+              await bulkActions.deleteTodos(activeSelectedIds);
+              setSelectedIds([]);
+            }}
+            onEdit={(edit) => bulkActions.editTodos(activeSelectedIds, edit)}
+            onClose={exitSelection}
+          />
+        ) : (
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => setIsSelecting(true)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:underline focus:outline-none focus:ring-2 focus:ring-gray-400 rounded dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              ☑️ 複数選択
+            </button>
+          </div>
+        )
+      )}
+
       {/* メインコンテンツ */}
       <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
         {/* エラー状態 */}
@@ -137,22 +361,81 @@ export function TodoList({
         {isLoading && todos.length === 0 && renderLoadingState()}
         
         {/* 空のリスト状態（要件2.2, 5.4） */}
-        {!isLoading && !error && todos.length === 0 && renderEmptyState()}
+        {!isLoading && !error && todos.length === 0 && (isFiltered ? renderNoMatchState() : renderEmptyState())}
         
         {/* TODOリスト表示（要件2.1, 2.3, 2.4） */}
         {todos.length > 0 && (
           <div className="divide-y divide-gray-200 dark:divide-gray-700">
-            {sortedTodos.map((todo) => (
-              <div key={todo.id} className="p-1">
-                <TodoItem
-                  todo={todo}
-                  onUpdate={(updates) => onUpdate(todo.id, updates)}
-                  onDelete={() => onDelete(todo.id)}
-                  onToggle={() => onToggle(todo.id)}
-                  isLoading={isLoading}
-                />
-              </div>
-            ))}
+            {sortedTodos.map((todo) => {
+              // ドロップ先がこのTODOの直前であれば線を表示する
+              const showDropIndicator =
+                drag !== null &&
+                drag.id !== todo.id &&
+                sortedTodos.filter(item => item.id !== drag.id).indexOf(todo) === drag.overIndex;
+
+              return (
+                <Fragment key={todo.id}>
+                  {showDropIndicator && renderDropIndicator()}
+                  <div
+                    ref={(element) => {
+                      if (element) itemRefs.current.set(todo.id, element);
+                      else itemRefs.current.delete(todo.id);
+                    }}
+                    onKeyDown={canReorder ? (e) => handleReorderKeyDown(e, todo.id, true) : undefined}
+                    className={`p-1 flex items-stretch gap-1 ${drag?.id === todo.id ? 'opacity-50' : ''}`}
+                  >
+                    {/* 並べ替えのつまみ（手動の並び順のみ） */}
+                    {canReorder && (
+                      <button
+                        type="button"
+                        ref={(element) => {
+                          if (element) handleRefs.current.set(todo.id, element);
+                          else handleRefs.current.delete(todo.id);
+                        }}
+                        onPointerDown={(e) => handlePointerDown(e, todo.id)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => setDrag(null)}
+                        onKeyDown={(e) => handleReorderKeyDown(e, todo.id, false)}
+                        disabled={isLoading}
+                        className="px-1 touch-none cursor-grab active:cursor-grabbing text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed"
+                        aria-label={`「${todo.title}」を並べ替え（ドラッグ、または↑/↓キーで移動）`}
+                        title="ドラッグで並べ替え（↑/↓キー、項目内ではAlt+↑/↓でも移動）"
+                      >
+                        ⋮⋮
+                      </button>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <TodoItem
+                        todo={todo}
+                        onUpdate={(updates) => onUpdate(todo.id, updates)}
+                        onDelete={() => onDelete(todo.id)}
+                        onToggle={() => onToggle(todo.id)}
+                        isLoading={isLoading}
+                        tagSuggestions={allTags}
+                        moveTargets={moveTargets}
+                        onMove={onMove && ((listId) => onMove(todo.id, listId))}
+                        searchQuery={searchQuery}
+                        readOnly={readOnly}
+                        isSelected={isSelecting && activeSelectedIds.includes(todo.id)}
+                        onSelect={canSelect && isSelecting ? (extend) => handleSelect(todo.id, extend) : undefined}
+                        subtaskActions={subtaskActions && {
+                          onAdd: (title) => subtaskActions.addSubtask(todo.id, title),
+                          onRename: (subtaskId, title) => subtaskActions.renameSubtask(todo.id, subtaskId, title),
+                          onToggle: (subtaskId) => subtaskActions.toggleSubtask(todo.id, subtaskId),
+                          onDelete: (subtaskId) => subtaskActions.deleteSubtask(todo.id, subtaskId),
+                          onMove: (subtaskId, toIndex) => subtaskActions.moveSubtask(todo.id, subtaskId, toIndex),
+                          onAutoCompleteChange: (enabled) => subtaskActions.setSubtaskAutoComplete(todo.id, enabled),
+                        }}
+                      />
+                    </div>
+                  </div>
+                </Fragment>
+              );
+            })}
+
+            {/* 末尾へのドロップ */}
+            {drag !== null && drag.overIndex === sortedTodos.length - 1 && renderDropIndicator()}
           </div>
         )}
       </div>
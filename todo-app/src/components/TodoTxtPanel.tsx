@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, ChangeEvent } from 'react';
+import { Todo } from '@/types';
+import { TodoTxtService, FileService, TodoTxtImportResult } from '@/services';
+
+interface TodoTxtPanelProps {
+  listName: string;
+  /** 表示中のリストのTODO（表示順） */
+  todos: Todo[];
+  onImport: (todos: Todo[]) => Promise<void>;
+  isLoading?: boolean;
+}
+
+/**
+ * 表示中のリストのtodo.txt形式での書き出し・読み込みを行うコンポーネント
+ */
+export function TodoTxtPanel({ listName, todos, onImport, isLoading = false }: TodoTxtPanelProps) {
+  const [replace, setReplace] = useState(false);
+  const [report, setReport] = useState<Omit<TodoTxtImportResult, 'todos'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 表示中のリストを書き出す
+   */
+  const handleExport = () => {
+    try {
+      FileService.download(
+        TodoTxtService.toTodoTxt(todos),
+        TodoTxtService.getFileName(listName),
+        'text/plain;charset=utf-8'
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'todo.txtの書き出しに失敗しました');
+      console.error('todo.txt書き出しエラー:', err);
+    }
+  };
+
+  /**
+   * todo.txtファイルの選択（選択したファイルをそのまま読み込む）
+   */
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 同じファイルを続けて選択できるようにする
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { todos: importedTodos, ...result } = TodoTxtService.importTodoTxt(
+        await FileService.readAsText(file),
+        // 置き換える場合は空のリストに読み込む（操作は元に戻せる）
+        replace ? [] : todos
+      );
+      if (result.added > 0) {
+        await onImport(importedTodos);
+      }
+      setReport(result);
+      setError(null);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'todo.txtの読み込みに失敗しました');
+      console.error('todo.txt読み込みエラー:', err);
+    }
+  };
+
+  return (
+    <section
+      aria-labelledby="todotxt-heading"
+      className="p-4 space-y-4 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <h3 id="todotxt-heading" className="text-base font-semibold text-gray-800 dark:text-gray-100">
+        🗒️ todo.txt
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isLoading || todos.length === 0}
+          className="px-4 py-2 font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400 dark:hover:bg-blue-900/30"
+        >
+          このリストを書き出す
+        </button>
+        <label className="px-4 py-2 font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:bg-gray-100 focus-within:ring-2 focus-within:ring-blue-500 cursor-pointer dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700">
+          todo.txtから読み込む
+          <input
+            type="file"
+            accept=".txt,text/plain"
+            onChange={handleFileChange}
+            disabled={isLoading}
+            className="sr-only"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={replace}
+            onChange={(e) => setReplace(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          現在のTODOを置き換える
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        「+プロジェクト」「@コンテキスト」はタグに、「(A)」〜「(D)」は緊急〜低の優先度になります。サブタスクと繰り返しは書き出されません。
+      </p>
+
+      {error && (
+        <div role="alert" className="text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* 読み込み結果の報告 */}
+      {report && (
+        <div role="status" className="space-y-2 text-sm">
+          <p className={report.added > 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}>
+            {report.added > 0 ? `${report.added}件を読み込みました` : 'TODOが見つかりませんでした'}
+          </p>
+          {report.errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-200">
+              <p className="font-medium">{report.errors.length}行は読み込めませんでした</p>
+              <ul className="mt-1 text-xs space-y-0.5 max-h-32 overflow-auto">
+                {report.errors.map(lineError => (
+                  <li key={lineError.line}>
+                    {lineError.line}行目: {lineError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { TrashedTodo } from '@/types';
+import { TrashService } from '@/services';
+
+interface TrashPanelProps {
+  trash: TrashedTodo[];
+  onRestore: (ids: string[]) => Promise<void>;
+  /** 完全に削除する（IDを省略した場合はゴミ箱を空にする） */
+  onPurge: (ids?: string[]) => Promise<void>;
+  /** 保存期間（日数、0は無期限） */
+  retentionDays: number;
+  onRetentionDaysChange: (days: number) => void;
+  isLoading?: boolean;
+}
+
+/**
+ * 削除日時を表示用にフォーマットする
+ */
+const formatDeletedAt = (date: Date) =>
+  date.toLocaleString('ja-JP', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * ゴミ箱の中身を表示し、復元・完全削除を行うコンポーネント
+ */
+export function TrashPanel({
+  trash,
+  onRestore,
+  onPurge,
+  retentionDays,
+  onRetentionDaysChange,
+  isLoading = false,
+}: TrashPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // ゴミ箱に存在しなくなった項目は選択から外す
+  const activeSelectedIds = selectedIds.filter(id => trash.some(item => item.todo.id === id));
+  const isAllSelected = trash.length > 0 && activeSelectedIds.length === trash.length;
+
+  /**
+   * 項目の選択を切り替える
+   */
+  const toggleSelected = (id: string) => {
+    setSelectedIds(
+      activeSelectedIds.includes(id)
+        ? activeSelectedIds.filter(selected => selected !== id)
+        : [...activeSelectedIds, id]
+    );
+  };
+
+  /**
+   * 選択した項目を復元する
+   */
+  const handleRestoreSelected = async () => {
+    await onRestore(activeSelectedIds);
+    setSelectedIds([]);
+  };
+
+  /**
+   * 選択した項目を完全に削除する
+   */
+  const handlePurgeSelected = async () => {
+    await onPurge(activeSelectedIds);
+    setSelectedIds([]);
+  };
+
+  const buttonClassName =
+    'px-3 py-1.5 text-sm rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section
+      aria-labelledby="trash-heading"
+      className="p-4 space-y-3 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 id="trash-heading" className="flex-1 text-base font-semibold text-gray-800 dark:text-gray-100">
+          🗑️ ゴミ箱（{trash.length}件）
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          保存期間:
+          <select
+            value={retentionDays}
+            onChange={(e) => onRetentionDaysChange(Number(e.target.value))}
+            className="px-2 py-1 rounded border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {TrashService.RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>
+                {days === 0 ? '無期限' : `${days}日`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {retentionDays > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          削除から{retentionDays}日を過ぎた項目は、アプリの起動時に自動で完全に削除されます
+        </p>
+      )}
+
+      {trash.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">ゴミ箱は空です</p>
+      ) : (
+        <>
+          {/* 一括操作 */}
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 mr-auto text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isAllSelected}
+                onChange={() => setSelectedIds(isAllSelected ? [] : trash.map(item => item.todo.id))}
+                className="w-4 h-4 accent-blue-600"
+              />
+              すべて選択
+            </label>
+            {activeSelectedIds.length > 0 ? (
+              <>
+                <button
+                  type="button"
+                  onClick={handleRestoreSelected}
+                  disabled={isLoading}
+                  className={`${buttonClassName} text-blue-600 border-blue-200 bg-blue-50 hover:bg-blue-100 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400`}
+                >
+                  選択した{activeSelectedIds.length}件を復元
+                </button>
+                <button
+                  type="button"
+                  onClick={handlePurgeSelected}
+                  disabled={isLoading}
+                  className={`${buttonClassName} text-red-600 border-red-200 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400`}
+                >
+                  選択した{activeSelectedIds.length}件を完全に削除
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onRestore(trash.map(item => item.todo.id))}
+                  disabled={isLoading}
+                  className={`${buttonClassName} text-blue-600 border-blue-200 bg-blue-50 hover:bg-blue-100 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-400`}
+                >
+                  すべて復元
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onPurge()}
+                  disabled={isLoading}
+                  className={`${buttonClassName} text-red-600 border-red-200 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400`}
+                >
+                  ゴミ箱を空にする
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* ゴミ箱の項目 */}
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {trash.map(item => {
+              const daysLeft = TrashService.getDaysUntilPurge(item, retentionDays);
+              return (
+                <li key={item.todo.id} className="flex items-center gap-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={activeSelectedIds.includes(item.todo.id)}
+                    onChange={() => toggleSelected(item.todo.id)}
+                    className="w-4 h-4 accent-blue-600"
+                    aria-label={`${item.todo.title}を選択`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={`text-sm break-words ${item.todo.completed ? 'text-gray-400 line-through dark:text-gray-500' : 'text-gray-800 dark:text-gray-200'}`}
+                    >
+                      {item.todo.title}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDeletedAt(item.deletedAt)}に削除
+                      {daysLeft !== null && `・あと${daysLeft}日で自動削除`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onRestore([item.todo.id])}
+                    disabled={isLoading}
+                    className="px-2 py-1 text-sm rounded text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-900/20 disabled:opacity-50"
+                  >
+                    復元
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onPurge([item.todo.id])}
+                    disabled={isLoading}
+                    className="px-2 py-1 text-sm rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 disabled:opacity-50"
+                    aria-label={`${item.todo.title}を完全に削除`}
+                  >
+                    完全に削除
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect } from 'react';
+
+interface UndoToastProps {
+  /** 通知ごとに異なる値（変わると表示時間をリセットする） */
+  noticeId: number;
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** 自動で閉じるまでの時間（ミリ秒） */
+  duration?: number;
+}
+
+/**
+ * 操作の取り消しボタン付きのトースト通知
+ */
+export function UndoToast({ noticeId, message, onUndo, onDismiss, duration = 6000 }: UndoToastProps) {
+  // 一定時間後に自動で閉じる
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timer);
+  }, [noticeId, onDismiss, duration]);
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4 pointer-events-none">
+      <div
+        role="status"
+        className="pointer-events-auto flex items-center gap-4 max-w-md w-full px-4 py-3 rounded-lg shadow-lg bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+      >
+        <span className="flex-1 text-sm break-words">{message}</span>
+        <button
+          type="button"
+          onClick={onUndo}
+          className="text-sm font-semibold text-blue-300 hover:text-blue-200 dark:text-blue-700 dark:hover:text-blue-800 focus:outline-none focus:underline"
+          title="元に戻す（Ctrl+Z）"
+        >
+          元に戻す
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-gray-200 dark:text-gray-500 dark:hover:text-gray-700"
+          aria-label="通知を閉じる"
+        >
+          ×
+        </button>
+      </div>
+    </div>
+  );
+}
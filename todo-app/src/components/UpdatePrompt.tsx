@@ -0,0 +1,37 @@
+'use client';
+
+import { useServiceWorker } from '@/hooks';
+
+/**
+ * 新しいバージョンが利用できるときに、再読み込みを案内するコンポーネント
+ */
+export function UpdatePrompt() {
+  const { isUpdateAvailable, applyUpdate, dismissUpdate } = useServiceWorker();
+
+  if (!isUpdateAvailable) return null;
+
+  return (
+    <div className="fixed inset-x-0 top-4 z-50 flex justify-center px-4 pointer-events-none">
+      <div
+        role="status"
+        className="pointer-events-auto flex items-center gap-4 max-w-md w-full px-4 py-3 rounded-lg shadow-lg bg-blue-600 text-white"
+      >
+        <span className="flex-1 text-sm">新しいバージョンが利用できます</span>
+        <button
+          type="button"
+          onClick={applyUpdate}
+          className="text-sm font-semibold px-3 py-1 rounded bg-white text-blue-700 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-white"
+        >
+          再読み込み
+        </button>
+        <button
+          type="button"
+          onClick={dismissUpdate}
+          className="text-sm text-blue-100 hover:text-white focus:outline-none focus:underline"
+        >
+          後で
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,4 +2,29 @@
 export { AddTodoForm } from './AddTodoForm';
 export { TodoItem } from './TodoItem';
 export { TodoList } from './TodoList';
+export { BulkActionBar } from './BulkActionBar';
+export { EmailModal } from './EmailModal';
+export { ListSwitcher } from './ListSwitcher';
+export { TagChip } from './TagChip';
+export { TagInput } from './TagInput';
+export { TagFilterBar } from './TagFilterBar';
+export { SubtaskList } from './SubtaskList';
+export { RecurrenceEditor } from './RecurrenceEditor';
+export { HighlightText } from './HighlightText';
+export { SearchBox } from './SearchBox';
+export { StatusFilterTabs } from './StatusFilterTabs';
+export { UndoToast } from './UndoToast';
+export { TrashPanel } from './TrashPanel';
+export { BackupPanel } from './BackupPanel';
+export { CsvPanel } from './CsvPanel';
+export { MarkdownPanel } from './MarkdownPanel';
+export { IcalPanel } from './IcalPanel';
+export { TodoTxtPanel } from './TodoTxtPanel';
+export { DeviceMergePanel } from './DeviceMergePanel';
+export { SyncPanel } from './SyncPanel';
+export { SharePanel } from './SharePanel';
+export { SharedListView } from './SharedListView';
+export { QuarantineNotice } from './QuarantineNotice';
+export { StorageGate } from './StorageGate';
+export { UpdatePrompt } from './UpdatePrompt';
 export { TodoApp } from './TodoApp';
\ No newline at end of file
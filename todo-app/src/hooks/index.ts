@@ -1,3 +1,12 @@
 // カスタムフックをエクスポート
-export { useLocalStorage } from './useLocalStorage';
-export { useTodos } from './useTodos';
\ No newline at end of file
+export { usePersistentState } from './usePersistentState';
+export { useStorageBackend } from './useStorageBackend';
+export { useTodos } from './useTodos';
+export type { UndoNotice } from './useTodos';
+export { useTodoLists } from './useTodoLists';
+export { useViewState } from './useViewState';
+export { useQuarantine } from './useQuarantine';
+export { useServiceWorker } from './useServiceWorker';
+export { useSync } from './useSync';
+export type { SyncStatus } from './useSync';
+export { useSharedSnapshot } from './useSharedSnapshot';
\ No newline at end of file
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { StorageService, StorageChange } from '@/services';
+
+/**
+ * ストレージと同期するカスタムフック（設定などの小さな値に使用する）
+ * 保存先はStorageServiceが選択したストレージ（IndexedDB・ローカルストレージ・メモリ）となる
+ * @param key ストレージのキー
+ * @param initialValue 初期値
+ * @returns [値, 値を設定する関数, エラー状態]
+ */
+export function usePersistentState<T>(
+  key: string,
+  initialValue: T
+): [T, (value: T | ((val: T) => T)) => void, string | null] {
+  const [error, setError] = useState<string | null>(null);
+
+  // ストレージから値を読み込む関数
+  const readValue = useCallback(
+    (storageKey: string): T => {
+      try {
+        const item = StorageService.getItem(storageKey);
+        return item === null ? initialValue : (JSON.parse(item) as T);
+      } catch (err) {
+        console.error(`ストレージからの読み込みエラー (key: ${storageKey}):`, err);
+        return initialValue;
+      }
+    },
+    [initialValue]
+  );
+
+  // 初期値を計算する関数（useStateの初期化関数として使用）
+  const [storedValue, setStoredValue] = useState<T>(() => readValue(key));
+
+  // キーが変わった場合は新しいキーの値を読み込み直す
+  const [currentKey, setCurrentKey] = useState(key);
+  if (currentKey !== key) {
+    setCurrentKey(key);
+    setStoredValue(readValue(key));
+  }
+
+  // 別のタブで変更された場合は読み込み直す
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<StorageChange>).detail.key === key) {
+        setStoredValue(readValue(key));
+      }
+    };
+
+    window.addEventListener(StorageService.CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(StorageService.CHANGE_EVENT, handleChange);
+  }, [key, readValue]);
+
+  // 値を設定してストレージに保存する関数
+  const setValue = useCallback(
+    (value: T | ((val: T) => T)) => {
+      try {
+        // 関数の場合は現在の値を渡して実行
+        const valueToStore = value instanceof Function ? value(storedValue) : value;
+        
+        setStoredValue(valueToStore);
+
+        // ストレージが利用できない場合の処理（要件6.4）
+        if (!StorageService.isAvailable()) {
+          console.warn('ストレージが利用できないため、データは永続化されません');
+          setError('データは永続化されません（ストレージ無効）');
+          return;
+        }
+
+        // ストレージに保存（要件6.1）
+        StorageService.setItem(key, JSON.stringify(valueToStore));
+        setError(null);
+      } catch (err) {
+        console.error(`ストレージへの保存エラー (key: ${key}):`, err);
+        setError(`データの保存に失敗しました: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    },
+    [key, storedValue]
+  );
+
+  return [storedValue, setValue, error];
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { StorageService, QuarantineEntry, StorageChange } from '@/services';
+
+/**
+ * 隔離されたデータ（読み込めなかった保存データ）の一覧を管理するカスタムフック
+ */
+export function useQuarantine() {
+  const [entries, setEntries] = useState<QuarantineEntry[]>(() => StorageService.listQuarantine());
+
+  // 読み込み時などに新しく隔離されたデータと、別のタブでの隔離データの変更を反映する
+  useEffect(() => {
+    const handleQuarantine = () => setEntries(StorageService.listQuarantine());
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<StorageChange>).detail.key.startsWith(StorageService.QUARANTINE_PREFIX)) {
+        handleQuarantine();
+      }
+    };
+
+    handleQuarantine();
+    window.addEventListener(StorageService.QUARANTINE_EVENT, handleQuarantine);
+    window.addEventListener(StorageService.CHANGE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener(StorageService.QUARANTINE_EVENT, handleQuarantine);
+      window.removeEventListener(StorageService.CHANGE_EVENT, handleChange);
+    };
+  }, []);
+
+  /**
+   * 隔離されたデータを削除する
+   */
+  const removeEntry = useCallback((id: string) => {
+    StorageService.removeQuarantine(id);
+    setEntries(StorageService.listQuarantine());
+  }, []);
+
+  return {
+    entries,
+    removeEntry,
+  };
+}
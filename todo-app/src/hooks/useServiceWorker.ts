@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { StorageService } from '@/services';
+
+/**
+ * Service Workerを登録し、新しいバージョンの準備ができたことを知らせるカスタムフック
+ * 本番ビルド（静的エクスポート）でのみ登録する
+ */
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  // 更新を適用したときだけ読み込み直す（初回のインストールでは読み込み直さない）
+  const isUpdatingRef = useRef(false);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+    let registration: ServiceWorkerRegistration | null = null;
+
+    // 既に動作しているService Workerがある場合のみ、新しいバージョンとして知らせる
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    navigator.serviceWorker
+      .register(`${basePath}/sw.js`, { scope: `${basePath}/` })
+      .then(reg => {
+        registration = reg;
+        if (reg.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(reg.waiting);
+        }
+        if (reg.installing) {
+          trackInstalling(reg.installing);
+        }
+        reg.addEventListener('updatefound', () => {
+          if (reg.installing) trackInstalling(reg.installing);
+        });
+      })
+      .catch(err => console.error('Service Workerの登録に失敗しました:', err));
+
+    // 新しいバージョンに切り替わったら読み込み直す
+    const handleControllerChange = () => {
+      if (isUpdatingRef.current) {
+        isUpdatingRef.current = false;
+        window.location.reload();
+      }
+    };
+
+    // タブに戻ったときに新しいバージョンを確認する
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        registration?.update().catch(err => console.warn('更新の確認に失敗しました:', err));
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  /**
+   * 新しいバージョンに切り替えて読み込み直す（保存中のデータを書き込んでから切り替える）
+   */
+  const applyUpdate = useCallback(async (): Promise<void> => {
+    if (!waitingWorker) return;
+
+    await StorageService.flush();
+    isUpdatingRef.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  /**
+   * 更新の案内を閉じる（次に開いたときに再度案内する）
+   */
+  const dismissUpdate = useCallback(() => setWaitingWorker(null), []);
+
+  return {
+    isUpdateAvailable: waitingWorker !== null,
+    applyUpdate,
+    dismissUpdate,
+  };
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ShareService, SharedSnapshot } from '@/services';
+
+/**
+ * 共有リンク（URLのフラグメント）で開かれたリストを読み込むカスタムフック
+ * 開いた後にフラグメントが変わった場合（別の共有リンクを貼り付けた場合など）も読み込み直す
+ */
+export function useSharedSnapshot() {
+  const [snapshot, setSnapshot] = useState<SharedSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const load = async () => {
+      const data = ShareService.getSharedData(window.location.hash);
+      if (data === null) {
+        setSnapshot(null);
+        setError(null);
+        return;
+      }
+
+      try {
+        setIsLoading(true);
+        const decoded = await ShareService.decode(data);
+        if (!isCancelled) {
+          setSnapshot(decoded);
+          setError(null);
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setSnapshot(null);
+          setError(err instanceof Error ? err.message : '共有リンクを読み込めませんでした');
+        }
+        console.error('共有リンク読み込みエラー:', err);
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    void load();
+    window.addEventListener('hashchange', load);
+    return () => {
+      isCancelled = true;
+      window.removeEventListener('hashchange', load);
+    };
+  }, []);
+
+  /**
+   * 共有されたリストの表示を閉じる（フラグメントを消して、自分のリストの表示に戻る）
+   */
+  const close = useCallback(() => {
+    const url = new URL(window.location.href);
+    url.hash = '';
+    window.history.replaceState(window.history.state, '', url);
+    setSnapshot(null);
+    setError(null);
+  }, []);
+
+  return {
+    snapshot,
+    error,
+    isLoading,
+    isShared: snapshot !== null || error !== null || isLoading,
+    close,
+  };
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  StorageService,
+  StorageBackend,
+  TodoService,
+  TrashService,
+  ListService,
+  SyncService,
+  ChangeLogService,
+  CrdtService,
+} from '@/services';
+
+/**
+ * アプリのデータの保存キーか判定する（ローカルストレージの読み込み・IndexedDBへの移行の対象）
+ * 同じオリジンの他のアプリのデータを扱わないよう、アプリのキーだけを対象にする
+ */
+const isAppKey = (key: string): boolean =>
+  key === TodoService.STORAGE_KEY ||
+  [
+    ListService.LISTS_KEY,
+    ListService.ACTIVE_LIST_KEY,
+    TodoService.SORT_MODE_KEY,
+    TrashService.RETENTION_KEY,
+    SyncService.SETTINGS_KEY,
+    ChangeLogService.OUTBOX_KEY,
+    CrdtService.REPLICA_KEY,
+  ].includes(key) ||
+  [
+    TodoService.getStorageKey(''),
+    TrashService.getStorageKey(''),
+    CrdtService.getStorageKey(''),
+    StorageService.QUARANTINE_PREFIX,
+  ].some(prefix => key.startsWith(prefix));
+
+/**
+ * 保存先の選択（初期化）と、保存先への書き込みの失敗を管理するカスタムフック
+ */
+export function useStorageBackend() {
+  const [backend, setBackend] = useState<StorageBackend | null>(() => StorageService.getBackend());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    StorageService.init(isAppKey)
+      .then(selected => {
+        // 古い形式のデータの移行・読み込めないデータの隔離は、データを描画する前に済ませる
+        ListService.repairStorage();
+        TodoService.repairStorage();
+        TrashService.repairStorage();
+        if (!isCancelled) setBackend(selected);
+      })
+      .catch((err: unknown) => {
+        console.error('ストレージの初期化エラー:', err);
+        if (!isCancelled) setError('データを読み込めませんでした。ページを再読み込みしてください。');
+      });
+
+    // 保存先への書き込みは非同期に行われるため、失敗はイベントで受け取る
+    const handleError = (event: Event) => setError((event as CustomEvent<string>).detail);
+    window.addEventListener(StorageService.ERROR_EVENT, handleError);
+    return () => {
+      isCancelled = true;
+      window.removeEventListener(StorageService.ERROR_EVENT, handleError);
+    };
+  }, []);
+
+  /**
+   * エラー表示を閉じる
+   */
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    backend,
+    isReady: backend !== null,
+    error,
+    clearError,
+  };
+}
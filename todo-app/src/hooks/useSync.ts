@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SyncService, SyncSettings, ChangeLogService, StorageService, StorageChange } from '@/services';
+
+/**
+ * 同期の状態
+ * - disabled: 同期が無効
+ * - idle: 同期済み（または同期待ち）
+ * - syncing: 同期中
+ * - error: 前回の同期に失敗した（間隔を空けて再試行する）
+ */
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'error';
+
+/** 定期的に同期する間隔（ミリ秒） */
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/** 変更してから同期するまでの待ち時間（ミリ秒。続けて変更した場合はまとめて送る） */
+const CHANGE_DEBOUNCE_MS = 2000;
+
+/** 失敗時の再試行の間隔（ミリ秒。失敗するたびに倍にし、最大値で止める） */
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * 同期サーバーとの同期を管理するカスタムフック
+ * - 定期的に、オンラインに戻ったとき、変更を記録したとき（少し待ってから）に同期する
+ * - 同期は同時に1つだけ行い、失敗した場合は間隔を広げながら再試行する（変更は送信待ちに残る）
+ */
+export function useSync() {
+  const [settings, setSettings] = useState<SyncSettings | null>(() => SyncService.loadSettings());
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(() => SyncService.getPendingCount());
+
+  const isSyncingRef = useRef(false);
+  const failuresRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * 同期の設定と送信待ちの件数を読み込み直す
+   */
+  const refresh = useCallback(() => {
+    setSettings(SyncService.loadSettings());
+    setPendingCount(SyncService.getPendingCount());
+  }, []);
+
+  /**
+   * 指定した時間の後に同期する（予定済みの同期は取り消す）
+   */
+  const schedule = useCallback((delay: number, run: () => void) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(run, delay);
+  }, []);
+
+  /**
+   * 同期する（同期中の場合や同期が無効な場合は何もしない）
+   */
+  const runSync = useCallback(async (): Promise<void> => {
+    if (isSyncingRef.current || !SyncService.loadSettings()) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      await SyncService.sync();
+      failuresRef.current = 0;
+      setError(null);
+      schedule(SYNC_INTERVAL_MS, () => void runSync());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '同期に失敗しました';
+      setError(errorMessage);
+      console.error('同期エラー:', err);
+
+      const delay = Math.min(RETRY_BASE_MS * 2 ** failuresRef.current, RETRY_MAX_MS);
+      failuresRef.current++;
+      schedule(delay, () => void runSync());
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      refresh();
+    }
+  }, [schedule, refresh]);
+
+  // 同期が有効な間は、起動時・オンライン復帰時・変更の記録時に同期する
+  // 同期先が変わったときだけ登録し直す（cursorなどの更新では登録し直さない）
+  const activeEndpoint = settings?.endpoint;
+  useEffect(() => {
+    if (!activeEndpoint) return;
+
+    const handleOnline = () => {
+      failuresRef.current = 0;
+      void runSync();
+    };
+    const handleLocalChange = () => {
+      setPendingCount(SyncService.getPendingCount());
+      // 再試行を待っている間は、再試行の間隔を優先する
+      if (failuresRef.current === 0) {
+        schedule(CHANGE_DEBOUNCE_MS, () => void runSync());
+      }
+    };
+
+    void runSync();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener(ChangeLogService.CHANGE_EVENT, handleLocalChange);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener(ChangeLogService.CHANGE_EVENT, handleLocalChange);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [activeEndpoint, runSync, schedule]);
+
+  // 別のタブで同期の設定を変更した場合は読み込み直す
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      const { key } = (event as CustomEvent<StorageChange>).detail;
+      if (key === SyncService.SETTINGS_KEY || key === ChangeLogService.OUTBOX_KEY) {
+        refresh();
+      }
+    };
+
+    window.addEventListener(StorageService.CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(StorageService.CHANGE_EVENT, handleChange);
+  }, [refresh]);
+
+  /**
+   * 同期を有効にする
+   * @param endpoint 同期サーバーのURL
+   * @param token 認証トークン
+   */
+  const enable = useCallback(
+    async (endpoint: string, token?: string): Promise<void> => {
+      try {
+        setError(null);
+        failuresRef.current = 0;
+        SyncService.enable(endpoint, token);
+        refresh();
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : '同期を有効にできませんでした';
+        setError(errorMessage);
+        console.error('同期設定エラー:', err);
+      }
+    },
+    [refresh]
+  );
+
+  /**
+   * 同期を無効にする
+   */
+  const disable = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    SyncService.disable();
+    setError(null);
+    refresh();
+  }, [refresh]);
+
+  /**
+   * 今すぐ同期する（再試行の待ち時間は取り消す）
+   */
+  const syncNow = useCallback(async (): Promise<void> => {
+    failuresRef.current = 0;
+    await runSync();
+  }, [runSync]);
+
+  const status: SyncStatus = !settings ? 'disabled' : isSyncing ? 'syncing' : error ? 'error' : 'idle';
+
+  return {
+    // データ
+    settings,
+    pendingCount,
+
+    // 状態
+    status,
+    error,
+
+    // アクション
+    enable,
+    disable,
+    syncNow,
+  };
+}
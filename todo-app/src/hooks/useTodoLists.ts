@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { TodoListMeta } from '@/types';
+import { ListService, TodoService, TrashService, CrdtService, StorageService, StorageChange } from '@/services';
+
+/**
+ * 名前付きリスト（プロジェクト）の状態管理を行うカスタムフック
+ */
+export function useTodoLists() {
+  // リスト一覧の読み込み時に単一リスト時代のデータを移行する
+  const [lists, setLists] = useState<TodoListMeta[]>(() => ListService.loadLists());
+  const [activeListId, setActiveListId] = useState<string>(() =>
+    ListService.loadActiveListId(lists)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // 別のタブでリスト一覧が変更された場合は読み込み直す（リスト一覧は後から保存した方を採用する）
+  // 表示中のリストが削除された場合は、最初のリストを表示する
+  useEffect(() => {
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<StorageChange>).detail.key === ListService.LISTS_KEY) {
+        setLists(ListService.loadLists());
+      }
+    };
+
+    window.addEventListener(StorageService.CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(StorageService.CHANGE_EVENT, handleChange);
+  }, []);
+
+  /**
+   * リスト一覧を更新して保存する（変更されたリストには更新日時を設定する）
+   */
+  const commitLists = useCallback(
+    (updatedLists: TodoListMeta[]) => {
+      const stamped = ListService.stampUpdatedAt(lists, updatedLists);
+      setLists(stamped);
+      ListService.saveLists(stamped);
+    },
+    [lists]
+  );
+
+  /**
+   * 表示するリストを切り替える
+   */
+  const selectList = useCallback((id: string) => {
+    setActiveListId(id);
+    ListService.saveActiveListId(id);
+  }, []);
+
+  /**
+   * 新しいリストを作成して選択する
+   */
+  const createList = useCallback(
+    async (name: string): Promise<void> => {
+      try {
+        const validation = ListService.validateListName(name, lists);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+
+        setError(null);
+
+        const newList = ListService.createList(name);
+        commitLists([...lists, newList]);
+        selectList(newList.id);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'リストの作成に失敗しました';
+        setError(errorMessage);
+        console.error('リスト作成エラー:', err);
+      }
+    },
+    [lists, commitLists, selectList]
+  );
+
+  /**
+   * リスト名を変更する
+   */
+  const renameList = useCallback(
+    async (id: string, name: string): Promise<void> => {
+      try {
+        const validation = ListService.validateListName(name, lists, id);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+
+        setError(null);
+        commitLists(ListService.renameList(lists, id, name));
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'リスト名の変更に失敗しました';
+        setError(errorMessage);
+        console.error('リスト名変更エラー:', err);
+      }
+    },
+    [lists, commitLists]
+  );
+
+  /**
+   * リストを並べ替える
+   */
+  const moveList = useCallback(
+    async (id: string, toIndex: number): Promise<void> => {
+      try {
+        setError(null);
+        commitLists(ListService.moveList(lists, id, toIndex));
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'リストの並べ替えに失敗しました';
+        setError(errorMessage);
+        console.error('リスト並べ替えエラー:', err);
+      }
+    },
+    [lists, commitLists]
+  );
+
+  /**
+   * リストをアーカイブする、またはアーカイブから戻す
+   */
+  const setListArchived = useCallback(
+    async (id: string, archived: boolean): Promise<void> => {
+      try {
+        const updatedLists = ListService.setArchived(lists, id, archived);
+
+        // 未アーカイブのリストが最低1つ残るようにする
+        if (!updatedLists.some(list => !list.archived)) {
+          throw new Error('すべてのリストをアーカイブすることはできません');
+        }
+
+        setError(null);
+        commitLists(updatedLists);
+
+        // 表示中のリストをアーカイブした場合は別のリストに切り替える
+        if (archived && id === activeListId) {
+          selectList(ListService.loadActiveListId(updatedLists.filter(list => list.id !== id)));
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'リストのアーカイブに失敗しました';
+        setError(errorMessage);
+        console.error('リストアーカイブエラー:', err);
+      }
+    },
+    [lists, activeListId, commitLists, selectList]
+  );
+
+  /**
+   * リストとそのTODOを削除する
+   */
+  const deleteList = useCallback(
+    async (id: string): Promise<void> => {
+      try {
+        const updatedLists = ListService.deleteList(lists, id);
+        if (!updatedLists.some(list => !list.archived)) {
+          throw new Error('最後のリストは削除できません');
+        }
+
+        setError(null);
+        commitLists(updatedLists);
+
+        // リストのTODO・ゴミ箱・統合用の状態もストレージから削除する
+        TodoService.clearTodos(id);
+        TrashService.clearTrash(id);
+        CrdtService.clearState(id);
+
+        if (id === activeListId) {
+          selectList(ListService.loadActiveListId(updatedLists));
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'リストの削除に失敗しました';
+        setError(errorMessage);
+        console.error('リスト削除エラー:', err);
+      }
+    },
+    [lists, activeListId, commitLists, selectList]
+  );
+
+  /**
+   * リスト一覧を置き換える（インポート時に使用）
+   * 置き換えられなかった場合は、呼び出し元が続きの処理を中止できるよう例外を投げる
+   */
+  const replaceLists = useCallback(
+    async (updatedLists: TodoListMeta[]): Promise<void> => {
+      try {
+        const validation = ListService.validateLists(updatedLists);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+
+        setError(null);
+        commitLists(updatedLists);
+
+        // 表示中のリストがなくなった、またはアーカイブされた場合は別のリストに切り替える
+        const active = updatedLists.find(list => list.id === activeListId);
+        if (!active || active.archived) {
+          selectList(ListService.loadActiveListId(updatedLists.filter(list => !list.archived)));
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'リスト一覧の更新に失敗しました';
+        setError(errorMessage);
+        console.error('リスト一覧更新エラー:', err);
+        throw new Error(errorMessage);
+      }
+    },
+    [activeListId, commitLists, selectList]
+  );
+
+  const activeList = lists.find(list => list.id === activeListId) ?? lists[0];
+
+  return {
+    // データ
+    lists,
+    activeList,
+    activeListId: activeList.id,
+
+    // 状態
+    error,
+
+    // アクション
+    selectList,
+    createList,
+    renameList,
+    moveList,
+    setListArchived,
+    deleteList,
+    replaceLists,
+  };
+}
@@ -1,20 +1,212 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { Todo, CreateTodoInput, TodoUpdate } from '@/types';
-import { TodoService } from '@/services';
-import { useLocalStorage } from './useLocalStorage';
+import { Todo, TrashedTodo, CreateTodoInput, TodoUpdate, BulkEdit, TodoPriority, TODO_PRIORITIES } from '@/types';
+import { TodoService, RecurrenceService, TrashService, StorageService, MergeService, StorageChange } from '@/services';
+
+/** 保持する操作履歴の最大件数 */
+const MAX_HISTORY = 50;
+
+/**
+ * ある時点のTODOリストとゴミ箱
+ */
+interface Snapshot {
+  todos: Todo[];
+  trash: TrashedTodo[];
+}
+
+/**
+ * 操作履歴の1件（操作前後のTODOリストとゴミ箱を保持する）
+ */
+interface HistoryEntry {
+  /** 操作の説明（トーストに表示する） */
+  label: string;
+  before: Snapshot;
+  after: Snapshot;
+}
+
+/**
+ * 元に戻す／やり直すための操作履歴
+ */
+interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const EMPTY_HISTORY: History = { past: [], future: [] };
+
+/**
+ * リストのTODOリストとゴミ箱を読み込む
+ */
+const loadSnapshot = (listId: string): Snapshot => ({
+  todos: TodoService.loadTodos(listId),
+  trash: TrashService.loadTrash(listId),
+});
+
+/**
+ * 通知に表示するTODOのタイトル（2件以上の場合は「ほかN件」とまとめる）
+ */
+const formatTitles = (titles: string[]): string =>
+  `「${titles[0]}」${titles.length > 1 ? `ほか${titles.length - 1}件` : ''}`;
+
+/**
+ * 取り消し可能な操作の通知（破壊的な操作の後に表示する）
+ */
+export interface UndoNotice {
+  /** 通知ごとに異なる値（同じ文言の通知を区別する） */
+  id: number;
+  message: string;
+}
 
 /**
  * TODOの状態管理を行うカスタムフック
+ * @param listId 対象のリストID
  */
-export function useTodos() {
-  const [todos, setTodos, storageError] = useLocalStorage<Todo[]>('todos', []);
+export function useTodos(listId: string) {
+  // TODOリストとゴミ箱は1つの状態として持ち、1回の状態更新で両方を反映する
+  // 保存はapplySnapshotなどでTodoService・TrashServiceを通じて1回だけ行う
+  const [snapshot, setSnapshot] = useState<Snapshot>(() => loadSnapshot(listId));
+  const { todos, trash } = snapshot;
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [undoNotice, setUndoNotice] = useState<UndoNotice | null>(null);
+  // 別のタブの変更と競合したときの通知
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+
+  // リストが切り替わった場合は読み込み直し、操作履歴を破棄する
+  const [loadedListId, setLoadedListId] = useState(listId);
+  if (loadedListId !== listId) {
+    setLoadedListId(listId);
+    setSnapshot(loadSnapshot(listId));
+    setHistory(EMPTY_HISTORY);
+    setUndoNotice(null);
+  }
+
+  // 保存期間を過ぎたゴミ箱の項目を読み込み時に自動で削除する
+  useEffect(() => {
+    const purged = TrashService.purgeExpired(trash, TrashService.loadRetentionDays());
+    if (purged.length !== trash.length) {
+      setSnapshot(prev => ({ ...prev, trash: purged }));
+      TrashService.saveTrash(purged, listId);
+    }
+  }, [trash, listId]);
+
+  // 別のタブでの変更を取り込む
+  // 変更したタブが知っていた変更前の値を共通の祖先として3方向マージし、手元の変更を失わないようにする
+  useEffect(() => {
+    const todosKey = TodoService.getStorageKey(listId);
+    const trashKey = TrashService.getStorageKey(listId);
+
+    const handleChange = (event: Event) => {
+      const change = (event as CustomEvent<StorageChange>).detail;
+      let conflictTitles: string[] = [];
+      let deleteConflictTitles: string[] = [];
+
+      if (change.key === todosKey) {
+        const remote = TodoService.loadTodos(listId);
+        const merged = MergeService.mergeTodos(TodoService.decodeTodos(change.previous), todos, remote);
+        if (MergeService.isSameRecords(merged.records, todos, todo => todo.id)) return;
+
+        // 削除と編集の競合で編集が残ったTODOはゴミ箱から除く
+        const mergedTrash = MergeService.excludeLiveFromTrash(trash, merged.records);
+        setSnapshot({ todos: merged.records, trash: mergedTrash });
+        StorageService.batch(() => {
+          // 手元の変更を残した場合は、マージ結果を保存して他のタブにも反映する
+          if (!MergeService.isSameRecords(merged.records, remote, todo => todo.id)) {
+            TodoService.saveTodos(merged.records, listId);
+          }
+          if (mergedTrash !== trash) {
+            TrashService.saveTrash(mergedTrash, listId);
+          }
+        });
+        conflictTitles = merged.conflicts.map(todo => todo.title);
+        deleteConflictTitles = merged.deleteConflicts.map(todo => todo.title);
+      } else if (change.key === trashKey) {
+        const remote = TrashService.loadTrash(listId);
+        const merged = MergeService.mergeTrash(TrashService.decodeTrash(change.previous), trash, remote);
+        // 削除と編集の競合で編集が残ったTODOはゴミ箱に入れない
+        const records = MergeService.excludeLiveFromTrash(merged.records, todos);
+        if (MergeService.isSameRecords(records, trash, item => item.todo.id)) return;
+
+        setSnapshot({ todos, trash: records });
+        if (!MergeService.isSameRecords(records, remote, item => item.todo.id)) {
+          TrashService.saveTrash(records, listId);
+        }
+        conflictTitles = merged.conflicts.map(item => item.todo.title);
+        deleteConflictTitles = merged.deleteConflicts.map(item => item.todo.title);
+      } else {
+        return;
+      }
+
+      // 他のタブの変更は取り消せないため、操作履歴を破棄する
+      setHistory(EMPTY_HISTORY);
+      setUndoNotice(null);
+      const notices = [
+        conflictTitles.length > 0 &&
+          `別のタブでも変更されていたため、新しい方の変更を採用しました：${formatTitles(conflictTitles)}`,
+        deleteConflictTitles.length > 0 &&
+          `一方のタブで削除され、もう一方のタブで変更されていたため、削除せずに残しました：${formatTitles(deleteConflictTitles)}`,
+      ].filter(Boolean);
+      if (notices.length > 0) {
+        setSyncNotice(notices.join('\n'));
+      }
+    };
+
+    window.addEventListener(StorageService.CHANGE_EVENT, handleChange);
+    return () => window.removeEventListener(StorageService.CHANGE_EVENT, handleChange);
+  }, [todos, trash, listId]);
+
+  /**
+   * TODOリストとゴミ箱を1回の状態更新で反映し、1回の書き込みで保存する（変更のあったものだけ保存する）
+   * TODOリストからゴミ箱へ移す操作などで、一方だけが保存されることはない
+   */
+  const applySnapshot = useCallback(
+    (next: Snapshot) => {
+      // 保存に失敗した場合は状態を更新しない
+      StorageService.batch(() => {
+        if (next.todos !== todos) {
+          TodoService.saveTodos(next.todos, listId);
+        }
+        if (next.trash !== trash) {
+          TrashService.saveTrash(next.trash, listId);
+        }
+      });
+      setSnapshot(next);
+    },
+    [todos, trash, listId]
+  );
 
-  // useLocalStorageが既にローカルストレージからデータを読み込んでいるため、
-  // 追加の初期化は不要
+  /**
+   * 変更後のTODOリストを反映して保存し、操作履歴に記録する
+   * @param updatedTodos 変更後のTODOリスト
+   * @param label 操作の説明
+   * @param notify trueの場合は取り消し用の通知を表示する（破壊的な操作）
+   * @param updatedTrash 変更後のゴミ箱（省略時は変更なし）
+   * @param preserveUpdatedAt trueの場合は更新日時を設定しない（インポートしたデータの更新日時を保つ）
+   */
+  const commitTodos = useCallback(
+    (
+      updatedTodos: Todo[],
+      label: string,
+      notify = false,
+      updatedTrash: TrashedTodo[] = trash,
+      preserveUpdatedAt = false
+    ) => {
+      const after = {
+        todos: preserveUpdatedAt ? updatedTodos : TodoService.stampUpdatedAt(todos, updatedTodos),
+        trash: updatedTrash,
+      };
+      applySnapshot(after);
+
+      setHistory(prev => ({
+        past: [...prev.past, { label, before: { todos, trash }, after }].slice(-MAX_HISTORY),
+        future: [],
+      }));
+      setUndoNotice(notify ? { id: Date.now(), message: label } : null);
+    },
+    [todos, trash, applySnapshot]
+  );
 
   /**
    * 新しいTODOアイテムを追加する（要件1.2, 1.4）
@@ -28,18 +220,21 @@ export function useTodos() {
           throw new Error(validation.error);
         }
 
+        if (input.recurrence) {
+          const recurrenceValidation = RecurrenceService.validateRule(input.recurrence);
+          if (!recurrenceValidation.isValid) {
+            throw new Error(recurrenceValidation.error);
+          }
+        }
+
         setIsLoading(true);
         setError(null);
 
         // 新しいTODOアイテムを作成
-        const newTodo = TodoService.createTodo(input);
+        const newTodo = TodoService.createTodo(input, todos);
 
-        // 状態を更新
-        const updatedTodos = [...todos, newTodo];
-        setTodos(updatedTodos);
-
-        // ローカルストレージに保存
-        TodoService.saveTodos(updatedTodos);
+        // 状態を更新して保存
+        commitTodos([...todos, newTodo], `「${newTodo.title}」を追加しました`);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'TODOの追加に失敗しました';
         setError(errorMessage);
@@ -48,7 +243,7 @@ export function useTodos() {
         setIsLoading(false);
       }
     },
-    [todos, setTodos]
+    [todos, commitTodos]
   );
 
   /**
@@ -65,15 +260,19 @@ export function useTodos() {
           }
         }
 
+        // 繰り返しルールが更新される場合は検証
+        if (updates.recurrence) {
+          const validation = RecurrenceService.validateRule(updates.recurrence);
+          if (!validation.isValid) {
+            throw new Error(validation.error);
+          }
+        }
+
         setIsLoading(true);
         setError(null);
 
-        // TODOリストを更新
-        const updatedTodos = TodoService.updateTodo(todos, id, updates);
-        setTodos(updatedTodos);
-
-        // ローカルストレージに保存
-        TodoService.saveTodos(updatedTodos);
+        // TODOリストを更新して保存
+        commitTodos(TodoService.updateTodo(todos, id, updates), 'TODOを更新しました');
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'TODOの更新に失敗しました';
         setError(errorMessage);
@@ -82,7 +281,7 @@ export function useTodos() {
         setIsLoading(false);
       }
     },
-    [todos, setTodos]
+    [todos, commitTodos]
   );
 
   /**
@@ -94,12 +293,16 @@ export function useTodos() {
         setIsLoading(true);
         setError(null);
 
-        // TODOリストから削除
-        const updatedTodos = TodoService.deleteTodo(todos, id);
-        setTodos(updatedTodos);
+        // TODOリストから削除してゴミ箱に移す（取り消し用の通知を表示）
+        const target = todos.find(todo => todo.id === id);
+        if (!target) return;
 
-        // ローカルストレージに保存（永続的に削除）
-        TodoService.saveTodos(updatedTodos);
+        commitTodos(
+          TodoService.deleteTodo(todos, id),
+          `「${target.title}」をゴミ箱に移動しました`,
+          true,
+          TrashService.moveToTrash(trash, [target])
+        );
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'TODOの削除に失敗しました';
         setError(errorMessage);
@@ -108,7 +311,7 @@ export function useTodos() {
         setIsLoading(false);
       }
     },
-    [todos, setTodos]
+    [todos, trash, commitTodos]
   );
 
   /**
@@ -120,12 +323,8 @@ export function useTodos() {
         setIsLoading(true);
         setError(null);
 
-        // 完了状態を切り替え
-        const updatedTodos = TodoService.toggleComplete(todos, id);
-        setTodos(updatedTodos);
-
-        // ローカルストレージに保存（変更を永続化）
-        TodoService.saveTodos(updatedTodos);
+        // 完了状態を切り替えて保存
+        commitTodos(TodoService.toggleComplete(todos, id), '完了状態を切り替えました');
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : '完了状態の更新に失敗しました';
         setError(errorMessage);
@@ -134,7 +333,7 @@ export function useTodos() {
         setIsLoading(false);
       }
     },
-    [todos, setTodos]
+    [todos, commitTodos]
   );
 
   /**
@@ -145,11 +344,13 @@ export function useTodos() {
       setIsLoading(true);
       setError(null);
 
-      // 状態をクリア
-      setTodos([]);
-
-      // ローカルストレージからも削除
-      TodoService.clearTodos();
+      // すべてゴミ箱に移す（取り消し用の通知を表示）
+      commitTodos(
+        [],
+        `すべてのTODO（${todos.length}件）をゴミ箱に移動しました`,
+        true,
+        TrashService.moveToTrash(trash, todos)
+      );
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'TODOリストのクリアに失敗しました';
       setError(errorMessage);
@@ -157,7 +358,7 @@ export function useTodos() {
     } finally {
       setIsLoading(false);
     }
-  }, [setTodos]);
+  }, [todos, trash, commitTodos]);
 
   /**
    * 完了済みTODOアイテムのみを削除する
@@ -167,12 +368,15 @@ export function useTodos() {
       setIsLoading(true);
       setError(null);
 
-      // 未完了のTODOのみを残す
+      // 未完了のTODOのみを残し、完了済みはゴミ箱に移す（取り消し用の通知を表示）
       const activeTodos = todos.filter(todo => !todo.completed);
-      setTodos(activeTodos);
-
-      // ローカルストレージに保存
-      TodoService.saveTodos(activeTodos);
+      const completedTodos = todos.filter(todo => todo.completed);
+      commitTodos(
+        activeTodos,
+        `完了済みのTODO（${completedTodos.length}件）をゴミ箱に移動しました`,
+        true,
+        TrashService.moveToTrash(trash, completedTodos)
+      );
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : '完了済みTODOの削除に失敗しました';
       setError(errorMessage);
@@ -180,26 +384,494 @@ export function useTodos() {
     } finally {
       setIsLoading(false);
     }
-  }, [todos, setTodos]);
+  }, [todos, trash, commitTodos]);
+
+  /**
+   * 選択した複数のTODOの完了状態をまとめて設定する（1回の状態更新・保存で反映する）
+   */
+  const setTodosCompleted = useCallback(
+    async (ids: string[], completed: boolean): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // 既に指定した状態のTODOは数えない
+        const changedCount = todos.filter(todo => ids.includes(todo.id) && todo.completed !== completed).length;
+        if (changedCount === 0) return;
+
+        commitTodos(
+          TodoService.setCompleted(todos, ids, completed),
+          `${changedCount}件のTODOを${completed ? '完了' : '未完了'}にしました`,
+          true
+        );
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : '完了状態の一括更新に失敗しました';
+        setError(errorMessage);
+        console.error('完了状態一括更新エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, commitTodos]
+  );
+
+  /**
+   * 選択した複数のTODOをまとめてゴミ箱に移す（1回の状態更新・保存で反映する）
+   */
+  const deleteTodos = useCallback(
+    async (ids: string[]): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const targets = todos.filter(todo => ids.includes(todo.id));
+        if (targets.length === 0) return;
+
+        commitTodos(
+          TodoService.deleteTodos(todos, ids),
+          `${targets.length}件のTODOをゴミ箱に移動しました`,
+          true,
+          TrashService.moveToTrash(trash, targets)
+        );
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'TODOの一括削除に失敗しました';
+        setError(errorMessage);
+        console.error('TODO一括削除エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, trash, commitTodos]
+  );
+
+  /**
+   * 選択した複数のTODOの優先度・期限・タグをまとめて編集する（1回の状態更新・保存で反映する）
+   */
+  const editTodos = useCallback(
+    async (ids: string[], edit: BulkEdit): Promise<void> => {
+      try {
+        // タグを追加する場合は検証
+        if (edit.field === 'addTag') {
+          const validation = TodoService.validateTag(edit.tag);
+          if (!validation.isValid) {
+            throw new Error(validation.error);
+          }
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        const updatedTodos = TodoService.applyBulkEdit(todos, ids, edit);
+        const changedCount = updatedTodos.filter((todo, index) => todo !== todos[index]).length;
+        if (changedCount === 0) return;
+
+        commitTodos(updatedTodos, `${changedCount}件のTODOを編集しました`, true);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'TODOの一括編集に失敗しました';
+        setError(errorMessage);
+        console.error('TODO一括編集エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, commitTodos]
+  );
+
+  /**
+   * タグの名前を変更する（そのタグを持つすべてのTODOに反映）
+   */
+  const renameTag = useCallback(
+    async (oldTag: string, newTag: string): Promise<void> => {
+      try {
+        const validation = TodoService.validateTag(newTag);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        commitTodos(TodoService.renameTag(todos, oldTag, newTag), `タグ「${oldTag}」の名前を変更しました`);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'タグの名前変更に失敗しました';
+        setError(errorMessage);
+        console.error('タグ名変更エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, commitTodos]
+  );
+
+  /**
+   * タグを削除する（そのタグを持つすべてのTODOから取り除く）
+   */
+  const deleteTag = useCallback(
+    async (tag: string): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        commitTodos(TodoService.deleteTag(todos, tag), `タグ「${tag}」を削除しました`, true);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'タグの削除に失敗しました';
+        setError(errorMessage);
+        console.error('タグ削除エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, commitTodos]
+  );
+
+  /**
+   * TODOアイテムを手動の並び順で移動する
+   * @param id 移動するTODOのID
+   * @param prevId 移動先の直前のTODOのID（先頭の場合はnull）
+   * @param nextId 移動先の直後のTODOのID（末尾の場合はnull）
+   */
+  const reorderTodo = useCallback(
+    async (id: string, prevId: string | null, nextId: string | null): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        commitTodos(TodoService.reorderTodo(todos, id, prevId, nextId), '並び順を変更しました');
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : '並び替えに失敗しました';
+        setError(errorMessage);
+        console.error('並び替えエラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, commitTodos]
+  );
+
+  /**
+   * TODOリスト全体を置き換える（インポート時に使用、取り消し可能）
+   * 各TODOの更新日時は置き換え後のTODOリストの値をそのまま使う
+   * 置き換えで消えるTODOは、他の削除と同じくゴミ箱に移す
+   * @param updatedTodos 置き換え後のTODOリスト
+   * @param label 操作の説明
+   */
+  const replaceTodos = useCallback(
+    async (updatedTodos: Todo[], label: string): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const ids = new Set(updatedTodos.map(todo => todo.id));
+        const removed = todos.filter(todo => !ids.has(todo.id));
+        commitTodos(
+          updatedTodos,
+          label,
+          true,
+          removed.length > 0 ? TrashService.moveToTrash(trash, removed) : trash,
+          true
+        );
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'TODOリストの更新に失敗しました';
+        setError(errorMessage);
+        console.error('TODOリスト置き換えエラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, trash, commitTodos]
+  );
+
+  /**
+   * TODOアイテムを別のリストへ移動する
+   */
+  const moveTodoToList = useCallback(
+    async (id: string, targetListId: string): Promise<void> => {
+      if (targetListId === listId) return;
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const { source, target } = TodoService.moveTodo(
+          todos,
+          TodoService.loadTodos(targetListId),
+          id
+        );
+
+        // 移動先を先に保存し、失敗した場合に移動元から消えないようにする
+        TodoService.saveTodos(target, targetListId);
+        setSnapshot(prev => ({ ...prev, todos: source }));
+        TodoService.saveTodos(source, listId);
+
+        // 他のリストにまたがる変更は取り消せないため、操作履歴を破棄する
+        setHistory(EMPTY_HISTORY);
+        setUndoNotice(null);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'TODOの移動に失敗しました';
+        setError(errorMessage);
+        console.error('TODO移動エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, listId]
+  );
+
+  /**
+   * サブタスクの変更を適用して保存する（サブタスク操作の共通処理）
+   */
+  const applySubtaskChange = useCallback(
+    async (change: (current: Todo[]) => Todo[], fallbackMessage: string): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        commitTodos(change(todos), 'サブタスクを更新しました');
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : fallbackMessage;
+        setError(errorMessage);
+        console.error('サブタスク更新エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, commitTodos]
+  );
+
+  /**
+   * サブタスクを追加する
+   */
+  const addSubtask = useCallback(
+    (id: string, title: string) =>
+      applySubtaskChange(current => {
+        const validation = TodoService.validateTodoTitle(title);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+        return TodoService.addSubtask(current, id, title);
+      }, 'サブタスクの追加に失敗しました'),
+    [applySubtaskChange]
+  );
+
+  /**
+   * サブタスクのタイトルを変更する
+   */
+  const renameSubtask = useCallback(
+    (id: string, subtaskId: string, title: string) =>
+      applySubtaskChange(current => {
+        const validation = TodoService.validateTodoTitle(title);
+        if (!validation.isValid) {
+          throw new Error(validation.error);
+        }
+        return TodoService.renameSubtask(current, id, subtaskId, title);
+      }, 'サブタスクの更新に失敗しました'),
+    [applySubtaskChange]
+  );
+
+  /**
+   * サブタスクの完了状態を切り替える
+   */
+  const toggleSubtask = useCallback(
+    (id: string, subtaskId: string) =>
+      applySubtaskChange(
+        current => TodoService.toggleSubtask(current, id, subtaskId),
+        'サブタスクの更新に失敗しました'
+      ),
+    [applySubtaskChange]
+  );
+
+  /**
+   * サブタスクを削除する
+   */
+  const deleteSubtask = useCallback(
+    (id: string, subtaskId: string) =>
+      applySubtaskChange(
+        current => TodoService.deleteSubtask(current, id, subtaskId),
+        'サブタスクの削除に失敗しました'
+      ),
+    [applySubtaskChange]
+  );
+
+  /**
+   * サブタスクを並べ替える
+   */
+  const moveSubtask = useCallback(
+    (id: string, subtaskId: string, toIndex: number) =>
+      applySubtaskChange(
+        current => TodoService.moveSubtask(current, id, subtaskId, toIndex),
+        'サブタスクの並べ替えに失敗しました'
+      ),
+    [applySubtaskChange]
+  );
+
+  /**
+   * サブタスクによる自動完了の設定を変更する
+   */
+  const setSubtaskAutoComplete = useCallback(
+    (id: string, enabled: boolean) =>
+      applySubtaskChange(
+        current => TodoService.setSubtaskAutoComplete(current, id, enabled),
+        '自動完了の設定に失敗しました'
+      ),
+    [applySubtaskChange]
+  );
+
+  /**
+   * ゴミ箱からTODOを復元する
+   * @param ids 復元するTODOのID
+   */
+  const restoreFromTrash = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (ids.length === 0) return;
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const restored = TrashService.restore(trash, todos, ids);
+        commitTodos(
+          restored.todos,
+          `${ids.length}件のTODOを復元しました`,
+          false,
+          restored.trash
+        );
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'TODOの復元に失敗しました';
+        setError(errorMessage);
+        console.error('TODO復元エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, trash, commitTodos]
+  );
+
+  /**
+   * ゴミ箱からTODOを完全に削除する
+   * @param ids 削除するTODOのID（省略時はゴミ箱を空にする）
+   */
+  const purgeFromTrash = useCallback(
+    async (ids?: string[]): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const updatedTrash = ids ? TrashService.remove(trash, ids) : [];
+        const count = trash.length - updatedTrash.length;
+        if (count === 0) return;
+
+        commitTodos(
+          todos,
+          ids ? `${count}件のTODOを完全に削除しました` : 'ゴミ箱を空にしました',
+          true,
+          updatedTrash
+        );
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'ゴミ箱の削除に失敗しました';
+        setError(errorMessage);
+        console.error('ゴミ箱削除エラー:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [todos, trash, commitTodos]
+  );
+
+  /**
+   * 直前の操作を元に戻す
+   */
+  const undo = useCallback(async (): Promise<void> => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      applySnapshot(entry.before);
+      setHistory({
+        past: history.past.slice(0, -1),
+        future: [entry, ...history.future],
+      });
+      setUndoNotice(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '元に戻せませんでした';
+      setError(errorMessage);
+      console.error('元に戻すエラー:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [history, applySnapshot]);
+
+  /**
+   * 元に戻した操作をやり直す
+   */
+  const redo = useCallback(async (): Promise<void> => {
+    const entry = history.future[0];
+    if (!entry) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      applySnapshot(entry.after);
+      setHistory({
+        past: [...history.past, entry],
+        future: history.future.slice(1),
+      });
+      setUndoNotice(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'やり直せませんでした';
+      setError(errorMessage);
+      console.error('やり直しエラー:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [history, applySnapshot]);
+
+  /**
+   * 取り消し用の通知を閉じる
+   */
+  const dismissUndoNotice = useCallback(() => setUndoNotice(null), []);
+
+  /**
+   * 別のタブとの競合の通知を閉じる
+   */
+  const dismissSyncNotice = useCallback(() => setSyncNotice(null), []);
+
+  // 使用中のタグ一覧
+  const allTags = TodoService.getAllTags(todos);
 
   // 統計情報を計算
+  const activeByPriority = Object.fromEntries(
+    TODO_PRIORITIES.map(priority => [
+      priority,
+      todos.filter(todo => !todo.completed && todo.priority === priority).length,
+    ])
+  ) as Record<TodoPriority, number>;
+
   const stats = {
     total: todos.length,
     completed: todos.filter(todo => todo.completed).length,
     active: todos.filter(todo => !todo.completed).length,
+    // 優先度ごとの未完了件数
+    activeByPriority,
   };
 
-  // エラー状態を統合（ストレージエラーも含む）
-  const combinedError = error || storageError;
-
   return {
     // データ
     todos,
+    trash,
     stats,
+    allTags,
     
     // 状態
     isLoading,
-    error: combinedError,
+    error,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoNotice,
+    syncNotice,
     
     // アクション
     addTodo,
@@ -208,5 +880,25 @@ export function useTodos() {
     toggleComplete,
     clearAllTodos,
     clearCompletedTodos,
+    setTodosCompleted,
+    deleteTodos,
+    editTodos,
+    renameTag,
+    deleteTag,
+    moveTodoToList,
+    reorderTodo,
+    replaceTodos,
+    addSubtask,
+    renameSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    moveSubtask,
+    setSubtaskAutoComplete,
+    restoreFromTrash,
+    purgeFromTrash,
+    undo,
+    redo,
+    dismissUndoNotice,
+    dismissSyncNotice,
   };
 }
\ No newline at end of file
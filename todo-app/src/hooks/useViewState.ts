@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { StatusFilter, STATUS_FILTERS } from '@/types';
+
+/** URLクエリのパラメータ名 */
+const FILTER_PARAM = 'filter';
+const SEARCH_PARAM = 'q';
+
+/**
+ * URLに保持する表示状態
+ */
+interface ViewState {
+  statusFilter: StatusFilter;
+  searchQuery: string;
+}
+
+const DEFAULT_VIEW_STATE: ViewState = {
+  statusFilter: 'all',
+  searchQuery: '',
+};
+
+/**
+ * 現在のURLクエリから表示状態を読み込む
+ */
+function readViewState(): ViewState {
+  const params = new URLSearchParams(window.location.search);
+  const filter = params.get(FILTER_PARAM);
+
+  return {
+    statusFilter: STATUS_FILTERS.includes(filter as StatusFilter)
+      ? (filter as StatusFilter)
+      : DEFAULT_VIEW_STATE.statusFilter,
+    searchQuery: params.get(SEARCH_PARAM) ?? DEFAULT_VIEW_STATE.searchQuery,
+  };
+}
+
+/**
+ * 表示状態をURLクエリに書き込む
+ * パス（basePathを含む）・ハッシュ・他のクエリはそのまま残し、履歴は増やさない
+ */
+function writeViewState(state: ViewState): void {
+  const url = new URL(window.location.href);
+
+  if (state.statusFilter === DEFAULT_VIEW_STATE.statusFilter) {
+    url.searchParams.delete(FILTER_PARAM);
+  } else {
+    url.searchParams.set(FILTER_PARAM, state.statusFilter);
+  }
+
+  if (state.searchQuery) {
+    url.searchParams.set(SEARCH_PARAM, state.searchQuery);
+  } else {
+    url.searchParams.delete(SEARCH_PARAM);
+  }
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
+/**
+ * 絞り込み条件・検索文字列をURLクエリと同期するカスタムフック
+ * 静的エクスポートでも動作するよう、クライアント側でのみURLを読み書きする
+ * @returns 表示状態と更新関数
+ */
+export function useViewState() {
+  const [viewState, setViewState] = useState<ViewState>(DEFAULT_VIEW_STATE);
+
+  // マウント時と履歴の移動時にURLから読み込む
+  useEffect(() => {
+    const handlePopState = () => setViewState(readViewState());
+
+    handlePopState();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  /**
+   * 表示状態を更新してURLに反映する
+   */
+  const updateViewState = useCallback(
+    (updates: Partial<ViewState>) => {
+      const next = { ...viewState, ...updates };
+      setViewState(next);
+      writeViewState(next);
+    },
+    [viewState]
+  );
+
+  const setStatusFilter = useCallback(
+    (statusFilter: StatusFilter) => updateViewState({ statusFilter }),
+    [updateViewState]
+  );
+
+  const setSearchQuery = useCallback(
+    (searchQuery: string) => updateViewState({ searchQuery }),
+    [updateViewState]
+  );
+
+  return {
+    statusFilter: viewState.statusFilter,
+    searchQuery: viewState.searchQuery,
+    setStatusFilter,
+    setSearchQuery,
+  };
+}
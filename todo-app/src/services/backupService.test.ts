@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { StorageService } from './storageService';
+import { MemoryStorageAdapter } from './storageAdapters';
+import { ChangeLogService } from './changeLogService';
+import { TodoService } from './todoService';
+import { TrashService } from './trashService';
+import { BackupService } from './backupService';
+
+describe('BackupService.saveImportedTodos', () => {
+  beforeAll(async () => {
+    await StorageService.init(() => true, new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    ChangeLogService.stop();
+  });
+
+  it('置き換えで消えるTODOをゴミ箱に移し、同期が有効な場合は削除を送信待ちに記録する', () => {
+    const kept = TodoService.createTodo({ title: '買い物' });
+    const removed = TodoService.createTodo({ title: '掃除' }, [kept]);
+    TodoService.saveTodos([kept, removed], 'list-1');
+    ChangeLogService.start([]);
+
+    const added = TodoService.createTodo({ title: '洗濯' });
+    BackupService.saveImportedTodos({ 'list-1': [kept, added] }, 'active-list');
+
+    expect(TodoService.loadTodos('list-1')).toEqual([kept, added]);
+    expect(TrashService.loadTrash('list-1').map(item => item.todo)).toEqual([removed]);
+
+    const entries = Object.values(ChangeLogService.getEntries());
+    expect(entries.find(entry => entry.id === removed.id)?.deleted).toBe(true);
+    expect(entries.find(entry => entry.id === added.id)).toMatchObject({ listId: 'list-1' });
+    expect(entries.find(entry => entry.id === added.id)?.deleted).toBeFalsy();
+  });
+
+  it('表示中のリストは保存しない', () => {
+    const todo = TodoService.createTodo({ title: '買い物' });
+
+    BackupService.saveImportedTodos({ 'active-list': [todo] }, 'active-list');
+
+    expect(TodoService.loadTodos('active-list')).toEqual([]);
+  });
+});
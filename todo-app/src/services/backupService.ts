@@ -0,0 +1,350 @@
+import { Todo, TodoListMeta, RejectedRecord, isNonEmptyString, isValidDate, toDateInputValue } from '@/types';
+import { TodoService } from './todoService';
+import { TrashService } from './trashService';
+import { StorageService } from './storageService';
+import packageJson from '../../package.json';
+
+/**
+ * バックアップに含まれるリスト
+ */
+export interface BackupList extends TodoListMeta {
+  todos: Todo[];
+}
+
+/**
+ * バックアップファイルの内容
+ */
+export interface BackupFile {
+  /** ファイル形式の識別子 */
+  format: typeof BACKUP_FORMAT;
+  /** データ構造のバージョン */
+  schemaVersion: number;
+  /** 書き出したアプリのバージョン */
+  appVersion: string;
+  /** 書き出した日時 */
+  exportedAt: Date;
+  lists: BackupList[];
+}
+
+/**
+ * 読み込み時に除外されたレコード（リスト名付き）
+ */
+export interface BackupRejectedRecord extends RejectedRecord {
+  listName: string;
+}
+
+/**
+ * インポートの方法
+ * - replace: バックアップに含まれるリストの内容を置き換える
+ * - merge: IDが同じものは更新日時の新しい方を残し、ないものを追加する
+ * - append: すべて新しいIDのコピーとして追加する
+ */
+export type ImportStrategy = 'replace' | 'merge' | 'append';
+
+/**
+ * リストごとのインポートの差分（IDで照合する）
+ */
+export interface BackupListDiff {
+  listId: string;
+  name: string;
+  /** 現在存在しないリストかどうか */
+  isNewList: boolean;
+  /** 現在存在しないTODO */
+  added: Todo[];
+  /** 内容が異なるTODO */
+  changed: Todo[];
+  /** 内容が同じTODO */
+  identical: Todo[];
+  /** バックアップに含まれない現在のTODO（置き換え時に削除される） */
+  removed: Todo[];
+}
+
+/**
+ * インポートの適用結果
+ */
+export interface BackupImportResult {
+  /** 更新後のリスト一覧 */
+  lists: TodoListMeta[];
+  /** 更新するリストごとのTODOリスト */
+  todosByList: Record<string, Todo[]>;
+}
+
+/** ファイル形式の識別子 */
+const BACKUP_FORMAT = 'kiro-todo-backup';
+
+/**
+ * JSONで比較するために、オブジェクトのキーを並べ替える
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, canonicalize(record[key])]));
+  }
+  return value;
+};
+
+/**
+ * JSON形式のバックアップの書き出し・読み込みを提供するサービスクラス
+ */
+export class BackupService {
+  /** ファイル形式の識別子 */
+  static readonly FORMAT = BACKUP_FORMAT;
+
+  /** 現在のデータ構造のバージョン */
+  static readonly SCHEMA_VERSION = 1;
+
+  /** アプリのバージョン */
+  static readonly APP_VERSION = packageJson.version;
+
+  /**
+   * バックアップを作成する
+   * @param lists リスト一覧
+   * @param todosByList リストごとのTODOリスト
+   * @param now 書き出し日時
+   * @returns バックアップの内容
+   */
+  static createBackup(
+    lists: TodoListMeta[],
+    todosByList: Record<string, Todo[]>,
+    now: Date = new Date()
+  ): BackupFile {
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: this.SCHEMA_VERSION,
+      appVersion: this.APP_VERSION,
+      exportedAt: now,
+      lists: lists.map(list => ({ ...list, todos: todosByList[list.id] ?? [] })),
+    };
+  }
+
+  /**
+   * バックアップをJSON文字列に変換する
+   * @param backup バックアップの内容
+   * @returns JSON文字列
+   */
+  static serialize(backup: BackupFile): string {
+    return JSON.stringify(backup, null, 2);
+  }
+
+  /**
+   * バックアップのファイル名を生成する
+   * @param now 書き出し日時
+   * @returns ファイル名
+   */
+  static getFileName(now: Date = new Date()): string {
+    return `kiro-todo-backup-${toDateInputValue(now)}.json`;
+  }
+
+  /**
+   * バックアップファイルを読み込んで検証する
+   * TODOの検証にはTodoService.validateTodoRecordsを使い、不正なレコードは除外して報告する
+   * @param text ファイルの内容
+   * @returns バックアップの内容と除外されたレコード
+   * @throws ファイル形式が正しくない場合
+   */
+  static parse(text: string): { backup: BackupFile; rejected: BackupRejectedRecord[] } {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('JSONとして読み込めないファイルです');
+    }
+
+    const raw = (data ?? {}) as Record<string, unknown>;
+    if (raw.format !== BACKUP_FORMAT || !Array.isArray(raw.lists)) {
+      throw new Error('このアプリのバックアップファイルではありません');
+    }
+
+    const schemaVersion = Number(raw.schemaVersion);
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+      throw new Error('バックアップのバージョン情報が正しくありません');
+    }
+    if (schemaVersion > this.SCHEMA_VERSION) {
+      throw new Error('新しいバージョンのアプリで作成されたバックアップです。アプリを更新してください');
+    }
+
+    const rejected: BackupRejectedRecord[] = [];
+    const lists = raw.lists.flatMap((item: unknown): BackupList[] => {
+      const list = (item ?? {}) as Record<string, unknown>;
+      if (!isNonEmptyString(list.id) || !isNonEmptyString(list.name)) {
+        console.warn('不正なリストデータを検出しました:', item);
+        return [];
+      }
+
+      const result = TodoService.validateTodoRecords(Array.isArray(list.todos) ? list.todos : []);
+      rejected.push(...result.rejected.map(record => ({ ...record, listName: list.name as string })));
+
+      const createdAt = new Date(list.createdAt as string);
+      return [
+        {
+          id: list.id,
+          name: list.name,
+          archived: list.archived === true,
+          createdAt: isValidDate(createdAt) ? createdAt : new Date(),
+          todos: result.todos,
+        },
+      ];
+    });
+
+    const exportedAt = new Date(raw.exportedAt as string);
+    return {
+      backup: {
+        format: BACKUP_FORMAT,
+        schemaVersion,
+        appVersion: typeof raw.appVersion === 'string' ? raw.appVersion : '',
+        exportedAt: isValidDate(exportedAt) ? exportedAt : new Date(),
+        lists,
+      },
+      rejected,
+    };
+  }
+
+  /**
+   * 現在のデータとの差分を求める（TODOはIDで照合する）
+   * @param backup バックアップの内容
+   * @param currentLists 現在のリスト一覧
+   * @param currentTodos 現在のリストごとのTODOリスト
+   * @returns リストごとの差分
+   */
+  static diff(
+    backup: BackupFile,
+    currentLists: TodoListMeta[],
+    currentTodos: Record<string, Todo[]>
+  ): BackupListDiff[] {
+    return backup.lists.map(list => {
+      const current = currentTodos[list.id] ?? [];
+      const currentById = new Map(current.map(todo => [todo.id, todo]));
+      const backupIds = new Set(list.todos.map(todo => todo.id));
+
+      const diff: BackupListDiff = {
+        listId: list.id,
+        name: list.name,
+        isNewList: !currentLists.some(item => item.id === list.id),
+        added: [],
+        changed: [],
+        identical: [],
+        removed: current.filter(todo => !backupIds.has(todo.id)),
+      };
+
+      list.todos.forEach(todo => {
+        const existing = currentById.get(todo.id);
+        if (!existing) {
+          diff.added.push(todo);
+        } else if (this.isSameTodo(existing, todo)) {
+          diff.identical.push(todo);
+        } else {
+          diff.changed.push(todo);
+        }
+      });
+
+      return diff;
+    });
+  }
+
+  /**
+   * インポートを適用した結果を求める
+   * @param backup バックアップの内容
+   * @param strategy インポートの方法
+   * @param currentLists 現在のリスト一覧
+   * @param currentTodos 現在のリストごとのTODOリスト
+   * @param now インポート日時（コピーの更新日時に使用）
+   * @returns 更新後のリスト一覧と、更新するリストごとのTODOリスト
+   */
+  static applyImport(
+    backup: BackupFile,
+    strategy: ImportStrategy,
+    currentLists: TodoListMeta[],
+    currentTodos: Record<string, Todo[]>,
+    now: Date = new Date()
+  ): BackupImportResult {
+    const lists = currentLists.map(list => {
+      // 置き換えの場合はリスト名・アーカイブ状態もバックアップに合わせる
+      const backupList = strategy === 'replace' && backup.lists.find(item => item.id === list.id);
+      return backupList ? { ...list, name: backupList.name, archived: backupList.archived } : list;
+    });
+    const todosByList: Record<string, Todo[]> = {};
+
+    backup.lists.forEach(({ todos: backupTodos, ...meta }) => {
+      if (!lists.some(list => list.id === meta.id)) {
+        lists.push(meta);
+      }
+
+      const current = currentTodos[meta.id] ?? [];
+      switch (strategy) {
+        case 'replace':
+          todosByList[meta.id] = backupTodos;
+          break;
+
+        case 'merge': {
+          const backupById = new Map(backupTodos.map(todo => [todo.id, todo]));
+          const currentIds = new Set(current.map(todo => todo.id));
+          todosByList[meta.id] = [
+            // 同じIDは更新日時の新しい方を残す
+            ...current.map(todo => {
+              const incoming = backupById.get(todo.id);
+              return incoming && incoming.updatedAt.getTime() > todo.updatedAt.getTime() ? incoming : todo;
+            }),
+            ...backupTodos.filter(todo => !currentIds.has(todo.id)),
+          ];
+          break;
+        }
+
+        case 'append':
+          todosByList[meta.id] = [...current, ...this.copyTodos(backupTodos, current, now)];
+          break;
+      }
+    });
+
+    return { lists, todosByList };
+  }
+
+  /**
+   * インポートしたTODOリストを、表示中以外のリストに保存する
+   * 表示中以外のリストは操作履歴で元に戻せないため、置き換えで消えるTODOはゴミ箱に移す
+   * （すべてのリストのTODOリストとゴミ箱を1回で保存し、同期が有効な場合は変更・削除を送信待ちに記録する）
+   * @param todosByList インポート後のリストごとのTODOリスト
+   * @param excludeListId 保存しないリストID（表示中のリスト。画面の状態を通じて保存する）
+   * @param now 削除日時
+   */
+  static saveImportedTodos(todosByList: Record<string, Todo[]>, excludeListId: string, now: Date = new Date()): void {
+    StorageService.batch(() => {
+      Object.entries(todosByList).forEach(([listId, todos]) => {
+        if (listId === excludeListId) return;
+
+        const ids = new Set(todos.map(todo => todo.id));
+        const removed = TodoService.loadTodos(listId).filter(todo => !ids.has(todo.id));
+        TodoService.saveTodos(todos, listId);
+        if (removed.length > 0) {
+          TrashService.saveTrash(TrashService.moveToTrash(TrashService.loadTrash(listId), removed, now), listId);
+        }
+      });
+    });
+  }
+
+  /**
+   * TODOを新しいIDのコピーにする（手動の並び順では既存のTODOの後ろに並べる）
+   * @param todos コピーするTODO
+   * @param existing コピー先の既存のTODO
+   * @param now 更新日時
+   * @returns コピーしたTODO
+   */
+  static copyTodos(todos: Todo[], existing: Todo[], now: Date): Todo[] {
+    const start = existing.length > 0 ? Math.max(...existing.map(todo => todo.position)) + 1 : 0;
+
+    return [...todos].sort(TodoService.compareByPosition).map((todo, index) => ({
+      ...todo,
+      id: crypto.randomUUID(),
+      subtasks: todo.subtasks.map(subtask => ({ ...subtask, id: crypto.randomUUID() })),
+      updatedAt: now,
+      position: start + index,
+    }));
+  }
+
+  /**
+   * 2つのTODOの内容が同じか判定する
+   */
+  private static isSameTodo(a: Todo, b: Todo): boolean {
+    return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+  }
+}
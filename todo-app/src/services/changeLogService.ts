@@ -0,0 +1,205 @@
+import { StorageService } from './storageService';
+
+/**
+ * 同期の対象となるレコードの種類
+ */
+export type SyncRecordKind = 'list' | 'todo';
+
+/**
+ * 同期サーバーへ送っていない変更
+ */
+export interface ChangeEntry {
+  /** 記録した順の番号（送信中に再度変更されたかの判定に使用） */
+  seq: number;
+  kind: SyncRecordKind;
+  /** レコード（リストまたはTODO）のID */
+  id: string;
+  /** TODOの場合は所属するリストのID */
+  listId?: string;
+  /** 変更（削除）した日時（ISO 8601形式。競合時は新しい方を採用する） */
+  changedAt: string;
+  /** 削除された場合はtrue（tombstone） */
+  deleted?: boolean;
+}
+
+/**
+ * 送信待ちの変更の保存形式
+ */
+interface Outbox {
+  /** 最後に割り当てた番号 */
+  seq: number;
+  /** 保存キーごとの変更 */
+  entries: Record<string, ChangeEntry>;
+}
+
+/**
+ * 同期が有効な間、リストとTODOの変更・削除（tombstone）を記録するサービスクラス
+ * 保存はTodoService.saveTodos・ListService.saveListsから記録するため、すべての変更が記録される
+ * 同期が無効な間は何も記録しない（送信待ちの変更がない状態を保つ）
+ */
+export class ChangeLogService {
+  /** 送信待ちの変更の保存キー（このキーがある間は同期が有効） */
+  static readonly OUTBOX_KEY = 'sync-outbox';
+
+  /** 変更を記録したときにwindowへ通知するイベント名 */
+  static readonly CHANGE_EVENT = 'kiro-todo:sync-change';
+
+  /** trueの間は変更を記録しない（同期サーバーから受け取った変更の反映中） */
+  private static isSuppressed = false;
+
+  /**
+   * レコードの保存キーを取得する
+   * @param kind レコードの種類
+   * @param id レコードのID
+   * @param listId TODOの場合は所属するリストのID
+   */
+  static getKey(kind: SyncRecordKind, id: string, listId?: string): string {
+    return kind === 'todo' ? `todo:${listId}:${id}` : `list:${id}`;
+  }
+
+  /**
+   * 変更を記録しているか（同期が有効か）判定する
+   */
+  static isTracking(): boolean {
+    return StorageService.getItem(this.OUTBOX_KEY) !== null;
+  }
+
+  /**
+   * 変更の記録を始める（既存のレコードをすべて送信待ちにする）
+   * @param records 既存のレコード（変更日時には各レコードの更新日時を指定する）
+   */
+  static start(records: Omit<ChangeEntry, 'seq'>[]): void {
+    const outbox: Outbox = { seq: 0, entries: {} };
+    records.forEach(record => {
+      outbox.entries[this.getKey(record.kind, record.id, record.listId)] = { ...record, seq: ++outbox.seq };
+    });
+    this.saveOutbox(outbox);
+  }
+
+  /**
+   * 変更の記録をやめ、送信待ちの変更を破棄する
+   */
+  static stop(): void {
+    StorageService.removeItem(this.OUTBOX_KEY);
+  }
+
+  /**
+   * 保存前後のレコードを比べ、追加・変更・削除されたレコードを記録する
+   * @param kind レコードの種類
+   * @param previous 保存前のレコード
+   * @param next 保存後のレコード
+   * @param listId TODOの場合は所属するリストのID
+   * @param now 変更日時
+   */
+  static recordChanges<T extends { id: string }>(
+    kind: SyncRecordKind,
+    previous: T[],
+    next: T[],
+    listId?: string,
+    now: Date = new Date()
+  ): void {
+    if (this.isSuppressed) return;
+
+    const outbox = this.loadOutbox();
+    if (!outbox) return;
+
+    const before = new Map(previous.map(record => [record.id, JSON.stringify(record)]));
+    const after = new Set(next.map(record => record.id));
+    const changedAt = now.toISOString();
+    const record = (id: string, deleted: boolean) => {
+      const entry: ChangeEntry = { seq: ++outbox.seq, kind, id, changedAt };
+      if (listId !== undefined) entry.listId = listId;
+      if (deleted) entry.deleted = true;
+      outbox.entries[this.getKey(kind, id, listId)] = entry;
+    };
+
+    const seq = outbox.seq;
+    next.forEach(item => {
+      if (before.get(item.id) !== JSON.stringify(item)) record(item.id, false);
+    });
+    previous.forEach(item => {
+      if (!after.has(item.id)) record(item.id, true);
+    });
+
+    if (outbox.seq !== seq) {
+      this.saveOutbox(outbox);
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event(this.CHANGE_EVENT));
+      }
+    }
+  }
+
+  /**
+   * 送信待ちの変更を取得する
+   * @returns 保存キーごとの変更（同期が無効な場合は空）
+   */
+  static getEntries(): Record<string, ChangeEntry> {
+    return this.loadOutbox()?.entries ?? {};
+  }
+
+  /**
+   * 送信できた変更を送信待ちから外す（送信中に再度変更されたものは残す）
+   * @param sent 送信した変更
+   */
+  static acknowledge(sent: Record<string, ChangeEntry>): void {
+    const outbox = this.loadOutbox();
+    if (!outbox) return;
+
+    Object.entries(sent).forEach(([key, entry]) => {
+      if (outbox.entries[key]?.seq === entry.seq) {
+        delete outbox.entries[key];
+      }
+    });
+    this.saveOutbox(outbox);
+  }
+
+  /**
+   * 送信待ちの変更を破棄する（同期サーバーの新しい変更で上書きした場合）
+   * @param keys 破棄する変更の保存キー
+   */
+  static discard(keys: string[]): void {
+    const outbox = this.loadOutbox();
+    if (!outbox || keys.length === 0) return;
+
+    keys.forEach(key => delete outbox.entries[key]);
+    this.saveOutbox(outbox);
+  }
+
+  /**
+   * 変更を記録せずに処理を行う（同期サーバーから受け取った変更を反映する場合）
+   * @param action 行う処理（同期処理）
+   */
+  static withoutTracking<T>(action: () => T): T {
+    this.isSuppressed = true;
+    try {
+      return action();
+    } finally {
+      this.isSuppressed = false;
+    }
+  }
+
+  /**
+   * 送信待ちの変更を読み込む（同期が無効な場合・読み込めない場合はnull）
+   */
+  private static loadOutbox(): Outbox | null {
+    const stored = StorageService.getItem(this.OUTBOX_KEY);
+    if (stored === null) return null;
+
+    try {
+      const outbox = JSON.parse(stored) as Outbox;
+      return Number.isInteger(outbox.seq) && outbox.entries && typeof outbox.entries === 'object'
+        ? outbox
+        : { seq: 0, entries: {} };
+    } catch (error) {
+      console.error('送信待ちの変更を読み込めませんでした:', error);
+      return { seq: 0, entries: {} };
+    }
+  }
+
+  /**
+   * 送信待ちの変更を保存する
+   */
+  private static saveOutbox(outbox: Outbox): void {
+    StorageService.setItem(this.OUTBOX_KEY, JSON.stringify(outbox));
+  }
+}
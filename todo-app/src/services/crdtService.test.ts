@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Todo, TODO_PRIORITIES } from '@/types';
+import { CrdtService, CrdtState, CrdtElement, CrdtRegister } from './crdtService';
+import { TodoService } from './todoService';
+
+/** 端末ID（同じ日時のレジスタの順序が端末IDで決まる場合も生成する） */
+const replicaArb = fc.constantFrom('replica-a', 'replica-b', 'replica-c');
+
+/** 日時（同じ日時の競合が起きやすいよう狭い範囲にする） */
+const timestampArb = fc
+  .integer({ min: 0, max: 20 })
+  .map(offset => new Date(Date.UTC(2026, 0, 1, 0, 0, offset)).toISOString());
+
+const registerArb: fc.Arbitrary<CrdtRegister> = fc.record({
+  value: fc.oneof(fc.string(), fc.integer(), fc.boolean(), fc.record({ title: fc.string() })),
+  timestamp: timestampArb,
+  replica: replicaArb,
+});
+
+/** 並べ替え済みで重複のないタグ（マージ結果と同じ正規化された形） */
+const tagsArb = fc
+  .uniqueArray(fc.constantFrom('t1', 't2', 't3', 't4', 't5', 't6'), { maxLength: 4 })
+  .map(tags => [...tags].sort());
+
+const elementArb: fc.Arbitrary<CrdtElement> = fc.record({
+  adds: tagsArb,
+  removes: tagsArb,
+  fields: fc.dictionary(fc.constantFrom('title', 'completed', 'priority', 'position'), registerArb, { maxKeys: 4 }),
+});
+
+const stateArb: fc.Arbitrary<CrdtState> = fc.record({
+  elements: fc.dictionary(fc.constantFrom('todo-1', 'todo-2', 'todo-3', 'todo-4'), elementArb, { maxKeys: 4 }),
+});
+
+/** TODOリスト（保存データの検証を通した、正規化された形） */
+const todosArb: fc.Arbitrary<Todo[]> = fc
+  .uniqueArray(
+    fc.record({
+      id: fc.uuid(),
+      title: fc.string({ minLength: 1, maxLength: 20 }).filter(title => title.trim().length > 0),
+      completed: fc.boolean(),
+      priority: fc.constantFrom(...TODO_PRIORITIES),
+      tags: fc.array(fc.constantFrom('仕事', '家', 'urgent'), { maxLength: 3 }),
+      position: fc.integer({ min: -1000, max: 1000 }),
+      createdAt: fc.integer({ min: 0, max: 1e12 }).map(time => new Date(time).toISOString()),
+      updatedAt: fc.integer({ min: 0, max: 1e12 }).map(time => new Date(time).toISOString()),
+      dueDate: fc.option(fc.integer({ min: 0, max: 1e12 }).map(time => new Date(time).toISOString()), { nil: undefined }),
+    }),
+    { selector: todo => todo.id, maxLength: 8 }
+  )
+  .map(records => TodoService.validateTodoRecords(records).todos);
+
+describe('CrdtService.merge', () => {
+  it('可換である（merge(a, b) = merge(b, a)）', () => {
+    fc.assert(
+      fc.property(stateArb, stateArb, (a, b) => {
+        expect(CrdtService.merge(a, b)).toEqual(CrdtService.merge(b, a));
+      })
+    );
+  });
+
+  it('結合的である（merge(merge(a, b), c) = merge(a, merge(b, c))）', () => {
+    fc.assert(
+      fc.property(stateArb, stateArb, stateArb, (a, b, c) => {
+        expect(CrdtService.merge(CrdtService.merge(a, b), c)).toEqual(
+          CrdtService.merge(a, CrdtService.merge(b, c))
+        );
+      })
+    );
+  });
+
+  it('冪等である（merge(a, a) = a）', () => {
+    fc.assert(
+      fc.property(stateArb, a => {
+        expect(CrdtService.merge(a, a)).toEqual(a);
+      })
+    );
+  });
+});
+
+describe('CrdtService.reconcile', () => {
+  it('取り込んだTODOリストをtoRecordsで元に戻せる', () => {
+    fc.assert(
+      fc.property(todosArb, todos => {
+        const state = CrdtService.reconcile(CrdtService.createEmptyState(), todos, 'replica-a');
+        const restored = TodoService.validateTodoRecords(CrdtService.toRecords(state)).todos;
+
+        const byId = (a: Todo, b: Todo) => (a.id < b.id ? -1 : 1);
+        expect([...restored].sort(byId)).toEqual([...todos].sort(byId));
+      })
+    );
+  });
+
+  it('元に戻したTODOリストを取り込み直しても状態は変わらない', () => {
+    fc.assert(
+      fc.property(todosArb, todos => {
+        const state = CrdtService.reconcile(CrdtService.createEmptyState(), todos, 'replica-a');
+        const restored = TodoService.materializeCrdtState(state);
+
+        expect(CrdtService.reconcile(state, restored, 'replica-a')).toEqual(state);
+      })
+    );
+  });
+
+  it('なくなったTODOは削除済みになり、toRecordsに含まれない', () => {
+    fc.assert(
+      fc.property(todosArb.filter(todos => todos.length > 0), todos => {
+        const state = CrdtService.reconcile(CrdtService.createEmptyState(), todos, 'replica-a');
+        const [removed, ...rest] = todos;
+        const next = CrdtService.reconcile(state, rest, 'replica-a');
+
+        expect(CrdtService.toRecords(next).map(record => record.id)).not.toContain(removed.id);
+        expect(CrdtService.toRecords(next)).toHaveLength(rest.length);
+      })
+    );
+  });
+});
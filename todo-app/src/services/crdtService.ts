@@ -0,0 +1,435 @@
+import { Todo, isNonEmptyString } from '@/types';
+import { StorageService } from './storageService';
+
+/**
+ * 最後に書き込んだ値を採用するレジスタ（LWWレジスタ）
+ */
+export interface CrdtRegister {
+  /** 値（JSON） */
+  value: unknown;
+  /** 書き込んだ日時（ISO 8601形式） */
+  timestamp: string;
+  /** 書き込んだ端末のID（同じ日時の場合の順序に使用） */
+  replica: string;
+}
+
+/**
+ * TODO 1件の状態
+ * - 追加（または編集）ごとに一意のタグを付け、削除時はその時点で観測したタグを削除済みにする（OR-Set）
+ *   削除されていないタグが残っていれば存在する（削除と同時に別の端末で編集した場合は編集を残す）
+ * - 内容はフィールドごとのLWWレジスタで持つ（別の端末で別のフィールドを編集しても両方残る）
+ */
+export interface CrdtElement {
+  /** 追加（編集）時に付けたタグ */
+  adds: string[];
+  /** 削除時に観測していたタグ */
+  removes: string[];
+  /** フィールドごとのレジスタ */
+  fields: Record<string, CrdtRegister>;
+}
+
+/**
+ * リスト1つ分の状態（TODOのIDごとの状態）
+ */
+export interface CrdtState {
+  elements: Record<string, CrdtElement>;
+}
+
+/**
+ * 他の端末の状態を統合した結果
+ */
+export interface CrdtMergeResult {
+  /** 統合後のTODOリスト */
+  todos: Todo[];
+  /** 追加されたTODOの件数 */
+  added: number;
+  /** 内容が変わったTODOの件数 */
+  updated: number;
+  /** 削除されたTODOの件数 */
+  removed: number;
+}
+
+/**
+ * 他の端末へ渡すファイルの形式
+ */
+export interface CrdtSnapshotFile {
+  format: typeof CrdtService.FILE_FORMAT;
+  version: number;
+  /** 書き出した日時 */
+  exportedAt: string;
+  /** 書き出した端末のID */
+  replica: string;
+  /** 書き出したリストの名前（表示用） */
+  listName: string;
+  state: CrdtState;
+}
+
+/**
+ * レジスタとTODOのフィールドの対応（期限と時刻の有無のように一緒に変わるものは1つのレジスタにまとめる）
+ */
+const FIELD_GROUPS: Record<string, (keyof Todo)[]> = {
+  title: ['title'],
+  completed: ['completed'],
+  priority: ['priority'],
+  tags: ['tags'],
+  subtasks: ['subtasks', 'autoCompleteWithSubtasks'],
+  due: ['dueDate', 'hasDueTime'],
+  recurrence: ['recurrence'],
+  position: ['position'],
+  createdAt: ['createdAt'],
+  updatedAt: ['updatedAt'],
+};
+
+/**
+ * 比較用の文字列にする
+ */
+const toComparable = (value: unknown): string => JSON.stringify(value) ?? '';
+
+/**
+ * TODOからレジスタの値を取り出す（JSONにし、未設定のフィールドは含めない）
+ */
+const pickFields = (todo: Todo, keys: (keyof Todo)[]): unknown =>
+  JSON.parse(JSON.stringify(Object.fromEntries(keys.map(key => [key, todo[key]]))));
+
+/**
+ * 2つのレジスタのうち採用する方を返す（日時・端末ID・値の順に比べ、大きい方を採用する）
+ */
+const pickRegister = (a: CrdtRegister, b: CrdtRegister): CrdtRegister => {
+  const diff = Date.parse(a.timestamp) - Date.parse(b.timestamp);
+  if (diff !== 0) return diff > 0 ? a : b;
+  if (a.replica !== b.replica) return a.replica > b.replica ? a : b;
+  return toComparable(a.value) >= toComparable(b.value) ? a : b;
+};
+
+/**
+ * 重複を除いて並べ替えたタグの一覧にする
+ */
+const unionTags = (a: string[], b: string[]): string[] => [...new Set([...a, ...b])].sort();
+
+/**
+ * キーの順に並べたオブジェクトにする（どの順でマージしても同じ内容・同じ順序にする）
+ */
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+
+/**
+ * サーバーなしで端末間のTODOリストを統合するための状態（CRDT）を提供するサービスクラス
+ * - 状態のマージは可換・結合的・冪等（どの端末の書き出しを、どの順で、何度統合しても同じ結果になる）
+ * - 端末ごとの状態はリスト単位で保存し、書き出し・統合のときに現在のTODOリストとの差分を取り込む
+ */
+export class CrdtService {
+  /** 書き出したファイルの形式名 */
+  static readonly FILE_FORMAT = 'kiro-todo-crdt';
+
+  /** 書き出したファイルの形式のバージョン */
+  static readonly FILE_VERSION = 1;
+
+  /** 端末IDの保存キー */
+  static readonly REPLICA_KEY = 'crdt-replica';
+
+  /** リストごとの状態の保存キーの接頭辞 */
+  static readonly STORAGE_KEY = 'crdt';
+
+  /**
+   * リストの状態の保存キーを取得する
+   * @param listId リストID
+   */
+  static getStorageKey(listId: string): string {
+    return `${this.STORAGE_KEY}:${listId}`;
+  }
+
+  /**
+   * この端末のIDを取得する（初回は作成して保存する）
+   */
+  static getReplicaId(): string {
+    const stored = StorageService.getItem(this.REPLICA_KEY);
+    if (stored) return stored;
+
+    const replica = crypto.randomUUID();
+    StorageService.setItem(this.REPLICA_KEY, replica);
+    return replica;
+  }
+
+  /**
+   * 空の状態を作成する
+   */
+  static createEmptyState(): CrdtState {
+    return { elements: {} };
+  }
+
+  /**
+   * 2つの状態をマージする（可換・結合的・冪等）
+   * - タグは和集合、レジスタは日時の新しい方（同じ日時の場合は端末ID・値で決める）を採用する
+   * @param a 状態
+   * @param b 状態
+   * @returns マージ後の状態
+   */
+  static merge(a: CrdtState, b: CrdtState): CrdtState {
+    const ids = new Set([...Object.keys(a.elements), ...Object.keys(b.elements)]);
+    const elements: Record<string, CrdtElement> = {};
+
+    ids.forEach(id => {
+      const x = a.elements[id];
+      const y = b.elements[id];
+      if (!x || !y) {
+        elements[id] = this.normalizeElement((x ?? y)!);
+        return;
+      }
+
+      const fields: Record<string, CrdtRegister> = {};
+      new Set([...Object.keys(x.fields), ...Object.keys(y.fields)]).forEach(key => {
+        const [mine, theirs] = [x.fields[key], y.fields[key]];
+        fields[key] = mine && theirs ? pickRegister(mine, theirs) : (mine ?? theirs);
+      });
+
+      elements[id] = {
+        adds: unionTags(x.adds, y.adds),
+        removes: unionTags(x.removes, y.removes),
+        fields: sortKeys(fields),
+      };
+    });
+
+    return { elements: sortKeys(elements) };
+  }
+
+  /**
+   * 現在のTODOリストとの差分を状態に取り込む
+   * - 新しいTODO・削除後に戻ったTODO・変更されたTODOには新しいタグを付ける
+   * - 変更されたフィールドのレジスタは、TODOの更新日時で書き込む（取り込み済みの値より後の日時にする）
+   * - なくなったTODOは、観測していたタグを削除済みにする
+   * @param state 保存していた状態
+   * @param todos 現在のTODOリスト
+   * @param replica この端末のID
+   * @param createTag タグの生成
+   * @returns 差分を取り込んだ状態
+   */
+  static reconcile(
+    state: CrdtState,
+    todos: Todo[],
+    replica: string,
+    createTag: () => string = () => crypto.randomUUID()
+  ): CrdtState {
+    const elements: Record<string, CrdtElement> = { ...state.elements };
+    const currentIds = new Set(todos.map(todo => todo.id));
+
+    todos.forEach(todo => {
+      const element = elements[todo.id] ?? { adds: [], removes: [], fields: {} };
+      const isPresent = this.isPresent(element);
+      const fields = { ...element.fields };
+      let isChanged = !isPresent;
+
+      Object.entries(FIELD_GROUPS).forEach(([key, keys]) => {
+        const value = pickFields(todo, keys);
+        if (isPresent && fields[key] && toComparable(fields[key].value) === toComparable(value)) return;
+
+        // 取り込み済みの値を見た後の変更なので、取り込み済みの日時より後にする
+        const previous = fields[key] ? Date.parse(fields[key].timestamp) + 1 : 0;
+        const timestamp = new Date(Math.max(todo.updatedAt.getTime(), previous)).toISOString();
+        fields[key] = { value, timestamp, replica };
+        isChanged = true;
+      });
+
+      if (isChanged) {
+        elements[todo.id] = {
+          adds: unionTags(element.adds, [createTag()]),
+          removes: element.removes,
+          fields: sortKeys(fields),
+        };
+      }
+    });
+
+    Object.entries(state.elements).forEach(([id, element]) => {
+      if (!currentIds.has(id) && this.isPresent(element)) {
+        elements[id] = { ...element, removes: unionTags(element.removes, element.adds) };
+      }
+    });
+
+    return { elements: sortKeys(elements) };
+  }
+
+  /**
+   * 状態から存在するTODOのレコード（JSON）を作り、位置の順に並べる
+   * TODOへの復元はTodoService.materializeCrdtStateで行う
+   * @param state 状態
+   * @returns TODOのレコード
+   */
+  static toRecords(state: CrdtState): Record<string, unknown>[] {
+    const position = (record: Record<string, unknown>) =>
+      typeof record.position === 'number' ? record.position : Number.MAX_VALUE;
+
+    return Object.entries(state.elements)
+      .filter(([, element]) => this.isPresent(element))
+      .map(([id, element]) => {
+        const record: Record<string, unknown> = { id };
+        Object.keys(FIELD_GROUPS).forEach(key => {
+          const value = element.fields[key]?.value;
+          if (value && typeof value === 'object') {
+            Object.assign(record, value);
+          }
+        });
+        return record;
+      })
+      .sort((a, b) => position(a) - position(b) || (String(a.id) < String(b.id) ? -1 : 1));
+  }
+
+  /**
+   * リストの状態を読み込む
+   * @param listId リストID
+   * @returns 状態（保存されていない・読み込めない場合は空の状態）
+   */
+  static loadState(listId: string): CrdtState {
+    const stored = StorageService.getItem(this.getStorageKey(listId));
+    if (stored === null) return this.createEmptyState();
+
+    try {
+      return this.parseState(JSON.parse(stored));
+    } catch (error) {
+      console.error('統合用の状態を読み込めませんでした:', error);
+      return this.createEmptyState();
+    }
+  }
+
+  /**
+   * リストの状態を保存する
+   * @param listId リストID
+   * @param state 状態
+   */
+  static saveState(listId: string, state: CrdtState): void {
+    StorageService.setItem(this.getStorageKey(listId), JSON.stringify(state));
+  }
+
+  /**
+   * リストの状態を削除する（リスト削除時に使用）
+   * @param listId リストID
+   */
+  static clearState(listId: string): void {
+    StorageService.removeItem(this.getStorageKey(listId));
+  }
+
+  /**
+   * 状態を書き出すファイルの内容を作成する
+   * @param state 状態
+   * @param listName リスト名
+   * @param replica この端末のID
+   * @returns ファイルの内容（JSON）
+   */
+  static toFile(state: CrdtState, listName: string, replica: string): string {
+    const file: CrdtSnapshotFile = {
+      format: this.FILE_FORMAT,
+      version: this.FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      replica,
+      listName,
+      state,
+    };
+    return JSON.stringify(file);
+  }
+
+  /**
+   * 書き出したファイルの内容を読み込む
+   * @param content ファイルの内容
+   * @returns ファイルの内容
+   * @throws 形式が正しくない場合
+   */
+  static parseFile(content: string): CrdtSnapshotFile {
+    let data: Partial<CrdtSnapshotFile>;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('ファイルをJSONとして読み込めませんでした');
+    }
+
+    if (data?.format !== this.FILE_FORMAT) {
+      throw new Error('他の端末から書き出した統合用のファイルではありません');
+    }
+    if (typeof data.version !== 'number' || data.version > this.FILE_VERSION) {
+      throw new Error('新しいバージョンのアプリで書き出したファイルのため読み込めません');
+    }
+
+    return {
+      format: this.FILE_FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      replica: typeof data.replica === 'string' ? data.replica : '',
+      listName: typeof data.listName === 'string' ? data.listName : '',
+      state: this.parseState(data.state),
+    };
+  }
+
+  /**
+   * 書き出すファイル名を生成する
+   * @param listName リスト名
+   */
+  static getFileName(listName: string): string {
+    const safeName = listName.replace(/[\\/:*?"<>|\s]+/g, '_');
+    const date = new Date().toISOString().slice(0, 10);
+    return `${safeName}-device-${date}.json`;
+  }
+
+  /**
+   * 保存・読み込みした値を状態として検証する
+   * @throws 形式が正しくない場合
+   */
+  private static parseState(data: unknown): CrdtState {
+    const elements = (data as Partial<CrdtState> | null)?.elements;
+    if (!elements || typeof elements !== 'object' || Array.isArray(elements)) {
+      throw new Error('統合用のデータの形式が正しくありません');
+    }
+
+    const isTagList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(isNonEmptyString);
+    const isRegister = (value: unknown): value is CrdtRegister => {
+      const register = (value ?? {}) as Partial<CrdtRegister>;
+      return (
+        typeof register.timestamp === 'string' &&
+        !Number.isNaN(Date.parse(register.timestamp)) &&
+        typeof register.replica === 'string' &&
+        'value' in register
+      );
+    };
+
+    const parsed: Record<string, CrdtElement> = {};
+    Object.entries(elements as Record<string, Partial<CrdtElement>>).forEach(([id, element]) => {
+      if (
+        !isNonEmptyString(id) ||
+        !isTagList(element?.adds) ||
+        !isTagList(element.removes) ||
+        !element.fields ||
+        typeof element.fields !== 'object' ||
+        !Object.values(element.fields).every(isRegister)
+      ) {
+        throw new Error('統合用のデータの形式が正しくありません');
+      }
+
+      // 日時の表記を揃える（同じ日時の表記の違いでマージの結果が変わらないようにする）
+      const fields = Object.fromEntries(
+        Object.entries(element.fields as Record<string, CrdtRegister>).map(([key, register]) => [
+          key,
+          { value: register.value, timestamp: new Date(register.timestamp).toISOString(), replica: register.replica },
+        ])
+      );
+      parsed[id] = this.normalizeElement({ adds: element.adds, removes: element.removes, fields });
+    });
+
+    return { elements: sortKeys(parsed) };
+  }
+
+  /**
+   * 要素のタグ・フィールドを並べ替える
+   */
+  private static normalizeElement(element: CrdtElement): CrdtElement {
+    return {
+      adds: unionTags(element.adds, []),
+      removes: unionTags(element.removes, []),
+      fields: sortKeys(element.fields),
+    };
+  }
+
+  /**
+   * 削除されていないタグが残っているか（TODOが存在するか）判定する
+   */
+  private static isPresent(element: CrdtElement): boolean {
+    const removes = new Set(element.removes);
+    return element.adds.some(tag => !removes.has(tag));
+  }
+}
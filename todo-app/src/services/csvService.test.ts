@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { CsvService } from './csvService';
+
+/**
+ * 期限の日時だけを指定した行を読み込む
+ */
+const importDueDate = (dueDate: string) =>
+  CsvService.importRows([['買い物', dueDate]], { title: 0, dueDate: 1 }, [], new Date('2026-01-01T00:00:00Z'));
+
+describe('CsvService.importRows', () => {
+  it.each(['2024-13-01', '2024-00-10', '2024/02/30', '2024-01-01 24:00'])(
+    '存在しない日時（%s）は繰り上げずに不正な行として報告する',
+    dueDate => {
+      const result = importDueDate(dueDate);
+
+      expect(result.added).toBe(0);
+      expect(result.errors).toEqual([{ row: 2, title: '買い物', errors: ['期限の日時が正しくありません'] }]);
+    }
+  );
+
+  it.each(['1', 'tomorrow', 'Jan 5 2026', '2024-02-30T10:00:00Z'])(
+    'ISO 8601形式でない日時（%s）は不正な行として報告する',
+    dueDate => {
+      expect(importDueDate(dueDate).errors).toHaveLength(1);
+    }
+  );
+
+  it('日付のみ・表計算ソフトの形式・ISO 8601形式の日時を読み込む', () => {
+    const result = CsvService.importRows(
+      [
+        ['日付のみ', '2024-02-29'],
+        ['表計算ソフト', '2024/3/5 9:30'],
+        ['ISO 8601', '2024-12-31T15:00:00.000Z'],
+      ],
+      { title: 0, dueDate: 1 },
+      []
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.todos.map(todo => [todo.dueDate, todo.hasDueTime])).toEqual([
+      [new Date(2024, 1, 29), false],
+      [new Date(2024, 2, 5, 9, 30), true],
+      [new Date('2024-12-31T15:00:00.000Z'), true],
+    ]);
+  });
+});
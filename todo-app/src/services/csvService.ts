@@ -0,0 +1,521 @@
+import { Todo, Subtask, RecurrenceRule, PRIORITY_LABELS, TODO_PRIORITIES, isValidDate, isValidPriority, toDateInputValue } from '@/types';
+import { TodoService } from './todoService';
+import { RecurrenceService } from './recurrenceService';
+
+/**
+ * CSVの列として扱うTODOのフィールド（書き出し時の列順）
+ */
+export const CSV_FIELDS = [
+  'id',
+  'title',
+  'completed',
+  'priority',
+  'tags',
+  'subtasks',
+  'autoCompleteWithSubtasks',
+  'dueDate',
+  'hasDueTime',
+  'recurrence',
+  'createdAt',
+  'updatedAt',
+  'position',
+] as const;
+
+/**
+ * CSVの列として扱うTODOのフィールド
+ */
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+/**
+ * CSVの列の対応付け（フィールドごとの列番号、対応する列がないフィールドは省略）
+ */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * 読み込めなかった行の報告
+ */
+export interface CsvRowError {
+  /** 行番号（見出し行を1行目とする、表計算ソフトでの行番号） */
+  row: number;
+  /** 行のタイトル（読み取れた場合） */
+  title?: string;
+  /** 読み込めなかった理由 */
+  errors: string[];
+}
+
+/**
+ * CSVの読み込み結果
+ */
+export interface CsvImportResult {
+  /** 読み込み後のTODOリスト */
+  todos: Todo[];
+  /** 追加したTODOの件数 */
+  added: number;
+  /** IDが一致して更新したTODOの件数 */
+  updated: number;
+  /** 読み込めなかった行 */
+  errors: CsvRowError[];
+}
+
+/** Excelで文字化けしないように先頭に付けるBOM */
+const BOM = '\uFEFF';
+
+/** 真偽値として受け付ける表記 */
+const TRUE_VALUES = ['true', '1', 'yes', 'y', '完了', '済', '○', '✓'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', '未完了', '未', '×', ''];
+
+/** サブタスクの1行の表記（「[x] タイトル」または「[ ] タイトル」） */
+const SUBTASK_PATTERN = /^\[( |x|X)\]\s*(.*)$/;
+
+/** 日付のみ・表計算ソフトの「YYYY/MM/DD HH:mm」形式の日時（ローカル時刻） */
+const LOCAL_DATE_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/** ISO 8601形式の日時（書き出した日時など） */
+const ISO_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?(?:Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * 表計算ソフトで数式として扱われる先頭の文字
+ * 元から「'」で始まる値も読み込み時に元に戻せるよう、先頭の「'」の後に続く場合を含める
+ */
+const FORMULA_PREFIX_PATTERN = /^'*[=+\-@\t\r]/;
+
+/** 数値（負の並び順など、数式として扱われても問題のない値） */
+const NUMBER_PATTERN = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * 値をCSVのセルの表記にする（カンマ・引用符・改行を含む場合は引用符で囲む）
+ * 「=」「+」「-」「@」などで始まる値は、表計算ソフトで数式として実行されないよう先頭に「'」を付ける（CSVインジェクション対策）
+ */
+const escapeCell = (value: string): string => {
+  const safe = FORMULA_PREFIX_PATTERN.test(value) && !NUMBER_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * 書き出し時に数式の実行を防ぐために付けた先頭の「'」を取り除く
+ */
+const unescapeFormula = (value: string): string =>
+  /^'+[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+
+/**
+ * CSV形式での書き出し・読み込みを提供するサービスクラス
+ * 表計算ソフト（Excel・Googleスプレッドシート）との受け渡しに使用する
+ */
+export class CsvService {
+  /** 列の表示名（見出しの推測にも使用） */
+  static readonly FIELD_LABELS: Record<CsvField, string> = {
+    id: 'ID',
+    title: 'タイトル',
+    completed: '完了',
+    priority: '優先度',
+    tags: 'タグ',
+    subtasks: 'サブタスク',
+    autoCompleteWithSubtasks: 'サブタスク完了時に自動完了',
+    dueDate: '期限',
+    hasDueTime: '期限の時刻指定',
+    recurrence: '繰り返し',
+    createdAt: '作成日時',
+    updatedAt: '更新日時',
+    position: '並び順',
+  };
+
+  /**
+   * TODOリストをCSVに変換する
+   * 日時はISO 8601形式、タグはカンマ区切り、サブタスクは1行1項目、繰り返しはJSONで表す
+   * @param todos TODOリスト
+   * @returns CSV文字列（BOM付き、改行はCRLF）
+   */
+  static toCsv(todos: Todo[]): string {
+    const rows = [
+      [...CSV_FIELDS],
+      ...todos.map(todo => CSV_FIELDS.map(field => this.formatField(todo, field))),
+    ];
+
+    return BOM + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * CSVのファイル名を生成する
+   * @param listName リスト名
+   * @param now 書き出し日時
+   * @returns ファイル名
+   */
+  static getFileName(listName: string, now: Date = new Date()): string {
+    const safeName = listName.replace(/[\\/:*?"<>|\s]+/g, '_');
+    return `kiro-todo-${safeName}-${toDateInputValue(now)}.csv`;
+  }
+
+  /**
+   * CSV文字列を行とセルに分解する（引用符で囲まれたカンマ・改行に対応）
+   * @param text CSV文字列
+   * @returns 行ごとのセルの配列（空行は除く）
+   * @throws 引用符が閉じられていない場合
+   */
+  static parse(text: string): string[][] {
+    const input = text.startsWith(BOM) ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+      row.push(cell);
+      // 空行は読み飛ばす
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+      }
+      row = [];
+      cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        endRow();
+      } else {
+        cell += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('引用符（"）が閉じられていないため、CSVとして読み込めません');
+    }
+    if (cell !== '' || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+
+  /**
+   * 見出し行から列の対応付けを推測する（フィールド名または表示名が一致する列を対応付ける）
+   * @param header 見出し行
+   * @returns 列の対応付け
+   */
+  static guessMapping(header: string[]): CsvColumnMapping {
+    const normalize = (value: string) => value.trim().toLowerCase();
+    const mapping: CsvColumnMapping = {};
+
+    CSV_FIELDS.forEach(field => {
+      const candidates = [field, this.FIELD_LABELS[field]].map(normalize);
+      const index = header.findIndex(name => candidates.includes(normalize(name)));
+      if (index >= 0) {
+        mapping[field] = index;
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * CSVの行をTODOとして読み込む
+   * IDが既存のTODOと一致する行は更新し、それ以外は追加する
+   * 不正な行は読み込まずに理由を報告する（ファイル全体は失敗させない）
+   * @param rows 見出し行を除いたCSVの行
+   * @param mapping 列の対応付け（タイトルの列は必須）
+   * @param existingTodos 読み込み先のTODOリスト
+   * @param now 読み込み日時
+   * @returns 読み込み後のTODOリストと読み込み結果
+   */
+  static importRows(
+    rows: string[][],
+    mapping: CsvColumnMapping,
+    existingTodos: Todo[],
+    now: Date = new Date()
+  ): CsvImportResult {
+    const result: CsvImportResult = { todos: [...existingTodos], added: 0, updated: 0, errors: [] };
+    const seenIds = new Set<string>();
+    let nextPosition =
+      existingTodos.length > 0 ? Math.max(...existingTodos.map(todo => todo.position)) + 1 : 0;
+
+    rows.forEach((cells, index) => {
+      // 見出し行の次の行を2行目とする
+      const rowNumber = index + 2;
+      const read = (field: CsvField): string | undefined => {
+        const column = mapping[field];
+        return column === undefined ? undefined : unescapeFormula(cells[column] ?? '').trim();
+      };
+
+      const { todo, errors } = this.parseRow(read, now);
+      const id = read('id');
+      if (id && seenIds.has(id)) {
+        errors.push('IDが他の行と重複しています');
+      }
+
+      if (errors.length > 0 || !todo) {
+        result.errors.push({ row: rowNumber, title: read('title') || undefined, errors });
+        return;
+      }
+
+      const existingIndex = id ? result.todos.findIndex(item => item.id === id) : -1;
+      if (id) seenIds.add(id);
+
+      if (existingIndex >= 0) {
+        // 既存のTODOは対応付けられた列のフィールドだけを更新し、それ以外は元の値のまま残す
+        const fields = CSV_FIELDS.filter(field => field !== 'id' && mapping[field] !== undefined);
+        if (mapping.dueDate !== undefined) fields.push('hasDueTime');
+        result.todos[existingIndex] = {
+          ...result.todos[existingIndex],
+          // 更新日時の列がない場合は読み込み日時を更新日時にする
+          updatedAt: now,
+          ...Object.fromEntries(fields.map(field => [field, todo[field]])),
+        };
+        result.updated++;
+      } else {
+        result.todos.push({
+          ...todo,
+          id: id || crypto.randomUUID(),
+          // 並び順の指定がない場合は既存のTODOの後ろに並べる
+          position: read('position') ? todo.position : nextPosition++,
+        });
+        result.added++;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * 1行分の値をTODOに変換する
+   */
+  private static parseRow(
+    read: (field: CsvField) => string | undefined,
+    now: Date
+  ): { todo: Todo | null; errors: string[] } {
+    const errors: string[] = [];
+
+    const title = read('title') ?? '';
+    const titleValidation = TodoService.validateTodoTitle(title);
+    if (!titleValidation.isValid) {
+      errors.push(titleValidation.error ?? 'タイトルが正しくありません');
+    }
+
+    const completed = this.parseBoolean(read('completed'));
+    if (completed === null) errors.push('完了状態が正しくありません');
+
+    const autoComplete = this.parseBoolean(read('autoCompleteWithSubtasks'));
+    if (autoComplete === null) errors.push('サブタスク完了時に自動完了の値が正しくありません');
+
+    const priority = this.parsePriority(read('priority'));
+    if (priority === null) errors.push('優先度が正しくありません');
+
+    const tags = (read('tags') ?? '').split(',').filter(tag => tag.trim());
+    tags.forEach(tag => {
+      const validation = TodoService.validateTag(tag);
+      if (!validation.isValid) errors.push(`タグ「${tag.trim()}」: ${validation.error}`);
+    });
+
+    const subtasks = this.parseSubtasks(read('subtasks'));
+    if (subtasks === null) errors.push('サブタスクのタイトルが正しくありません');
+
+    const due = this.parseDate(read('dueDate'));
+    if (due === null) errors.push('期限の日時が正しくありません');
+
+    const hasDueTime = this.parseBoolean(read('hasDueTime'));
+    if (hasDueTime === null) errors.push('期限の時刻指定の値が正しくありません');
+
+    const recurrence = this.parseRecurrence(read('recurrence'));
+    if (recurrence === null) errors.push('繰り返しの指定が正しくありません');
+
+    const createdAt = this.parseDate(read('createdAt'));
+    if (createdAt === null) errors.push('作成日時が正しくありません');
+
+    const updatedAt = this.parseDate(read('updatedAt'));
+    if (updatedAt === null) errors.push('更新日時が正しくありません');
+
+    const positionValue = read('position');
+    const position = positionValue ? Number(positionValue) : 0;
+    if (!Number.isFinite(position)) errors.push('並び順が正しくありません');
+
+    if (
+      errors.length > 0 ||
+      completed === null ||
+      autoComplete === null ||
+      priority === null ||
+      subtasks === null ||
+      due === null ||
+      hasDueTime === null ||
+      recurrence === null ||
+      createdAt === null ||
+      updatedAt === null
+    ) {
+      return { todo: null, errors };
+    }
+
+    const todo: Todo = {
+      id: '',
+      title: title.trim(),
+      completed: completed ?? false,
+      priority: priority ?? 'none',
+      tags: TodoService.normalizeTags(tags),
+      subtasks: subtasks ?? [],
+      createdAt: createdAt?.date ?? now,
+      updatedAt: updatedAt?.date ?? now,
+      position,
+    };
+
+    if (autoComplete) {
+      todo.autoCompleteWithSubtasks = true;
+    }
+    if (due) {
+      todo.dueDate = due.date;
+      // 時刻指定の列がない場合は、期限の値に時刻が含まれているかで判断する
+      todo.hasDueTime = hasDueTime ?? due.hasTime;
+    }
+    if (recurrence) {
+      todo.recurrence = recurrence;
+    }
+
+    return { todo, errors };
+  }
+
+  /**
+   * フィールドの値をセルの文字列に変換する
+   */
+  private static formatField(todo: Todo, field: CsvField): string {
+    switch (field) {
+      case 'tags':
+        return todo.tags.join(', ');
+      case 'subtasks':
+        return todo.subtasks
+          .map(subtask => `[${subtask.completed ? 'x' : ' '}] ${subtask.title}`)
+          .join('\n');
+      case 'dueDate':
+        if (!todo.dueDate) return '';
+        // 時刻指定のない期限は日付のみで表す
+        return todo.hasDueTime ? todo.dueDate.toISOString() : toDateInputValue(todo.dueDate);
+      case 'hasDueTime':
+        return todo.dueDate ? String(!!todo.hasDueTime) : '';
+      case 'autoCompleteWithSubtasks':
+        return String(!!todo.autoCompleteWithSubtasks);
+      case 'recurrence':
+        return todo.recurrence ? JSON.stringify(todo.recurrence) : '';
+      case 'createdAt':
+      case 'updatedAt':
+        return todo[field].toISOString();
+      default:
+        return String(todo[field]);
+    }
+  }
+
+  /**
+   * 真偽値を読み取る（空欄はundefined、不正な値はnull）
+   */
+  private static parseBoolean(value: string | undefined): boolean | undefined | null {
+    if (value === undefined || value === '') return undefined;
+
+    const normalized = value.toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) return true;
+    if (FALSE_VALUES.includes(normalized)) return false;
+    return null;
+  }
+
+  /**
+   * 優先度を読み取る（値または表示名、空欄はundefined、不正な値はnull）
+   */
+  private static parsePriority(value: string | undefined): Todo['priority'] | undefined | null {
+    if (value === undefined || value === '') return undefined;
+
+    const normalized = value.toLowerCase();
+    if (isValidPriority(normalized)) return normalized;
+    return TODO_PRIORITIES.find(priority => PRIORITY_LABELS[priority] === value) ?? null;
+  }
+
+  /**
+   * 日時を読み取る（空欄はundefined、不正な値はnull）
+   * 日付のみ・表計算ソフトの「YYYY/MM/DD HH:mm」形式はローカル時刻として扱う
+   */
+  private static parseDate(value: string | undefined): { date: Date; hasTime: boolean } | undefined | null {
+    if (value === undefined || value === '') return undefined;
+
+    const local = LOCAL_DATE_PATTERN.exec(value);
+    if (local) {
+      const [, year, month, day, hours, minutes, seconds] = local;
+      // 存在しない日付（13月・2月30日など）・時刻は不正とする（Dateは繰り上げて別の日時にしてしまう）
+      if (
+        !this.isExistingDate(Number(year), Number(month), Number(day)) ||
+        Number(hours ?? 0) > 23 ||
+        Number(minutes ?? 0) > 59 ||
+        Number(seconds ?? 0) > 59
+      ) {
+        return null;
+      }
+
+      const date = new Date(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hours ?? 0),
+        Number(minutes ?? 0),
+        Number(seconds ?? 0)
+      );
+      return { date, hasTime: hours !== undefined };
+    }
+
+    // それ以外はISO 8601形式のみ受け付ける（Dateは「1」などの値も日時として読み取ってしまう）
+    const iso = ISO_DATE_TIME_PATTERN.exec(value);
+    if (!iso || !this.isExistingDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))) return null;
+
+    const date = new Date(value);
+    return isValidDate(date) ? { date, hasTime: true } : null;
+  }
+
+  /**
+   * 存在する日付か判定する
+   * @param month 月（1〜12）
+   */
+  private static isExistingDate(year: number, month: number, day: number): boolean {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }
+
+  /**
+   * サブタスクを読み取る（1行1項目、空欄はundefined、不正な値はnull）
+   */
+  private static parseSubtasks(value: string | undefined): Subtask[] | undefined | null {
+    if (value === undefined || value === '') return undefined;
+
+    const subtasks = value
+      .split(/\r?\n/)
+      .filter(line => line.trim())
+      .map(line => {
+        const match = SUBTASK_PATTERN.exec(line.trim());
+        return {
+          id: crypto.randomUUID(),
+          title: (match ? match[2] : line).trim(),
+          completed: match ? match[1] !== ' ' : false,
+        };
+      });
+
+    return subtasks.every(subtask => TodoService.validateTodoTitle(subtask.title).isValid) ? subtasks : null;
+  }
+
+  /**
+   * 繰り返しルールを読み取る（JSON形式、空欄はundefined、不正な値はnull）
+   */
+  private static parseRecurrence(value: string | undefined): RecurrenceRule | undefined | null {
+    if (value === undefined || value === '') return undefined;
+
+    try {
+      return RecurrenceService.deserializeRule(JSON.parse(value)) ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { Todo, EmailData, isValidEmail } from '@/types';
+
+/**
+ * mailto: URL生成結果の型
+ */
+export interface MailtoResult {
+  /** 生成されたmailto: URL */
+  url: string;
+  /** 本文が長さ制限のために切り詰められたかどうか */
+  truncated: boolean;
+}
+
+/**
+ * TODOリストのメール送信機能を提供するサービスクラス（要件7）
+ */
+export class EmailService {
+  /** 多くのブラウザ・メールクライアントで安全に扱えるmailto: URLの最大長 */
+  static readonly MAX_MAILTO_LENGTH = 2000;
+
+  /** 本文を切り詰めた際に末尾へ付加する文言 */
+  static readonly TRUNCATION_NOTICE = '\n\n…（文字数制限のため以下省略）';
+
+  /** 件名の初期値 */
+  static readonly DEFAULT_SUBJECT = 'TODOリスト';
+
+  /**
+   * TODOリストをメール本文用にフォーマットする（要件7.3, 7.6）
+   * 未完了と完了済みのタスクをセクションに分けて表示する
+   * @param todos TODOリスト
+   * @returns メール本文
+   */
+  static formatTodoList(todos: Todo[]): string {
+    if (todos.length === 0) {
+      return 'TODOはありません。';
+    }
+
+    const activeTodos = todos.filter(todo => !todo.completed);
+    const completedTodos = todos.filter(todo => todo.completed);
+
+    const lines: string[] = [
+      `TODOリスト（全${todos.length}件 / 未完了${activeTodos.length}件 / 完了済み${completedTodos.length}件）`,
+      '',
+      `■ 未完了（${activeTodos.length}件）`,
+    ];
+
+    if (activeTodos.length === 0) {
+      lines.push('  なし');
+    } else {
+      activeTodos.forEach(todo => lines.push(`  [ ] ${todo.title}`));
+    }
+
+    lines.push('', `■ 完了済み（${completedTodos.length}件）`);
+
+    if (completedTodos.length === 0) {
+      lines.push('  なし');
+    } else {
+      completedTodos.forEach(todo => lines.push(`  [x] ${todo.title}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * メールデータを生成する（要件7.3）
+   * @param todos TODOリスト
+   * @param recipient 宛先メールアドレス
+   * @param subject 件名
+   * @returns メールデータ
+   */
+  static generateEmailContent(
+    todos: Todo[],
+    recipient: string = '',
+    subject: string = this.DEFAULT_SUBJECT
+  ): EmailData {
+    return {
+      recipient: recipient.trim(),
+      subject,
+      body: this.formatTodoList(todos),
+    };
+  }
+
+  /**
+   * メールデータの検証（要件7.5）
+   * @param emailData メールデータ
+   * @returns 検証結果
+   */
+  static validateEmailData(emailData: EmailData): { isValid: boolean; error?: string } {
+    const recipient = emailData.recipient.trim();
+
+    if (!recipient) {
+      return { isValid: false, error: '宛先は必須です' };
+    }
+
+    if (!isValidEmail(recipient)) {
+      return { isValid: false, error: '宛先のメールアドレスの形式が正しくありません' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * mailto: URLを生成する（要件7.4）
+   * URLが長さ制限を超える場合は本文を切り詰める
+   * @param emailData メールデータ
+   * @returns mailto: URLと切り詰めの有無
+   */
+  static buildMailtoUrl(emailData: EmailData): MailtoResult {
+    const base = `mailto:${encodeURIComponent(emailData.recipient.trim())}`;
+    const build = (body: string) => {
+      const params = [
+        `subject=${encodeURIComponent(emailData.subject)}`,
+        `body=${encodeURIComponent(body)}`,
+      ];
+      return `${base}?${params.join('&')}`;
+    };
+
+    const fullUrl = build(emailData.body);
+    if (fullUrl.length <= this.MAX_MAILTO_LENGTH) {
+      return { url: fullUrl, truncated: false };
+    }
+
+    // サロゲートペアを分断しないようコードポイント単位で扱う
+    const chars = Array.from(emailData.body);
+    const fits = (count: number) =>
+      build(chars.slice(0, count).join('') + this.TRUNCATION_NOTICE).length <=
+      this.MAX_MAILTO_LENGTH;
+
+    // 制限内に収まる最長の文字数を二分探索で求める
+    let low = 0;
+    let high = chars.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(mid)) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    // 行の途中で切れないよう、可能であれば直前の改行位置で切り詰める
+    let truncatedBody = chars.slice(0, low).join('');
+    const lastNewline = truncatedBody.lastIndexOf('\n');
+    if (lastNewline > truncatedBody.length / 2) {
+      truncatedBody = truncatedBody.slice(0, lastNewline);
+    }
+
+    return {
+      url: build(truncatedBody.trimEnd() + this.TRUNCATION_NOTICE),
+      truncated: true,
+    };
+  }
+
+  /**
+   * mailto: リンクでメールクライアントを開く（要件7.4）
+   * @param emailData メールデータ
+   * @returns mailto: URLと切り詰めの有無
+   */
+  static openEmailClient(emailData: EmailData): MailtoResult {
+    const validation = this.validateEmailData(emailData);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+
+    const result = this.buildMailtoUrl(emailData);
+
+    if (typeof window === 'undefined') {
+      console.warn('ブラウザ環境以外ではメールクライアントを開けません');
+      return result;
+    }
+
+    window.location.href = result.url;
+    return result;
+  }
+}
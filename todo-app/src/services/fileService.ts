@@ -0,0 +1,41 @@
+/**
+ * ファイルのダウンロード・読み込みを提供するサービスクラス
+ */
+export class FileService {
+  /**
+   * 文字列をファイルとしてダウンロードさせる
+   * @param content ファイルの内容
+   * @param fileName ファイル名
+   * @param mimeType MIMEタイプ
+   */
+  static download(content: string, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    try {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } finally {
+      // ダウンロードの開始後に解放する
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+  }
+
+  /**
+   * ファイルの内容を文字列として読み込む
+   * @param file 読み込むファイル
+   * @returns ファイルの内容
+   */
+  static async readAsText(file: File): Promise<string> {
+    try {
+      return await file.text();
+    } catch (error) {
+      console.error('ファイルの読み込みに失敗しました:', error);
+      throw new Error('ファイルを読み込めませんでした');
+    }
+  }
+}
@@ -0,0 +1,441 @@
+import { Todo, TodoPriority, RecurrenceRule, isValidDate, toDateInputValue } from '@/types';
+import { TodoService } from './todoService';
+import { RecurrenceService } from './recurrenceService';
+import packageJson from '../../package.json';
+
+/**
+ * 読み込めなかったVTODOの報告
+ */
+export interface IcalTodoError {
+  /** VTODOのUID（ある場合） */
+  uid?: string;
+  /** VTODOのSUMMARY（ある場合） */
+  summary?: string;
+  /** 読み込めなかった理由 */
+  message: string;
+}
+
+/**
+ * iCalendarの読み込み結果
+ */
+export interface IcalImportResult {
+  /** 読み込み後のTODOリスト */
+  todos: Todo[];
+  /** 追加したTODOの件数 */
+  added: number;
+  /** UIDが一致して更新したTODOの件数 */
+  updated: number;
+  /** 読み飛ばしたVTODO以外のコンポーネント（VEVENTなど）の件数 */
+  skippedComponents: number;
+  /** 読み込めなかったVTODO */
+  errors: IcalTodoError[];
+}
+
+/**
+ * 読み取ったコンテンツ行（プロパティ）
+ */
+interface IcalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** 1行の最大長（改行を除くオクテット数） */
+const MAX_LINE_OCTETS = 75;
+
+/** RRULEの曜日（0: 日曜 〜 6: 土曜） */
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** 優先度とPRIORITYの値（1が最も高く、9が最も低い） */
+const PRIORITY_VALUES: Record<Exclude<TodoPriority, 'none'>, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * 文字のUTF-8でのオクテット数を求める
+ */
+const getOctets = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * 75オクテットを超える行を折り返す（続きの行は空白で始める、文字の途中では分割しない）
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  // 続きの行は先頭の空白の分だけ短くする
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = getOctets(char);
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * TEXT型の値をエスケープする
+ */
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * TEXT型の値のエスケープを戻す
+ */
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * 日時をUTCの DATE-TIME 型（YYYYMMDDTHHMMSSZ）にする
+ */
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * 日付を DATE 型（YYYYMMDD）にする
+ */
+const formatDate = (date: Date): string => toDateInputValue(date).replace(/-/g, '');
+
+/**
+ * iCalendar（RFC 5545）のVTODOでの書き出し・読み込みを提供するサービスクラス
+ * サブタスクはVTODOで表せないため書き出さない
+ */
+export class IcalService {
+  /** 製品識別子 */
+  static readonly PRODID = `-//kiro-todo//kiro-todo ${packageJson.version}//JA`;
+
+  /**
+   * TODOリストをiCalendar形式に変換する
+   * @param todos TODOリスト
+   * @param listName リスト名（カレンダー名として使用）
+   * @param now 書き出し日時（DTSTAMPに使用）
+   * @returns iCalendar文字列（改行はCRLF）
+   */
+  static toIcs(todos: Todo[], listName: string, now: Date = new Date()): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${this.PRODID}`,
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${escapeText(listName)}`,
+      ...todos.flatMap(todo => this.formatVtodo(todo, now)),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * iCalendarのファイル名を生成する
+   * @param listName リスト名
+   * @param now 書き出し日時
+   * @returns ファイル名
+   */
+  static getFileName(listName: string, now: Date = new Date()): string {
+    const safeName = listName.replace(/[\\/:*?"<>|\s]+/g, '_');
+    return `kiro-todo-${safeName}-${toDateInputValue(now)}.ics`;
+  }
+
+  /**
+   * iCalendarのVTODOを読み込んでTODOにする
+   * UIDが既存のTODOと一致するVTODOはそのTODOを更新し、それ以外は追加する
+   * VTODO以外のコンポーネント（VEVENT・VJOURNAL・VTIMEZONEなど）と、VTODO内のVALARMは読み飛ばす
+   * @param text iCalendar文字列
+   * @param existingTodos 読み込み先のTODOリスト（追加したTODOは末尾に並べる）
+   * @param now 読み込み日時
+   * @returns 読み込み後のTODOリストと読み込み結果
+   * @throws iCalendar形式でない場合
+   */
+  static importIcs(text: string, existingTodos: Todo[], now: Date = new Date()): IcalImportResult {
+    const result: IcalImportResult = {
+      todos: [...existingTodos],
+      added: 0,
+      updated: 0,
+      skippedComponents: 0,
+      errors: [],
+    };
+    let nextPosition =
+      existingTodos.length > 0 ? Math.max(...existingTodos.map(todo => todo.position)) + 1 : 0;
+    const seenUids = new Set<string>();
+
+    this.parseVtodos(text, result).forEach(properties => {
+      const get = (name: string) => properties.find(property => property.name === name);
+      const uid = get('UID')?.value.trim();
+      const summaryProperty = get('SUMMARY');
+      const summary = summaryProperty ? unescapeText(summaryProperty.value) : undefined;
+
+      // 繰り返しの個別の回（RECURRENCE-ID付き）や同じUIDの重複は取り込まない
+      if (get('RECURRENCE-ID') || (uid && seenUids.has(uid))) {
+        return;
+      }
+      if (uid) seenUids.add(uid);
+
+      const { todo, error } = this.toTodo(get, summary ?? '', now);
+      if (!todo) {
+        result.errors.push({ uid, summary, message: error ?? 'VTODOを読み込めませんでした' });
+        return;
+      }
+
+      const existingIndex = uid ? result.todos.findIndex(item => item.id === uid) : -1;
+      if (existingIndex >= 0) {
+        // サブタスクや並び順など、VTODOで表せないフィールドは元の値のまま残す
+        const existing = result.todos[existingIndex];
+        result.todos[existingIndex] = {
+          ...existing,
+          ...todo,
+          id: existing.id,
+          subtasks: existing.subtasks,
+          position: existing.position,
+        };
+        result.updated++;
+      } else {
+        result.todos.push({ ...todo, id: uid || crypto.randomUUID(), position: nextPosition++ });
+        result.added++;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * TODOをVTODOの行にする
+   */
+  private static formatVtodo(todo: Todo, now: Date): string[] {
+    const lines = [
+      'BEGIN:VTODO',
+      `UID:${todo.id}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `CREATED:${formatDateTime(todo.createdAt)}`,
+      `LAST-MODIFIED:${formatDateTime(todo.updatedAt)}`,
+      `SUMMARY:${escapeText(todo.title)}`,
+      `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    ];
+
+    if (todo.priority !== 'none') {
+      lines.push(`PRIORITY:${PRIORITY_VALUES[todo.priority]}`);
+    }
+    if (todo.tags.length > 0) {
+      lines.push(`CATEGORIES:${todo.tags.map(escapeText).join(',')}`);
+    }
+    if (todo.dueDate) {
+      // 時刻指定のない期限はDATE型にする
+      const value = todo.hasDueTime
+        ? `:${formatDateTime(todo.dueDate)}`
+        : `;VALUE=DATE:${formatDate(todo.dueDate)}`;
+      lines.push(`DUE${value}`);
+      // 繰り返しの起点として期限を開始日にする（RRULEはDTSTARTを基準に展開される）
+      if (todo.recurrence) {
+        lines.push(`DTSTART${value}`, `RRULE:${this.formatRrule(todo.recurrence)}`);
+      }
+    }
+
+    lines.push('END:VTODO');
+    return lines;
+  }
+
+  /**
+   * 繰り返しルールをRRULEの値にする
+   */
+  private static formatRrule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+    if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+      parts.push(`BYDAY=${rule.weekdays.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+    }
+    if (rule.frequency === 'monthly' && rule.monthDay) {
+      parts.push(`BYMONTHDAY=${rule.monthDay}`);
+    }
+    return parts.join(';');
+  }
+
+  /**
+   * iCalendarを読み取り、VTODOごとのプロパティを取り出す
+   */
+  private static parseVtodos(text: string, result: IcalImportResult): IcalProperty[][] {
+    // 折り返された行を戻す
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim());
+    if (!/^BEGIN:VCALENDAR$/i.test(lines[0]?.trim() ?? '')) {
+      throw new Error('iCalendar形式（.ics）のファイルではありません');
+    }
+
+    const vtodos: IcalProperty[][] = [];
+    const stack: string[] = [];
+    let current: IcalProperty[] | null = null;
+
+    lines.forEach(line => {
+      const property = this.parseLine(line);
+      if (!property) return;
+
+      if (property.name === 'BEGIN') {
+        const component = property.value.toUpperCase();
+        // VCALENDAR直下のVTODOだけを取り込む
+        if (component === 'VTODO' && stack.length === 1) {
+          current = [];
+        } else if (stack.length === 1) {
+          result.skippedComponents++;
+        }
+        stack.push(component);
+      } else if (property.name === 'END') {
+        const component = stack.pop();
+        if (component === 'VTODO' && stack.length === 1 && current) {
+          vtodos.push(current);
+          current = null;
+        }
+      } else if (current && stack.length === 2) {
+        // VTODO内のVALARMなどのプロパティは含めない
+        current.push(property);
+      }
+    });
+
+    return vtodos;
+  }
+
+  /**
+   * コンテンツ行を名前・パラメーター・値に分解する（引用符内のコロン・セミコロンに対応）
+   */
+  private static parseLine(line: string): IcalProperty | null {
+    let inQuotes = false;
+    let colonIndex = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        colonIndex = i;
+        break;
+      }
+    }
+    if (colonIndex < 0) return null;
+
+    const [name, ...paramParts] = line.slice(0, colonIndex).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+    if (!name) return null;
+
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+      const [key, ...rest] = part.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    });
+
+    return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+  }
+
+  /**
+   * VTODOのプロパティをTODOにする
+   */
+  private static toTodo(
+    get: (name: string) => IcalProperty | undefined,
+    summary: string,
+    now: Date
+  ): { todo: Todo | null; error?: string } {
+    const validation = TodoService.validateTodoTitle(summary);
+    if (!validation.isValid) {
+      return { todo: null, error: `SUMMARY: ${validation.error}` };
+    }
+
+    const status = get('STATUS')?.value.toUpperCase();
+    const createdAt = this.parseDateValue(get('CREATED'))?.date ?? now;
+    const updatedAt = this.parseDateValue(get('LAST-MODIFIED'))?.date ?? createdAt;
+
+    const todo: Todo = {
+      id: '',
+      title: summary.trim(),
+      completed: status === 'COMPLETED' || !!get('COMPLETED'),
+      priority: this.toPriority(Number(get('PRIORITY')?.value)),
+      tags: TodoService.normalizeTags(
+        (get('CATEGORIES')?.value.split(/(?<!\\),/) ?? []).map(unescapeText)
+      ).filter(tag => TodoService.validateTag(tag).isValid),
+      subtasks: [],
+      createdAt,
+      updatedAt,
+      position: 0,
+    };
+
+    const due = this.parseDateValue(get('DUE'));
+    if (get('DUE') && !due) {
+      return { todo: null, error: 'DUE: 期限の日時が正しくありません' };
+    }
+    if (due) {
+      todo.dueDate = due.date;
+      todo.hasDueTime = due.hasTime;
+    }
+
+    const rrule = get('RRULE');
+    if (rrule) {
+      const recurrence = this.parseRrule(rrule.value);
+      // 表せない繰り返しルールは繰り返しなしとして取り込む
+      if (recurrence) todo.recurrence = recurrence;
+    }
+
+    return { todo };
+  }
+
+  /**
+   * DATE型・DATE-TIME型の値を読み取る（UTC以外の時刻はローカル時刻として扱う）
+   */
+  private static parseDateValue(property: IcalProperty | undefined): { date: Date; hasTime: boolean } | null {
+    if (!property) return null;
+
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    const parts = [Number(year), Number(month) - 1, Number(day)] as const;
+    const time = [Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)] as const;
+    const date = utc ? new Date(Date.UTC(...parts, ...time)) : new Date(...parts, ...time);
+
+    return isValidDate(date) ? { date, hasTime: hours !== undefined } : null;
+  }
+
+  /**
+   * PRIORITYの値を優先度にする（0・未指定は「なし」）
+   */
+  private static toPriority(value: number): TodoPriority {
+    if (!Number.isInteger(value) || value < 1 || value > 9) return 'none';
+    if (value === 1) return 'urgent';
+    if (value < 5) return 'high';
+    if (value === 5) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * RRULEの値を繰り返しルールにする（表せないルールはundefined）
+   */
+  private static parseRrule(value: string): RecurrenceRule | undefined {
+    const parts = Object.fromEntries(
+      value.split(';').map(part => {
+        const [key, ...rest] = part.split('=');
+        return [key.toUpperCase(), rest.join('=').toUpperCase()];
+      })
+    );
+
+    // 回数・終了日の指定や、「第2月曜日」のような指定は表せない
+    if (parts.COUNT || parts.UNTIL || parts.BYSETPOS) return undefined;
+
+    const rule: Record<string, unknown> = {
+      frequency: parts.FREQ?.toLowerCase(),
+      interval: parts.INTERVAL ? Number(parts.INTERVAL) : 1,
+    };
+    if (parts.BYDAY) {
+      const weekdays = parts.BYDAY.split(',').map((day: string) => RRULE_WEEKDAYS.indexOf(day));
+      if (weekdays.includes(-1)) return undefined;
+      rule.weekdays = weekdays;
+    }
+    if (parts.BYMONTHDAY) {
+      if (!/^\d+$/.test(parts.BYMONTHDAY)) return undefined;
+      rule.monthDay = Number(parts.BYMONTHDAY);
+    }
+
+    return RecurrenceService.deserializeRule(rule);
+  }
+}
@@ -1,2 +1,48 @@
 // サービスクラスをエクスポート
-export { TodoService } from './todoService';
\ No newline at end of file
+export { StorageService } from './storageService';
+export { IndexedDbAdapter, LocalStorageAdapter, MemoryStorageAdapter } from './storageAdapters';
+export { TodoService } from './todoService';
+export { ListService } from './listService';
+export { RecurrenceService } from './recurrenceService';
+export { SearchService } from './searchService';
+export { TrashService } from './trashService';
+export { EmailService } from './emailService';
+export { FileService } from './fileService';
+export { BackupService } from './backupService';
+export { CsvService, CSV_FIELDS } from './csvService';
+export { MarkdownService } from './markdownService';
+export { IcalService } from './icalService';
+export { TodoTxtService } from './todoTxtService';
+export { MergeService } from './mergeService';
+export { ChangeLogService } from './changeLogService';
+export { SyncService } from './syncService';
+export { CrdtService } from './crdtService';
+export { ShareService } from './shareService';
+export type {
+  Migration,
+  RestoreResult,
+  VersionedReadOptions,
+  VersionedReadResult,
+  QuarantineEntry,
+  StorageChange,
+} from './storageService';
+export type { StorageBackend, StorageAdapter } from './storageAdapters';
+export type { MailtoResult } from './emailService';
+export type { MatchRange } from './searchService';
+export type {
+  BackupFile,
+  BackupList,
+  BackupListDiff,
+  BackupRejectedRecord,
+  BackupImportResult,
+  ImportStrategy,
+} from './backupService';
+export type { CsvField, CsvColumnMapping, CsvRowError, CsvImportResult } from './csvService';
+export type { MarkdownExportOptions, MarkdownLineError, MarkdownImportResult } from './markdownService';
+export type { IcalTodoError, IcalImportResult } from './icalService';
+export type { TodoTxtLineError, TodoTxtImportResult } from './todoTxtService';
+export type { MergeResult } from './mergeService';
+export type { ChangeEntry, SyncRecordKind } from './changeLogService';
+export type { SyncRecord, SyncSettings, SyncResult } from './syncService';
+export type { CrdtRegister, CrdtElement, CrdtState, CrdtMergeResult, CrdtSnapshotFile } from './crdtService';
+export type { SharedSnapshot } from './shareService';
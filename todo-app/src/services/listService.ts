@@ -0,0 +1,365 @@
+import { TodoListMeta, isNonEmptyString, isValidDate } from '@/types';
+import { TodoService } from './todoService';
+import { StorageService, Migration, RestoreResult, VersionedReadOptions } from './storageService';
+import { ChangeLogService } from './changeLogService';
+
+/**
+ * 名前付きリスト（プロジェクト）の管理を提供するサービスクラス
+ */
+export class ListService {
+  /** リスト一覧の保存キー */
+  static readonly LISTS_KEY = 'todo-lists';
+
+  /** 選択中のリストIDの保存キー */
+  static readonly ACTIVE_LIST_KEY = 'todo-active-list';
+
+  /** 既定のリストのID（単一リスト時代のデータの移行先） */
+  static readonly DEFAULT_LIST_ID = 'default';
+
+  /** 既定のリストの名前 */
+  static readonly DEFAULT_LIST_NAME = 'マイリスト';
+
+  /** リスト名の最大文字数 */
+  static readonly MAX_NAME_LENGTH = 50;
+
+  /** 隔離などでリスト一覧が失われた場合に、残っているTODOから復元したリストの名前 */
+  static readonly RECOVERED_LIST_NAME = '復元したリスト';
+
+  /** 保存するリスト一覧のデータ構造のバージョン */
+  static readonly SCHEMA_VERSION = 1;
+
+  /**
+   * 保存されたリスト一覧の移行処理（バージョン順）
+   */
+  static readonly MIGRATIONS: Migration[] = [
+    {
+      version: 1,
+      description: 'バージョン管理導入前の配列をそのまま引き継ぐ',
+      migrate: data => {
+        if (!Array.isArray(data)) {
+          throw new Error('リスト一覧の形式が正しくありません');
+        }
+        return data;
+      },
+    },
+  ];
+
+  /**
+   * 既定のリストを作成する
+   * @returns 既定のリスト
+   */
+  static createDefaultList(): TodoListMeta {
+    return {
+      id: this.DEFAULT_LIST_ID,
+      name: this.DEFAULT_LIST_NAME,
+      archived: false,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * 新しいリストを作成する
+   * @param name リスト名
+   * @returns 作成されたリスト
+   */
+  static createList(name: string): TodoListMeta {
+    return {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      archived: false,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * リスト一覧をストレージから読み込む
+   * 初回読み込み時は単一リスト時代のデータを既定のリストへ移行する
+   * リスト一覧を読み込めなかった場合は、残っているTODOのキーからリストを復元する
+   * @returns リスト一覧
+   */
+  static loadLists(): TodoListMeta[] {
+    try {
+      if (!StorageService.isAvailable()) {
+        return [this.createDefaultList()];
+      }
+
+      if (StorageService.getItem(this.LISTS_KEY) === null) {
+        return this.migrateLegacyTodos();
+      }
+
+      const lists = StorageService.readVersioned(this.LISTS_KEY, this.getReadOptions()).value;
+      if (lists.length > 0) {
+        return lists;
+      }
+
+      const recovered = this.recoverLists();
+      if (recovered.length > 0) {
+        this.saveLists(recovered);
+        return recovered;
+      }
+      return [this.createDefaultList()];
+    } catch (error) {
+      console.error('リスト一覧の読み込みに失敗しました:', error);
+      return [this.createDefaultList()];
+    }
+  }
+
+  /**
+   * 保存されているリスト一覧が古い形式の場合は移行して保存し直し、
+   * 読み込めないデータは破棄せずに隔離する（起動時に描画の前に行う）
+   */
+  static repairStorage(): void {
+    StorageService.repairVersioned(this.LISTS_KEY, this.getReadOptions());
+  }
+
+  /**
+   * リスト一覧をストレージに保存する
+   * @param lists リスト一覧
+   */
+  static saveLists(lists: TodoListMeta[]): void {
+    try {
+      if (!StorageService.isAvailable()) {
+        console.warn('ストレージが利用できません');
+        return;
+      }
+
+      // 同期が有効な場合は、保存前と比べて変更・削除されたリストを記録する
+      if (ChangeLogService.isTracking()) {
+        const previous = StorageService.decodeVersioned(StorageService.getItem(this.LISTS_KEY), this.getReadOptions());
+        ChangeLogService.recordChanges('list', previous, lists);
+      }
+
+      StorageService.writeVersioned(this.LISTS_KEY, this.SCHEMA_VERSION, lists);
+    } catch (error) {
+      console.error('リスト一覧の保存に失敗しました:', error);
+      throw new Error('リスト一覧の保存に失敗しました');
+    }
+  }
+
+  /**
+   * 保存されたリスト一覧の読み込みの設定
+   */
+  private static getReadOptions(): VersionedReadOptions<TodoListMeta[]> {
+    return {
+      version: this.SCHEMA_VERSION,
+      migrations: this.MIGRATIONS,
+      restore: data => this.restoreLists(data),
+      fallback: [],
+    };
+  }
+
+  /**
+   * 移行後の保存データをリスト一覧に復元する
+   * @param data 移行後の保存データ
+   * @returns 復元されたリスト一覧と、復元できなかったリスト（理由付き）
+   * @throws 配列でない場合
+   */
+  static restoreLists(data: unknown): RestoreResult<TodoListMeta[]> {
+    if (!Array.isArray(data)) {
+      throw new Error('リスト一覧の形式が正しくありません');
+    }
+
+    const rejected: unknown[] = [];
+    const lists = data.flatMap((item: unknown): TodoListMeta[] => {
+      const list = (item ?? {}) as Record<string, unknown>;
+      if (!isNonEmptyString(list.id) || !isNonEmptyString(list.name)) {
+        rejected.push({ reason: 'リストのIDまたは名前がありません', record: item });
+        return [];
+      }
+
+      const restored: TodoListMeta = {
+        id: list.id,
+        name: list.name,
+        archived: list.archived === true,
+        createdAt: new Date((list.createdAt as string | number | undefined) || Date.now()),
+      };
+      const updatedAt = new Date(list.updatedAt as string);
+      if (isValidDate(updatedAt)) {
+        restored.updatedAt = updatedAt;
+      }
+      return [restored];
+    });
+
+    return { value: lists, rejected };
+  }
+
+  /**
+   * ストレージに残っているTODOのキーからリスト一覧を作り直す
+   * @returns 復元したリスト一覧（TODOのキーがない場合は空）
+   */
+  static recoverLists(): TodoListMeta[] {
+    const prefix = TodoService.getStorageKey('');
+    const ids = StorageService.keys()
+      .filter(key => key.startsWith(prefix) && key.length > prefix.length)
+      .map(key => key.slice(prefix.length));
+
+    return ids.sort().map((id, index) => ({
+      id,
+      name: id === this.DEFAULT_LIST_ID ? this.DEFAULT_LIST_NAME : `${this.RECOVERED_LIST_NAME} ${index + 1}`,
+      archived: false,
+      createdAt: new Date(),
+    }));
+  }
+
+  /**
+   * 単一リスト時代の「todos」キーのデータを既定のリストへ移行する
+   * @returns 移行後のリスト一覧
+   */
+  static migrateLegacyTodos(): TodoListMeta[] {
+    const lists = [this.createDefaultList()];
+
+    try {
+      const legacy = StorageService.getItem(TodoService.STORAGE_KEY);
+      const defaultKey = TodoService.getStorageKey(this.DEFAULT_LIST_ID);
+
+      // 移行先が既に存在する場合は上書きしない
+      if (legacy !== null && StorageService.getItem(defaultKey) === null) {
+        StorageService.setItem(defaultKey, legacy);
+      }
+
+      this.saveLists(lists);
+      if (legacy !== null) {
+        StorageService.removeItem(TodoService.STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('既存データの移行に失敗しました:', error);
+    }
+
+    return lists;
+  }
+
+  /**
+   * 選択中のリストIDを読み込む
+   * @param lists リスト一覧
+   * @returns 選択中のリストID（存在しない場合は最初の未アーカイブのリスト）
+   */
+  static loadActiveListId(lists: TodoListMeta[]): string {
+    const fallback = (lists.find(list => !list.archived) ?? lists[0])?.id ?? this.DEFAULT_LIST_ID;
+
+    try {
+      const stored = StorageService.getItem(this.ACTIVE_LIST_KEY);
+      return lists.some(list => list.id === stored && !list.archived) ? stored! : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  /**
+   * 選択中のリストIDを保存する
+   * @param listId リストID
+   */
+  static saveActiveListId(listId: string): void {
+    try {
+      if (StorageService.isAvailable()) {
+        StorageService.setItem(this.ACTIVE_LIST_KEY, listId);
+      }
+    } catch (error) {
+      console.error('選択中のリストの保存に失敗しました:', error);
+    }
+  }
+
+  /**
+   * 変更されたリストに更新日時を設定する（同期の競合解決に使用する）
+   * @param before 変更前のリスト一覧
+   * @param after 変更後のリスト一覧
+   * @param now 更新日時
+   * @returns 更新日時を設定したリスト一覧
+   */
+  static stampUpdatedAt(before: TodoListMeta[], after: TodoListMeta[], now: Date = new Date()): TodoListMeta[] {
+    if (before === after) return after;
+
+    const previous = new Map(before.map(list => [list.id, list]));
+    return after.map(list => (previous.get(list.id) === list ? list : { ...list, updatedAt: now }));
+  }
+
+  /**
+   * リスト名を変更する
+   * @param lists 現在のリスト一覧
+   * @param id 変更するリストID
+   * @param name 新しい名前
+   * @returns 更新されたリスト一覧
+   */
+  static renameList(lists: TodoListMeta[], id: string, name: string): TodoListMeta[] {
+    return lists.map(list => (list.id === id ? { ...list, name: name.trim() } : list));
+  }
+
+  /**
+   * リストを並べ替える
+   * @param lists 現在のリスト一覧
+   * @param id 移動するリストID
+   * @param toIndex 移動先の位置
+   * @returns 更新されたリスト一覧
+   */
+  static moveList(lists: TodoListMeta[], id: string, toIndex: number): TodoListMeta[] {
+    const fromIndex = lists.findIndex(list => list.id === id);
+    if (fromIndex === -1) return lists;
+
+    const clampedIndex = Math.max(0, Math.min(lists.length - 1, toIndex));
+    const result = [...lists];
+    const [moved] = result.splice(fromIndex, 1);
+    result.splice(clampedIndex, 0, moved);
+    return result;
+  }
+
+  /**
+   * リストのアーカイブ状態を設定する
+   * @param lists 現在のリスト一覧
+   * @param id リストID
+   * @param archived アーカイブするかどうか
+   * @returns 更新されたリスト一覧
+   */
+  static setArchived(lists: TodoListMeta[], id: string, archived: boolean): TodoListMeta[] {
+    return lists.map(list => (list.id === id ? { ...list, archived } : list));
+  }
+
+  /**
+   * リストを削除する
+   * @param lists 現在のリスト一覧
+   * @param id 削除するリストID
+   * @returns 更新されたリスト一覧
+   */
+  static deleteList(lists: TodoListMeta[], id: string): TodoListMeta[] {
+    return lists.filter(list => list.id !== id);
+  }
+
+  /**
+   * リスト名の検証
+   * @param name リスト名
+   * @param lists 既存のリスト一覧（重複チェック用）
+   * @param excludeId 重複チェックから除外するリストID（名前変更時）
+   * @returns 検証結果
+   */
+  static validateListName(
+    name: string,
+    lists: TodoListMeta[] = [],
+    excludeId?: string
+  ): { isValid: boolean; error?: string } {
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    if (!trimmedName) {
+      return { isValid: false, error: 'リスト名は空にできません' };
+    }
+
+    if (trimmedName.length > this.MAX_NAME_LENGTH) {
+      return { isValid: false, error: `リスト名は${this.MAX_NAME_LENGTH}文字以内で入力してください` };
+    }
+
+    if (lists.some(list => list.id !== excludeId && list.name === trimmedName)) {
+      return { isValid: false, error: '同じ名前のリストが既に存在します' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * 置き換え後のリスト一覧の検証（インポート時に使用）
+   * @param lists 置き換え後のリスト一覧
+   * @returns 検証結果
+   */
+  static validateLists(lists: TodoListMeta[]): { isValid: boolean; error?: string } {
+    if (!lists.some(list => !list.archived)) {
+      return { isValid: false, error: '未アーカイブのリストが1つ以上必要です' };
+    }
+
+    return { isValid: true };
+  }
+}
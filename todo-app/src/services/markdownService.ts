@@ -0,0 +1,168 @@
+import { Todo, STATUS_FILTER_LABELS, toDateInputValue } from '@/types';
+import { TodoService } from './todoService';
+
+/**
+ * Markdownの書き出しの設定
+ */
+export interface MarkdownExportOptions {
+  /** 未完了・完了済みの見出しで分けるかどうか */
+  groupByStatus?: boolean;
+}
+
+/**
+ * 読み込めなかったタスク項目の報告
+ */
+export interface MarkdownLineError {
+  /** 行番号（1始まり） */
+  line: number;
+  /** 読み込めなかった理由 */
+  message: string;
+}
+
+/**
+ * Markdownの読み込み結果
+ */
+export interface MarkdownImportResult {
+  /** 読み込み後のTODOリスト */
+  todos: Todo[];
+  /** 追加したTODOの件数 */
+  added: number;
+  /** チェックボックスのない行など、読み飛ばした行の件数（空行・見出しは除く） */
+  ignored: number;
+  /** 読み込めなかったタスク項目 */
+  errors: MarkdownLineError[];
+}
+
+/** タスク項目の行（「- [ ] タイトル」「* [x] タイトル」「1. [ ] タイトル」） */
+const TASK_ITEM_PATTERN = /^([ \t]*)(?:[-*+]|\d+[.)])[ \t]+\[([ xX])\][ \t]+(.*)$/;
+
+/** チェックボックスのないリスト項目の行 */
+const LIST_ITEM_PATTERN = /^([ \t]*)(?:[-*+]|\d+[.)])[ \t]+/;
+
+/**
+ * 行頭の字下げの幅を求める（タブは4文字分とする）
+ */
+const getIndentWidth = (indent: string): number =>
+  [...indent].reduce((width, char) => width + (char === '\t' ? 4 : 1), 0);
+
+/**
+ * GitHub形式のMarkdownのタスクリストでの書き出し・読み込みを提供するサービスクラス
+ * サブタスクは1段字下げしたタスク項目で表す
+ */
+export class MarkdownService {
+  /**
+   * TODOリストをMarkdownのタスクリストに変換する
+   * @param todos TODOリスト（表示順）
+   * @param options 書き出しの設定
+   * @returns Markdown文字列
+   */
+  static toMarkdown(todos: Todo[], options: MarkdownExportOptions = {}): string {
+    const formatItems = (items: Todo[]) =>
+      items.flatMap(todo => [
+        this.formatTaskItem(todo.title, todo.completed),
+        ...todo.subtasks.map(subtask => `  ${this.formatTaskItem(subtask.title, subtask.completed)}`),
+      ]);
+
+    if (!options.groupByStatus) {
+      return formatItems(todos).join('\n') + '\n';
+    }
+
+    const sections = [
+      { label: STATUS_FILTER_LABELS.active, items: todos.filter(todo => !todo.completed) },
+      { label: STATUS_FILTER_LABELS.completed, items: todos.filter(todo => todo.completed) },
+    ].filter(section => section.items.length > 0);
+
+    return (
+      sections.map(({ label, items }) => [`## ${label}`, '', ...formatItems(items)].join('\n')).join('\n\n') +
+      '\n'
+    );
+  }
+
+  /**
+   * Markdownのファイル名を生成する
+   * @param listName リスト名
+   * @param now 書き出し日時
+   * @returns ファイル名
+   */
+  static getFileName(listName: string, now: Date = new Date()): string {
+    const safeName = listName.replace(/[\\/:*?"<>|\s]+/g, '_');
+    return `kiro-todo-${safeName}-${toDateInputValue(now)}.md`;
+  }
+
+  /**
+   * Markdownのタスクリストを読み込んでTODOを追加する
+   * - 直前のTODOより深く字下げされたタスク項目は、そのTODOのサブタスクにする（2段以上の字下げも1段のサブタスクにまとめる）
+   * - それ以外のタスク項目はTODOにする（チェック済みの項目は完了済みにする）
+   * - チェックボックスのないリスト項目・本文・見出し・コードブロックは読み飛ばす
+   * @param text Markdown文字列
+   * @param existingTodos 読み込み先のTODOリスト（追加したTODOは末尾に並べる）
+   * @param now 読み込み日時
+   * @returns 読み込み後のTODOリストと読み込み結果
+   */
+  static importMarkdown(text: string, existingTodos: Todo[], now: Date = new Date()): MarkdownImportResult {
+    const result: MarkdownImportResult = { todos: [...existingTodos], added: 0, ignored: 0, errors: [] };
+    let nextPosition =
+      existingTodos.length > 0 ? Math.max(...existingTodos.map(todo => todo.position)) + 1 : 0;
+    // 直前のTODOとその字下げの幅（サブタスクの親の判定に使う）
+    let parent: { todo: Todo; indent: number } | null = null;
+    let inCodeBlock = false;
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      // コードブロック内の行は読み飛ばす
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        return;
+      }
+      if (inCodeBlock || !line.trim() || /^\s*#/.test(line)) {
+        return;
+      }
+
+      const match = TASK_ITEM_PATTERN.exec(line);
+      if (!match) {
+        // 直前のTODOと同じかそれより浅いリスト項目の後は、新しいTODOとして扱う
+        const listItem = LIST_ITEM_PATTERN.exec(line);
+        if (listItem && parent && getIndentWidth(listItem[1]) <= parent.indent) {
+          parent = null;
+        }
+        result.ignored++;
+        return;
+      }
+
+      const [, indentText, mark, rawTitle] = match;
+      const indent = getIndentWidth(indentText);
+      const title = rawTitle.trim();
+      const completed = mark !== ' ';
+
+      const validation = TodoService.validateTodoTitle(title);
+      if (!validation.isValid) {
+        result.errors.push({ line: index + 1, message: validation.error ?? 'タイトルが正しくありません' });
+        return;
+      }
+
+      if (parent && indent > parent.indent) {
+        parent.todo.subtasks.push({ id: crypto.randomUUID(), title, completed });
+        return;
+      }
+
+      const todo: Todo = {
+        ...TodoService.createTodo({ title }),
+        completed,
+        createdAt: now,
+        updatedAt: now,
+        position: nextPosition++,
+      };
+      result.todos.push(todo);
+      result.added++;
+      parent = { todo, indent };
+    });
+
+    return result;
+  }
+
+  /**
+   * タスク項目の行を生成する（改行はMarkdownの構造を壊さないよう空白にする）
+   */
+  private static formatTaskItem(title: string, completed: boolean): string {
+    return `- [${completed ? 'x' : ' '}] ${title.replace(/\s*[\r\n]+\s*/g, ' ')}`;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Todo, TrashedTodo } from '@/types';
+import { MergeService } from './mergeService';
+
+const createTodo = (id: string, title: string, updatedAt: string): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  subtasks: [],
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date(updatedAt),
+  position: 0,
+});
+
+describe('MergeService', () => {
+  it('一方のタブで削除し、もう一方のタブで編集したTODOは、TODOリストに残りゴミ箱には入らない', () => {
+    const original = createTodo('todo-1', '買い物', '2026-01-01T00:00:00Z');
+    const other = createTodo('todo-2', '掃除', '2026-01-01T00:00:00Z');
+    const trashed: TrashedTodo = { todo: original, deletedAt: new Date('2026-01-02T00:00:00Z') };
+
+    // タブA: 削除してゴミ箱へ移す／タブB: 同じTODOを編集する
+    const todosA = [other];
+    const trashA = [trashed];
+    const todosB = [{ ...original, title: '買い物（牛乳）', updatedAt: new Date('2026-01-02T00:00:01Z') }, other];
+    const trashB: TrashedTodo[] = [];
+
+    // タブBでタブAの変更を受け取る（TODOリスト・ゴミ箱の順）
+    const mergedTodos = MergeService.mergeTodos([original, other], todosB, todosA).records;
+    const mergedTrash = MergeService.mergeTrash([], trashB, trashA).records;
+
+    expect(mergedTodos.map(todo => todo.title)).toContain('買い物（牛乳）');
+    // 新しい方を採用した競合ではなく、削除と編集の競合として報告する
+    expect(MergeService.mergeTodos([original, other], todosB, todosA).deleteConflicts.map(todo => todo.id)).toEqual(['todo-1']);
+    expect(MergeService.mergeTodos([original, other], todosB, todosA).conflicts).toEqual([]);
+    // ゴミ箱を個別にマージすると同じIDが両方に残る
+    expect(mergedTrash.map(item => item.todo.id)).toContain('todo-1');
+
+    const trash = MergeService.excludeLiveFromTrash(mergedTrash, mergedTodos);
+    expect(trash).toEqual([]);
+  });
+
+  it('両方のタブで編集したTODOは、更新日時の新しい方を採用した競合として報告する', () => {
+    const original = createTodo('todo-1', '買い物', '2026-01-01T00:00:00Z');
+    const local = { ...original, title: '買い物（牛乳）', updatedAt: new Date('2026-01-02T00:00:00Z') };
+    const remote = { ...original, title: '買い物（卵）', updatedAt: new Date('2026-01-03T00:00:00Z') };
+
+    const merged = MergeService.mergeTodos([original], [local], [remote]);
+
+    expect(merged.records).toEqual([remote]);
+    expect(merged.conflicts).toEqual([remote]);
+    expect(merged.deleteConflicts).toEqual([]);
+  });
+
+  it('TODOリストに残っていないTODOはゴミ箱に残す', () => {
+    const trash: TrashedTodo[] = [
+      { todo: createTodo('todo-1', '買い物', '2026-01-01T00:00:00Z'), deletedAt: new Date('2026-01-02T00:00:00Z') },
+    ];
+
+    expect(MergeService.excludeLiveFromTrash(trash, [createTodo('todo-2', '掃除', '2026-01-01T00:00:00Z')])).toBe(trash);
+  });
+});
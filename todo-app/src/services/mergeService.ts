@@ -0,0 +1,159 @@
+import { Todo, TrashedTodo } from '@/types';
+
+/**
+ * 3方向マージの結果
+ */
+export interface MergeResult<T> {
+  /** マージ後のレコード */
+  records: T[];
+  /** 両方で更新されていたため、日時の新しい方の変更を採用したレコード（採用したもの） */
+  conflicts: T[];
+  /** 一方で削除され、もう一方で更新されていたため、削除せずに残したレコード（残したもの） */
+  deleteConflicts: T[];
+}
+
+/**
+ * 3方向マージでのレコードの扱い
+ */
+interface MergeOptions<T> {
+  /** レコードのID */
+  getId: (record: T) => string;
+  /** 競合時に新しい方を判定するための日時 */
+  getTimestamp: (record: T) => Date;
+}
+
+/**
+ * 比較用に値を正規化する（キーの順序・undefinedのプロパティ・日付の表現の違いを無視する）
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter(key => record[key] !== undefined)
+        .sort()
+        .map(key => [key, canonicalize(record[key])])
+    );
+  }
+  return value;
+};
+
+/**
+ * 比較用の文字列にする
+ */
+const toComparable = (value: unknown): string => JSON.stringify(canonicalize(value)) ?? '';
+
+/**
+ * 共通の祖先をもとに、2つの変更をレコード単位でマージする機能を提供するサービスクラス
+ * - 一方だけが変更したレコードは、その変更（追加・更新・削除）を採用する
+ * - 両方が異なる内容に変更したレコードは競合とし、次の規則で決める（どちらのタブでマージしても同じ結果になる）
+ *   - 両方が更新した場合は日時の新しい方（同じ日時の場合は内容で決める）
+ *   - 一方が削除し、もう一方が更新した場合は更新した方
+ */
+export class MergeService {
+  /**
+   * レコードの一覧を3方向マージする
+   * 並び順は相手側の順とし、手元だけにあるレコードを末尾に加える
+   * @param ancestor 共通の祖先（相手側が変更する前の値）
+   * @param local 手元の値
+   * @param remote 相手側の値
+   * @param options レコードの扱い
+   * @returns マージ結果
+   */
+  static mergeRecords<T>(ancestor: T[], local: T[], remote: T[], options: MergeOptions<T>): MergeResult<T> {
+    const byId = (records: T[]) => new Map(records.map(record => [options.getId(record), record]));
+    const ancestorById = byId(ancestor);
+    const localById = byId(local);
+    const remoteById = byId(remote);
+
+    const ids = [...new Set([...remoteById.keys(), ...localById.keys()])];
+    const result: MergeResult<T> = { records: [], conflicts: [], deleteConflicts: [] };
+
+    ids.forEach(id => {
+      const base = ancestorById.get(id);
+      const mine = localById.get(id);
+      const theirs = remoteById.get(id);
+
+      const mineKey = mine === undefined ? null : toComparable(mine);
+      const theirsKey = theirs === undefined ? null : toComparable(theirs);
+      const baseKey = base === undefined ? null : toComparable(base);
+
+      let merged: T | undefined;
+      if (mineKey === theirsKey || mineKey === baseKey) {
+        merged = theirs;
+      } else if (theirsKey === baseKey) {
+        merged = mine;
+      } else if (mine === undefined || theirs === undefined) {
+        // 削除と更新の競合は更新を残す
+        merged = mine ?? theirs;
+        result.deleteConflicts.push(merged!);
+      } else {
+        merged = this.resolveConflict(mine, theirs, options);
+        result.conflicts.push(merged);
+      }
+
+      if (merged !== undefined) {
+        result.records.push(merged);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * TODOリストを3方向マージする（競合時は更新日時の新しい方を採用する）
+   */
+  static mergeTodos(ancestor: Todo[], local: Todo[], remote: Todo[]): MergeResult<Todo> {
+    return this.mergeRecords(ancestor, local, remote, {
+      getId: todo => todo.id,
+      getTimestamp: todo => todo.updatedAt,
+    });
+  }
+
+  /**
+   * ゴミ箱を3方向マージする（競合時は削除日時の新しい方を採用する）
+   */
+  static mergeTrash(ancestor: TrashedTodo[], local: TrashedTodo[], remote: TrashedTodo[]): MergeResult<TrashedTodo> {
+    return this.mergeRecords(ancestor, local, remote, {
+      getId: item => item.todo.id,
+      getTimestamp: item => item.deletedAt,
+    });
+  }
+
+  /**
+   * TODOリストに残っているTODOをゴミ箱から除く
+   * 一方のタブで削除し、もう一方のタブで編集した場合、TODOリストのマージでは編集が残り、ゴミ箱のマージでは削除した方が残る。
+   * 同じIDが両方に残ると復元時にIDが重複するため、TODOリストに残った方を採用する
+   * @param trash ゴミ箱
+   * @param todos TODOリスト
+   * @returns 除いた後のゴミ箱（除くものがない場合は元の配列）
+   */
+  static excludeLiveFromTrash(trash: TrashedTodo[], todos: Todo[]): TrashedTodo[] {
+    const liveIds = new Set(todos.map(todo => todo.id));
+    const filtered = trash.filter(item => !liveIds.has(item.todo.id));
+    return filtered.length === trash.length ? trash : filtered;
+  }
+
+  /**
+   * 2つのレコードの一覧が同じ内容か判定する（並び順は問わない）
+   */
+  static isSameRecords<T>(a: T[], b: T[], getId: (record: T) => string): boolean {
+    if (a.length !== b.length) return false;
+
+    const bById = new Map(b.map(record => [getId(record), toComparable(record)]));
+    return a.every(record => bById.get(getId(record)) === toComparable(record));
+  }
+
+  /**
+   * 両方で更新されたレコードの競合を解決する（日時の新しい方を採用する）
+   */
+  private static resolveConflict<T>(mine: T, theirs: T, options: MergeOptions<T>): T {
+    const diff = options.getTimestamp(mine).getTime() - options.getTimestamp(theirs).getTime();
+    if (diff !== 0) {
+      return diff > 0 ? mine : theirs;
+    }
+    return toComparable(mine) > toComparable(theirs) ? mine : theirs;
+  }
+}
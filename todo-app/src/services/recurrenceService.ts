@@ -0,0 +1,168 @@
+import { RecurrenceRule, RecurrenceFrequency } from '@/types';
+
+/** 曜日の表示名（0: 日曜 〜 6: 土曜） */
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/** 1日のミリ秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 繰り返しルールの計算を提供するサービスクラス
+ */
+export class RecurrenceService {
+  /** 間隔の最大値 */
+  static readonly MAX_INTERVAL = 365;
+
+  /** 曜日の表示名 */
+  static readonly WEEKDAY_LABELS = WEEKDAY_LABELS;
+
+  /**
+   * 次回の日付を計算する（基準日より後の最初の該当日）
+   * 時刻は基準日のものを引き継ぐ
+   * @param rule 繰り返しルール
+   * @param base 基準日（前回の期限、または完了日）
+   * @returns 次回の日付
+   */
+  static getNextDate(rule: RecurrenceRule, base: Date): Date {
+    const interval = Math.max(1, Math.floor(rule.interval) || 1);
+
+    switch (rule.frequency) {
+      case 'daily': {
+        const next = new Date(base);
+        next.setDate(next.getDate() + interval);
+        return next;
+      }
+
+      case 'weekly': {
+        const weekdays = rule.weekdays?.length ? rule.weekdays : [base.getDay()];
+        const baseWeekStart = this.startOfWeek(base);
+
+        // 基準日の翌日から順に、対象週の対象曜日を探す
+        for (let offset = 1; offset <= 7 * (interval + 1); offset++) {
+          const candidate = new Date(base);
+          candidate.setDate(candidate.getDate() + offset);
+
+          const weeksApart = Math.round(
+            (this.startOfWeek(candidate).getTime() - baseWeekStart.getTime()) / (7 * DAY_MS)
+          );
+          if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) {
+            return candidate;
+          }
+        }
+
+        // 到達しない想定だが、念のため単純にinterval週後とする
+        const fallback = new Date(base);
+        fallback.setDate(fallback.getDate() + 7 * interval);
+        return fallback;
+      }
+
+      case 'monthly': {
+        const monthDay = rule.monthDay ?? base.getDate();
+
+        // 同じ月の後の日付が対象であればそれを使う
+        const sameMonth = this.withMonthDay(base, base.getFullYear(), base.getMonth(), monthDay);
+        if (sameMonth.getTime() > base.getTime()) {
+          return sameMonth;
+        }
+
+        return this.withMonthDay(base, base.getFullYear(), base.getMonth() + interval, monthDay);
+      }
+    }
+  }
+
+  /**
+   * 繰り返しルールの説明文を生成する
+   * @param rule 繰り返しルール
+   * @returns 説明文（例: 「毎週 月・水」「2日ごと」「毎月15日」）
+   */
+  static describe(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval);
+
+    switch (rule.frequency) {
+      case 'daily':
+        return interval === 1 ? '毎日' : `${interval}日ごと`;
+
+      case 'weekly': {
+        const prefix = interval === 1 ? '毎週' : `${interval}週ごと`;
+        const days = [...(rule.weekdays ?? [])].sort().map(day => WEEKDAY_LABELS[day]);
+        return days.length > 0 ? `${prefix} ${days.join('・')}` : prefix;
+      }
+
+      case 'monthly': {
+        const prefix = interval === 1 ? '毎月' : `${interval}か月ごと`;
+        return rule.monthDay ? `${prefix}${rule.monthDay}日` : prefix;
+      }
+    }
+  }
+
+  /**
+   * 繰り返しルールの検証
+   * @param rule 繰り返しルール
+   * @returns 検証結果
+   */
+  static validateRule(rule: RecurrenceRule): { isValid: boolean; error?: string } {
+    if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > this.MAX_INTERVAL) {
+      return { isValid: false, error: `間隔は1〜${this.MAX_INTERVAL}の整数で入力してください` };
+    }
+
+    if (rule.weekdays?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return { isValid: false, error: '曜日の指定が正しくありません' };
+    }
+
+    if (
+      rule.monthDay !== undefined &&
+      (!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31)
+    ) {
+      return { isValid: false, error: '日付は1〜31で入力してください' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * JSONから復元した値を繰り返しルールに変換する
+   * @param data JSON.parseの結果
+   * @returns 繰り返しルール（不正な場合はundefined）
+   */
+  static deserializeRule(data: unknown): RecurrenceRule | undefined {
+    if (!data || typeof data !== 'object') return undefined;
+
+    const raw = data as Record<string, unknown>;
+    const frequencies: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+    if (!frequencies.includes(raw.frequency as RecurrenceFrequency)) {
+      return undefined;
+    }
+
+    const rule: RecurrenceRule = {
+      frequency: raw.frequency as RecurrenceFrequency,
+      interval: typeof raw.interval === 'number' ? raw.interval : 1,
+    };
+    if (Array.isArray(raw.weekdays)) {
+      rule.weekdays = raw.weekdays.filter((day): day is number => typeof day === 'number');
+    }
+    if (typeof raw.monthDay === 'number') {
+      rule.monthDay = raw.monthDay;
+    }
+
+    return this.validateRule(rule).isValid ? rule : undefined;
+  }
+
+  /**
+   * 週の始まり（日曜日の0時）を取得する
+   */
+  private static startOfWeek(date: Date): Date {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - start.getDay());
+    return start;
+  }
+
+  /**
+   * 指定した年月の日付を生成する（月末を超える場合は末日にする）
+   */
+  private static withMonthDay(base: Date, year: number, month: number, day: number): Date {
+    const lastDay = new Date(year, month + 1, 0).getDate();
+    const result = new Date(base);
+    result.setFullYear(year, month, Math.min(day, lastDay));
+    return result;
+  }
+}
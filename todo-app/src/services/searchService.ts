@@ -0,0 +1,166 @@
+import { Todo } from '@/types';
+
+/**
+ * 検索で一致した範囲（元の文字列のインデックス、endは含まない）
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 検索用に正規化した文字列と、元の文字列との対応
+ */
+interface FoldedText {
+  /** 正規化後の文字（コードポイント単位） */
+  chars: string[];
+  /** 各文字に対応する元の文字列の開始位置 */
+  starts: number[];
+  /** 各文字に対応する元の文字列の終了位置 */
+  ends: number[];
+}
+
+/** 濁点・半濁点の結合文字 */
+const COMBINING_SOUND_MARKS = ['゙', '゚'];
+
+/**
+ * TODOの全文検索を提供するサービスクラス
+ * 大文字・小文字、全角・半角、ひらがな・カタカナの違いを区別せずに検索する
+ */
+export class SearchService {
+  /**
+   * 検索用に文字列を正規化する
+   * 1文字ずつ正規化し、元の文字列との位置の対応を保持する
+   * @param text 対象の文字列
+   * @returns 正規化後の文字と位置の対応
+   */
+  private static fold(text: string): FoldedText {
+    const folded: FoldedText = { chars: [], starts: [], ends: [] };
+    let position = 0;
+
+    for (const char of text) {
+      const end = position + char.length;
+      const normalized = char
+        // 全角英数字→半角、半角カナ→全角カナ
+        .normalize('NFKC')
+        .toLowerCase()
+        // ひらがな→カタカナ
+        .replace(/[ぁ-ゖ]/g, kana => String.fromCharCode(kana.charCodeAt(0) + 0x60));
+
+      for (const out of normalized) {
+        // 半角カナの濁点・半濁点は直前の文字と合成する（ｶﾞ → ガ）
+        const last = folded.chars.length - 1;
+        if (COMBINING_SOUND_MARKS.includes(out) && last >= 0) {
+          const composed = (folded.chars[last] + out).normalize('NFC');
+          if ([...composed].length === 1) {
+            folded.chars[last] = composed;
+            folded.ends[last] = end;
+            continue;
+          }
+        }
+
+        folded.chars.push(out);
+        folded.starts.push(position);
+        folded.ends.push(end);
+      }
+
+      position = end;
+    }
+
+    return folded;
+  }
+
+  /**
+   * 検索語を空白で区切って正規化する
+   * @param query 検索文字列
+   * @returns 正規化された検索語の一覧
+   */
+  private static parseQuery(query: string): string[][] {
+    return query
+      .split(/[\s　]+/)
+      .filter(term => term.length > 0)
+      .map(term => this.fold(term).chars)
+      .filter(chars => chars.length > 0);
+  }
+
+  /**
+   * 正規化済みの文字列から検索語の出現位置をすべて探す
+   */
+  private static findTerm(folded: FoldedText, term: string[]): MatchRange[] {
+    const ranges: MatchRange[] = [];
+    const { chars } = folded;
+
+    for (let i = 0; i + term.length <= chars.length; i++) {
+      let matched = true;
+      for (let j = 0; j < term.length; j++) {
+        if (chars[i + j] !== term[j]) {
+          matched = false;
+          break;
+        }
+      }
+
+      if (matched) {
+        ranges.push({ start: folded.starts[i], end: folded.ends[i + term.length - 1] });
+        i += term.length - 1;
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * 文字列中の検索語の一致範囲を取得する（重なる範囲は結合する）
+   * @param text 対象の文字列
+   * @param query 検索文字列（空白区切りで複数語）
+   * @returns 一致範囲の一覧（開始位置順）
+   */
+  static findMatches(text: string, query: string): MatchRange[] {
+    const terms = this.parseQuery(query);
+    if (terms.length === 0 || !text) return [];
+
+    const folded = this.fold(text);
+    const ranges = terms
+      .flatMap(term => this.findTerm(folded, term))
+      .sort((a, b) => a.start - b.start);
+
+    // 重なる範囲を結合する
+    return ranges.reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+  }
+
+  /**
+   * TODOが検索条件に一致するか判定する
+   * すべての検索語が、タイトル・タグ・サブタスクのいずれかに含まれる場合に一致とする
+   * @param todo TODOアイテム
+   * @param query 検索文字列
+   * @returns 一致する場合はtrue
+   */
+  static matchesTodo(todo: Todo, query: string): boolean {
+    const terms = this.parseQuery(query);
+    if (terms.length === 0) return true;
+
+    const fields = [todo.title, ...todo.tags, ...todo.subtasks.map(subtask => subtask.title)].map(
+      field => this.fold(field)
+    );
+
+    return terms.every(term => fields.some(field => this.findTerm(field, term).length > 0));
+  }
+
+  /**
+   * 検索条件でTODOリストを絞り込む
+   * @param todos TODOリスト
+   * @param query 検索文字列（空の場合は絞り込まない）
+   * @returns 絞り込まれたTODOリスト
+   */
+  static filterTodos(todos: Todo[], query: string): Todo[] {
+    if (!query.trim()) return todos;
+    return todos.filter(todo => this.matchesTodo(todo, query));
+  }
+}
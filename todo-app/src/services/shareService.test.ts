@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { ShareService } from './shareService';
+import { TodoService } from './todoService';
+
+/**
+ * バイト列を共有リンクのデータの表記（base64url）にする
+ */
+const toShareData = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64url');
+
+describe('ShareService', () => {
+  it('作成した共有リンクを読み込める', async () => {
+    const first = TodoService.createTodo({ title: '買い物', tags: ['家'] });
+    const second = TodoService.createTodo({ title: '掃除' }, [first]);
+
+    const url = await ShareService.createShareUrl('週末', [first, second], 'manual', 'https://example.com/');
+    const data = ShareService.getSharedData(new URL(url).hash);
+    const snapshot = await ShareService.decode(data!);
+
+    expect(snapshot.listName).toBe('週末');
+    expect(snapshot.sortMode).toBe('manual');
+    expect(snapshot.todos).toEqual([first, second]);
+  });
+
+  it('展開後のデータが上限を超える共有リンクは読み込まない', async () => {
+    // 圧縮後は小さいが、展開すると上限を大きく超える（形式としては正しい）データ
+    const payload = `{"v":1,"name":"x","at":"2026-01-01T00:00:00.000Z","sort":"auto","todos":[]${' '.repeat(ShareService.MAX_DECODED_BYTES * 8)}}`;
+    const bomb = deflateRawSync(Buffer.from(payload));
+
+    await expect(ShareService.decode(toShareData(bomb))).rejects.toThrow('共有リンクを読み込めませんでした');
+  });
+});
@@ -0,0 +1,212 @@
+import { Todo, SortMode } from '@/types';
+import { TodoService } from './todoService';
+import { BackupService } from './backupService';
+
+/**
+ * 共有リンクで受け取ったリストの内容
+ */
+export interface SharedSnapshot {
+  /** リスト名 */
+  listName: string;
+  /** 共有した日時 */
+  sharedAt: Date;
+  /** 共有したときの並び順 */
+  sortMode: SortMode;
+  todos: Todo[];
+}
+
+/**
+ * 共有リンクに埋め込むデータの形式
+ */
+interface SharePayload {
+  /** 形式のバージョン */
+  v: number;
+  /** リスト名 */
+  name: string;
+  /** 共有した日時（ISO 8601形式） */
+  at: string;
+  /** 並び順 */
+  sort: SortMode;
+  todos: unknown[];
+}
+
+/** 圧縮方式（CompressionStreamの形式） */
+const COMPRESSION_FORMAT = 'deflate-raw';
+
+/**
+ * バイト列をURLで使えるBase64（base64url、パディングなし）にする
+ */
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // 引数の数の上限を超えないよう、分割して文字列にする
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * base64urlをバイト列に戻す
+ */
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/**
+ * バイト列をストリームで変換する（圧縮・展開）
+ * @param maxBytes 変換後の最大バイト数（超えた場合は読み込みをやめて例外を投げる）
+ */
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxBytes = Infinity
+): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error(`変換後のデータが上限（${maxBytes}バイト）を超えました`);
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+/**
+ * リストを閲覧専用で共有するリンク（サーバー不要）の作成・読み込みを提供するサービスクラス
+ * - TODOを圧縮してURLのフラグメント（#以降）に埋め込むため、内容はサーバーへ送られない
+ * - 静的サイトとして公開した場合も、同じページで開いて表示できる
+ */
+export class ShareService {
+  /** フラグメントのパラメーター名（#share=...） */
+  static readonly FRAGMENT_KEY = 'share';
+
+  /** 共有リンクの形式のバージョン */
+  static readonly PAYLOAD_VERSION = 1;
+
+  /**
+   * 共有リンクの最大文字数
+   * チャットやメールで途中で切れたり、ブラウザで開けなかったりしないよう控えめにする
+   */
+  static readonly MAX_URL_LENGTH = 8000;
+
+  /**
+   * 共有リンクを展開したデータの最大バイト数
+   * 細工されたリンクが非常に大きなデータに展開され、タブが固まるのを防ぐ
+   * （上限の長さのリンクに収まる通常のリストは、これより十分小さい）
+   */
+  static readonly MAX_DECODED_BYTES = 1024 * 1024;
+
+  /**
+   * このブラウザで共有リンクを作成・表示できるか判定する（圧縮・展開に対応しているか）
+   */
+  static isSupported(): boolean {
+    return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+  }
+
+  /**
+   * 共有リンクを作成する
+   * @param listName リスト名
+   * @param todos 共有するTODO
+   * @param sortMode 並び順
+   * @param baseUrl リンク先のページのURL（検索条件・フラグメントを除く）
+   * @returns 共有リンク
+   * @throws 圧縮に対応していない場合、リンクが長すぎる場合
+   */
+  static async createShareUrl(listName: string, todos: Todo[], sortMode: SortMode, baseUrl: string): Promise<string> {
+    if (!this.isSupported()) {
+      throw new Error('このブラウザは共有リンクの作成に対応していません');
+    }
+
+    const payload: SharePayload = {
+      v: this.PAYLOAD_VERSION,
+      name: listName,
+      at: new Date().toISOString(),
+      sort: sortMode,
+      todos: JSON.parse(JSON.stringify(todos)),
+    };
+    const compressed = await transform(
+      new TextEncoder().encode(JSON.stringify(payload)),
+      new CompressionStream(COMPRESSION_FORMAT)
+    );
+
+    const url = `${baseUrl}#${this.FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+    if (url.length > this.MAX_URL_LENGTH) {
+      throw new Error(
+        `共有するTODOが多すぎるため、リンクが長くなりすぎます（${url.length.toLocaleString()}文字、上限${this.MAX_URL_LENGTH.toLocaleString()}文字）。完了済みを除くか、リストを分けて共有してください`
+      );
+    }
+    return url;
+  }
+
+  /**
+   * URLのフラグメントから共有されたデータを取り出す
+   * @param hash location.hash
+   * @returns 共有されたデータ（共有リンクでない場合はnull）
+   */
+  static getSharedData(hash: string): string | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.get(this.FRAGMENT_KEY);
+  }
+
+  /**
+   * 共有されたデータを読み込む
+   * @param data フラグメントに埋め込まれたデータ
+   * @returns 共有されたリスト（読み込めないTODOは除く）
+   * @throws 展開できない・形式が正しくない場合
+   */
+  static async decode(data: string): Promise<SharedSnapshot> {
+    if (!this.isSupported()) {
+      throw new Error('このブラウザは共有リンクの表示に対応していません');
+    }
+
+    let payload: Partial<SharePayload>;
+    try {
+      const bytes = await transform(
+        fromBase64Url(data),
+        new DecompressionStream(COMPRESSION_FORMAT),
+        this.MAX_DECODED_BYTES
+      );
+      payload = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new Error('共有リンクを読み込めませんでした。リンクが途中で切れていないか確認してください');
+    }
+
+    if (typeof payload.v !== 'number' || payload.v > this.PAYLOAD_VERSION || !Array.isArray(payload.todos)) {
+      throw new Error('共有リンクの形式が正しくないか、新しいバージョンのアプリで作成されています');
+    }
+
+    const sharedAt = new Date(payload.at ?? '');
+    return {
+      listName: typeof payload.name === 'string' ? payload.name : '',
+      sharedAt: Number.isNaN(sharedAt.getTime()) ? new Date() : sharedAt,
+      sortMode: payload.sort === 'manual' ? 'manual' : 'auto',
+      todos: TodoService.validateTodoRecords(payload.todos).todos,
+    };
+  }
+
+  /**
+   * 共有されたTODOを新しいIDのコピーにして、自分のリストの後ろに加える
+   * @param shared 共有されたTODO
+   * @param existing 読み込み先のTODOリスト
+   * @returns 読み込み後のTODOリスト
+   */
+  static importInto(shared: Todo[], existing: Todo[]): Todo[] {
+    return [...existing, ...BackupService.copyTodos(shared, existing, new Date())];
+  }
+}
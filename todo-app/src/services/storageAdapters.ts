@@ -0,0 +1,220 @@
+/**
+ * データの保存先の種類
+ */
+export type StorageBackend = 'indexeddb' | 'localstorage' | 'memory';
+
+/**
+ * 保存先の違いを吸収する非同期のストレージ（キーと文字列の値を保存する）
+ */
+export interface StorageAdapter {
+  /** 保存先の種類 */
+  readonly backend: StorageBackend;
+  /** 保存されているすべての値を読み込む */
+  loadAll(): Promise<Record<string, string>>;
+  /** 値を読み込む（ない場合はnull） */
+  getItem(key: string): Promise<string | null>;
+  /** 複数の値をまとめて保存する */
+  setItems(entries: Record<string, string>): Promise<void>;
+  /** 値を削除する */
+  removeItem(key: string): Promise<void>;
+  /** 複数の値をまとめて保存・削除する（値がnullのキーは削除する、途中で失敗しても一部だけが反映されないようにする） */
+  writeItems(entries: Record<string, string | null>): Promise<void>;
+}
+
+/**
+ * IndexedDBのリクエストの完了を待つ
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * IndexedDBのトランザクションの完了を待つ
+ */
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('トランザクションが中断されました'));
+  });
+
+/**
+ * IndexedDBに保存するストレージ（容量の制限が緩く、大量のデータを保存できる）
+ */
+export class IndexedDbAdapter implements StorageAdapter {
+  /** データベース名 */
+  static readonly DB_NAME = 'kiro-todo';
+
+  /** データベースのバージョン */
+  static readonly DB_VERSION = 1;
+
+  /** キーと値を保存するオブジェクトストア名 */
+  static readonly STORE_NAME = 'kv';
+
+  readonly backend = 'indexeddb' as const;
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  /**
+   * IndexedDBが利用できるか判定する
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * データベースを開く
+   * @returns IndexedDBのストレージ
+   * @throws 開けなかった場合（プライベートブラウズなど）
+   */
+  static async open(): Promise<IndexedDbAdapter> {
+    const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(this.STORE_NAME)) {
+        request.result.createObjectStore(this.STORE_NAME);
+      }
+    };
+
+    return new IndexedDbAdapter(await requestToPromise(request));
+  }
+
+  async loadAll(): Promise<Record<string, string>> {
+    const store = this.db
+      .transaction(IndexedDbAdapter.STORE_NAME, 'readonly')
+      .objectStore(IndexedDbAdapter.STORE_NAME);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll()),
+    ]);
+
+    return Object.fromEntries(keys.map((key, index) => [String(key), String(values[index])]));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await requestToPromise(
+      this.db.transaction(IndexedDbAdapter.STORE_NAME, 'readonly').objectStore(IndexedDbAdapter.STORE_NAME).get(key)
+    );
+    return value === undefined ? null : String(value);
+  }
+
+  async setItems(entries: Record<string, string>): Promise<void> {
+    const transaction = this.db.transaction(IndexedDbAdapter.STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(IndexedDbAdapter.STORE_NAME);
+    Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+    await transactionToPromise(transaction);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const transaction = this.db.transaction(IndexedDbAdapter.STORE_NAME, 'readwrite');
+    transaction.objectStore(IndexedDbAdapter.STORE_NAME).delete(key);
+    await transactionToPromise(transaction);
+  }
+
+  async writeItems(entries: Record<string, string | null>): Promise<void> {
+    // 1つのトランザクションで書き込む（失敗した場合はすべて取り消される）
+    const transaction = this.db.transaction(IndexedDbAdapter.STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(IndexedDbAdapter.STORE_NAME);
+    Object.entries(entries).forEach(([key, value]) => (value === null ? store.delete(key) : store.put(value, key)));
+    await transactionToPromise(transaction);
+  }
+}
+
+/**
+ * ローカルストレージに保存するストレージ（IndexedDBが利用できない場合に使用）
+ * 同じオリジンの他のアプリのデータを読み込まないよう、アプリのキーだけを扱う
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = 'localstorage' as const;
+
+  /**
+   * @param isAppKey アプリのデータの保存キーか判定する関数
+   */
+  constructor(private readonly isAppKey: (key: string) => boolean) {}
+
+  /**
+   * ローカルストレージが利用できるか判定する（書き込めない場合は利用できないものとする）
+   */
+  static isSupported(): boolean {
+    try {
+      if (typeof window === 'undefined' || !window.localStorage) return false;
+
+      const probeKey = '__kiro-todo-probe__';
+      window.localStorage.setItem(probeKey, probeKey);
+      window.localStorage.removeItem(probeKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async loadAll(): Promise<Record<string, string>> {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key !== null && this.isAppKey(key)) {
+        entries[key] = window.localStorage.getItem(key) ?? '';
+      }
+    }
+    return entries;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.isAppKey(key) ? window.localStorage.getItem(key) : null;
+  }
+
+  async setItems(entries: Record<string, string>): Promise<void> {
+    Object.entries(entries).forEach(([key, value]) => window.localStorage.setItem(key, value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    window.localStorage.removeItem(key);
+  }
+
+  async writeItems(entries: Record<string, string | null>): Promise<void> {
+    // ローカルストレージにはトランザクションがないため、途中で失敗した場合は書き込み前の値に戻す
+    const previous = Object.keys(entries).map(key => [key, window.localStorage.getItem(key)] as const);
+    try {
+      Object.entries(entries).forEach(([key, value]) =>
+        value === null ? window.localStorage.removeItem(key) : window.localStorage.setItem(key, value)
+      );
+    } catch (error) {
+      previous.forEach(([key, value]) =>
+        value === null ? window.localStorage.removeItem(key) : window.localStorage.setItem(key, value)
+      );
+      throw error;
+    }
+  }
+}
+
+/**
+ * メモリ上だけに保存するストレージ（どちらも利用できない場合に使用し、ページを閉じるとデータは失われる）
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend = 'memory' as const;
+
+  private readonly entries = new Map<string, string>();
+
+  async loadAll(): Promise<Record<string, string>> {
+    return Object.fromEntries(this.entries);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async setItems(entries: Record<string, string>): Promise<void> {
+    Object.entries(entries).forEach(([key, value]) => this.entries.set(key, value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async writeItems(entries: Record<string, string | null>): Promise<void> {
+    Object.entries(entries).forEach(([key, value]) =>
+      value === null ? this.entries.delete(key) : this.entries.set(key, value)
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { StorageService, VersionedReadOptions } from './storageService';
+import { MemoryStorageAdapter } from './storageAdapters';
+
+/** 文字列の配列として読み込む設定（v0は「,」区切りの文字列） */
+const options: VersionedReadOptions<string[]> = {
+  version: 1,
+  migrations: [{ version: 1, description: '配列にする', migrate: data => String(data).split(',') }],
+  restore: data => {
+    if (!Array.isArray(data)) throw new Error('配列ではありません');
+    return {
+      value: data.filter((item): item is string => typeof item === 'string'),
+      rejected: data.filter(item => typeof item !== 'string'),
+    };
+  },
+  fallback: [],
+};
+
+const adapter = new MemoryStorageAdapter();
+
+beforeAll(async () => {
+  await StorageService.init(() => true, adapter);
+});
+
+describe('StorageService.readVersioned', () => {
+  it('読み込めないデータがあっても保存内容を変更しない', () => {
+    StorageService.setItem('broken', '{');
+    StorageService.setItem('partial', JSON.stringify({ schemaVersion: 1, data: ['a', 1] }));
+    StorageService.setItem('legacy', JSON.stringify('a,b'));
+    const keys = StorageService.keys();
+
+    expect(StorageService.readVersioned('broken', options)).toMatchObject({ value: [], rejected: { whole: true } });
+    expect(StorageService.readVersioned('partial', options)).toMatchObject({
+      value: ['a'],
+      rejected: { whole: false },
+      needsRewrite: true,
+    });
+    expect(StorageService.readVersioned('legacy', options)).toEqual({
+      value: ['a', 'b'],
+      rejected: null,
+      needsRewrite: true,
+    });
+
+    expect(StorageService.keys()).toEqual(keys);
+    expect(StorageService.getItem('broken')).toBe('{');
+  });
+
+  it('repairVersionedで読み込めないデータを隔離し、移行したデータを保存し直す', () => {
+    StorageService.repairVersioned('broken', options);
+    StorageService.repairVersioned('partial', options);
+    StorageService.repairVersioned('legacy', options);
+
+    expect(StorageService.getItem('broken')).toBeNull();
+    expect(StorageService.readVersioned('partial', options)).toEqual({ value: ['a'], rejected: null, needsRewrite: false });
+    expect(StorageService.readVersioned('legacy', options)).toEqual({
+      value: ['a', 'b'],
+      rejected: null,
+      needsRewrite: false,
+    });
+    expect(StorageService.listQuarantine().map(entry => entry.sourceKey).sort()).toEqual(['broken', 'partial']);
+  });
+});
+
+describe('StorageService.batch', () => {
+  it('処理中の保存・削除を1回の書き込みでまとめて保存する', async () => {
+    StorageService.setItem('todos', 'a');
+    await StorageService.flush();
+    const writeItems = vi.spyOn(adapter, 'writeItems');
+    const setItems = vi.spyOn(adapter, 'setItems');
+
+    StorageService.batch(() => {
+      StorageService.setItem('todos', 'b');
+      StorageService.setItem('trash', 'a');
+      StorageService.setItem('outbox', '1');
+      StorageService.removeItem('outbox');
+    });
+    await StorageService.flush();
+
+    expect(setItems).not.toHaveBeenCalled();
+    expect(writeItems).toHaveBeenCalledTimes(1);
+    expect(writeItems).toHaveBeenCalledWith({ todos: 'b', trash: 'a', outbox: null });
+    expect(await adapter.loadAll()).toMatchObject({ todos: 'b', trash: 'a' });
+    writeItems.mockRestore();
+    setItems.mockRestore();
+  });
+
+  it('処理が例外を投げた場合は、メモリへの反映を取り消して何も書き込まない', async () => {
+    const writeItems = vi.spyOn(adapter, 'writeItems');
+
+    expect(() =>
+      StorageService.batch(() => {
+        StorageService.setItem('todos', 'c');
+        throw new Error('保存できません');
+      })
+    ).toThrow('保存できません');
+    await StorageService.flush();
+
+    expect(StorageService.getItem('todos')).toBe('b');
+    expect(writeItems).not.toHaveBeenCalled();
+    writeItems.mockRestore();
+  });
+});
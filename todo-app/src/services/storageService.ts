@@ -0,0 +1,691 @@
+import {
+  StorageAdapter,
+  StorageBackend,
+  IndexedDbAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+} from './storageAdapters';
+
+/**
+ * 保存データの移行処理（versionは移行後のバージョン）
+ */
+export interface Migration {
+  /** 移行後のデータ構造のバージョン */
+  version: number;
+  /** 移行内容の説明 */
+  description: string;
+  /** 1つ前のバージョンのデータを変換する */
+  migrate: (data: unknown) => unknown;
+}
+
+/**
+ * 保存データの復元結果
+ */
+export interface RestoreResult<T> {
+  /** 復元できた値 */
+  value: T;
+  /** 復元できなかったレコード（隔離する） */
+  rejected: unknown[];
+}
+
+/**
+ * バージョン付きでデータを読み込むための設定
+ */
+export interface VersionedReadOptions<T> {
+  /** 現在のデータ構造のバージョン */
+  version: number;
+  /** バージョン順の移行処理 */
+  migrations: Migration[];
+  /** 移行後のデータを値に復元する（形式が正しくない場合は例外を投げる） */
+  restore: (data: unknown) => RestoreResult<T>;
+  /** データがない場合・読み込めなかった場合の値 */
+  fallback: T;
+}
+
+/**
+ * バージョン付きのデータの読み込み結果（隔離や保存し直しが必要かどうかを含む）
+ */
+export interface VersionedReadResult<T> {
+  /** 復元した値 */
+  value: T;
+  /** 読み込めなかったデータ（隔離する、ない場合はnull） */
+  rejected: {
+    /** 隔離するデータ（保存されていた文字列、または復元できなかったレコードのJSON） */
+    content: string;
+    /** 隔離する理由 */
+    reason: string;
+    /** trueの場合はデータ全体を読み込めなかった（隔離した後に元のキーから削除する） */
+    whole: boolean;
+  } | null;
+  /** 移行したデータ・隔離したレコードを除いたデータを保存し直す必要があるか */
+  needsRewrite: boolean;
+}
+
+/**
+ * 隔離されたデータ
+ */
+export interface QuarantineEntry {
+  /** 隔離データの保存キー */
+  id: string;
+  /** 元の保存キー */
+  sourceKey: string;
+  /** 隔離した理由 */
+  reason: string;
+  /** 隔離した日時 */
+  quarantinedAt: Date;
+  /** 隔離したデータ（保存されていた文字列、またはレコードのJSON） */
+  content: string;
+}
+
+/**
+ * 別のタブでの保存内容の変更
+ */
+export interface StorageChange {
+  /** 保存キー */
+  key: string;
+  /** 変更後の値（削除された場合はnull） */
+  value: string | null;
+  /** 変更前の値（変更したタブが最後に知っていた値、なかった場合はnull） */
+  previous: string | null;
+}
+
+/**
+ * ストレージに保存する形式（バージョン付き）
+ */
+interface VersionedPayload {
+  schemaVersion: number;
+  data: unknown;
+}
+
+/**
+ * バージョン付きの保存形式かどうか判定する
+ */
+const isVersionedPayload = (value: unknown): value is VersionedPayload =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Number.isInteger((value as Record<string, unknown>).schemaVersion) &&
+  'data' in value;
+
+/**
+ * データの保存先の選択・保存と、バージョン付きのデータの移行・読み込めないデータの隔離を提供するサービスクラス
+ * - 起動時に保存先（IndexedDB → ローカルストレージ → メモリの順）を選び、保存されているデータをメモリに読み込む
+ * - 読み込みはメモリから同期的に行い、保存はメモリへ反映した後に保存先へ順に書き込む（すべての保存はこのクラスを経由する）
+ * - 読み込めないデータは破棄せずに隔離用のキーへ移し、次の保存で失われないようにする
+ * - 保存内容の変更は他のタブへ通知し、他のタブの変更はメモリへ反映してwindowへ通知する
+ */
+export class StorageService {
+  /** 隔離データの保存キーの接頭辞（「quarantine:<ID>」となる） */
+  static readonly QUARANTINE_PREFIX = 'quarantine:';
+
+  /** データを隔離したときにwindowへ通知するイベント名 */
+  static readonly QUARANTINE_EVENT = 'kiro-todo:quarantine';
+
+  /** 保存先への書き込みに失敗したときにwindowへ通知するイベント名（detailにエラーメッセージ） */
+  static readonly ERROR_EVENT = 'kiro-todo:storage-error';
+
+  /** 別のタブの変更を反映したときにwindowへ通知するイベント名（detailにStorageChange） */
+  static readonly CHANGE_EVENT = 'kiro-todo:storage-change';
+
+  /** タブ間で変更を通知するBroadcastChannelの名前 */
+  static readonly CHANNEL_NAME = 'kiro-todo';
+
+  /**
+   * BroadcastChannelが利用できない場合に、タブ間で変更を通知するローカルストレージのキー
+   * 変更された保存キーだけを書き込んですぐに削除し、storageイベントだけを利用する（値は保存先から読み直す）
+   */
+  static readonly TAB_PING_KEY = 'kiro-todo:tab-change';
+
+  /** 選択した保存先（初期化前はnull） */
+  private static adapter: StorageAdapter | null = null;
+
+  /** 保存されているデータ（保存先から読み込んだ内容と、その後の変更） */
+  private static readonly cache = new Map<string, string>();
+
+  /** 初期化処理（複数回呼ばれても1回だけ行う） */
+  private static initialization: Promise<StorageBackend> | null = null;
+
+  /** 保存先への書き込み（書き込み順を保つために直列に行う） */
+  private static pending: Promise<void> = Promise.resolve();
+
+  /** batchの実行中にまとめて書き込む変更（保存キーごと、実行中でない場合はnull） */
+  private static batchChanges: Map<string, StorageChange> | null = null;
+
+  /** タブ間の通知（BroadcastChannelが利用できない場合はnull） */
+  private static channel: BroadcastChannel | null = null;
+
+  /** ローカルストレージのstorageイベントでタブ間の通知を行うか（BroadcastChannelもローカルストレージへの保存も使えない場合） */
+  private static usePing = false;
+
+  /**
+   * 保存先を選んでデータを読み込む
+   * IndexedDBを使う場合は、ローカルストレージに残っているアプリのデータをIndexedDBへ移す
+   * @param isAppKey アプリのデータの保存キーか判定する関数（ローカルストレージの読み込み・移行の対象）
+   * @param adapter 使用する保存先（省略時は自動で選択する）
+   * @returns 選択した保存先
+   */
+  static init(isAppKey: (key: string) => boolean, adapter?: StorageAdapter): Promise<StorageBackend> {
+    this.initialization ??= (
+      adapter
+        ? adapter.loadAll().then(entries => ({ adapter, entries }))
+        : this.selectAdapter(isAppKey)
+    ).then(({ adapter: selected, entries }) => {
+      Object.entries(entries).forEach(([key, value]) => this.cache.set(key, value));
+      this.adapter = selected;
+      this.listenToOtherTabs();
+      return selected.backend;
+    });
+    return this.initialization;
+  }
+
+  /**
+   * ストレージが利用できるか（初期化が完了しているか）判定する
+   */
+  static isAvailable(): boolean {
+    return this.adapter !== null;
+  }
+
+  /**
+   * 選択した保存先を取得する
+   * @returns 保存先（初期化前はnull）
+   */
+  static getBackend(): StorageBackend | null {
+    return this.adapter?.backend ?? null;
+  }
+
+  /**
+   * 値を読み込む
+   * @param key 保存キー
+   * @returns 保存されている値（ない場合はnull）
+   */
+  static getItem(key: string): string | null {
+    return this.cache.get(key) ?? null;
+  }
+
+  /**
+   * 値を保存する
+   * @param key 保存キー
+   * @param value 保存する値
+   */
+  static setItem(key: string, value: string): void {
+    const adapter = this.requireAdapter();
+    const previous = this.getItem(key);
+    this.cache.set(key, value);
+    this.record({ key, value, previous }, () => adapter.setItems({ [key]: value }));
+  }
+
+  /**
+   * 値を削除する
+   * @param key 保存キー
+   */
+  static removeItem(key: string): void {
+    const adapter = this.requireAdapter();
+    const previous = this.getItem(key);
+    this.cache.delete(key);
+    this.record({ key, value: null, previous }, () => adapter.removeItem(key));
+  }
+
+  /**
+   * 複数の保存・削除をまとめて1回で書き込む
+   * 処理中のsetItem・removeItemはメモリへすぐに反映し、保存先へは処理の後に1回でまとめて書き込む
+   * （一部だけが保存されることはない）。処理が例外を投げた場合は、メモリへの反映も取り消して何も書き込まない
+   * @param action まとめて書き込む処理
+   */
+  static batch(action: () => void): void {
+    if (this.batchChanges) {
+      action();
+      return;
+    }
+
+    const adapter = this.requireAdapter();
+    const changes = new Map<string, StorageChange>();
+    this.batchChanges = changes;
+    try {
+      action();
+    } catch (error) {
+      changes.forEach(({ key, previous }) =>
+        previous === null ? this.cache.delete(key) : this.cache.set(key, previous)
+      );
+      throw error;
+    } finally {
+      this.batchChanges = null;
+    }
+
+    if (changes.size === 0) return;
+    const entries = Object.fromEntries([...changes.values()].map(({ key, value }) => [key, value]));
+    this.persist(() => adapter.writeItems(entries));
+    changes.forEach(change => this.notifyOtherTabs(change));
+  }
+
+  /**
+   * 保存されているキーの一覧を取得する
+   * @returns 保存キーの一覧
+   */
+  static keys(): string[] {
+    return [...this.cache.keys()];
+  }
+
+  /**
+   * 保存先への書き込みがすべて終わるまで待つ
+   */
+  static flush(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * 画面の外で行った変更（同期サーバーから受け取った変更など）を、このタブの画面へ通知する
+   * 通知を受けた画面は、別のタブの変更と同じく手元の状態とマージする
+   * @param change 変更内容
+   */
+  static notifyChange(change: StorageChange): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent<StorageChange>(this.CHANGE_EVENT, { detail: change }));
+  }
+
+  /**
+   * バージョン付きのデータを読み込む（保存内容は変更しない）
+   * - バージョンのない古いデータ（バージョン0）を含め、古いバージョンのデータは順に移行する
+   * - JSONとして読み込めない・新しいバージョンで保存された・移行や復元に失敗したデータは、丸ごと読み込めなかったものとする
+   * - 一部のレコードだけ復元できない場合は、そのレコードだけを除いて残りを使う
+   * 描画中にも呼ばれるため、隔離や保存し直しはrepairVersionedで行う
+   * @param key 保存キー
+   * @param options 読み込みの設定
+   * @returns 復元した値と、読み込めなかったデータ
+   */
+  static readVersioned<T>(key: string, options: VersionedReadOptions<T>): VersionedReadResult<T> {
+    const result = (
+      value: T,
+      rejected: VersionedReadResult<T>['rejected'] = null,
+      needsRewrite = false
+    ): VersionedReadResult<T> => ({
+      value,
+      rejected,
+      needsRewrite,
+    });
+
+    if (!this.isAvailable()) {
+      console.warn('ストレージが利用できません');
+      return result(options.fallback);
+    }
+
+    const stored = this.getItem(key);
+    if (stored === null) {
+      return result(options.fallback);
+    }
+
+    let payload: VersionedPayload;
+    try {
+      const parsed: unknown = JSON.parse(stored);
+      payload = isVersionedPayload(parsed) ? parsed : { schemaVersion: 0, data: parsed };
+    } catch (error) {
+      console.error(`保存データを読み込めませんでした (key: ${key}):`, error);
+      return result(options.fallback, {
+        content: stored,
+        reason: 'データが壊れているため読み込めませんでした',
+        whole: true,
+      });
+    }
+
+    if (payload.schemaVersion > options.version) {
+      return result(options.fallback, {
+        content: stored,
+        reason: `新しいバージョン（v${payload.schemaVersion}）のアプリで保存されたデータのため読み込めませんでした`,
+        whole: true,
+      });
+    }
+
+    try {
+      const { value, rejected } = options.restore(this.migrate(payload, options));
+      if (rejected.length === 0) {
+        return result(value, null, payload.schemaVersion < options.version);
+      }
+
+      return result(
+        value,
+        {
+          content: JSON.stringify(rejected, null, 2),
+          reason: `${rejected.length}件のデータが正しくないため読み込めませんでした（残りのデータは復元されています）`,
+          whole: false,
+        },
+        true
+      );
+    } catch (error) {
+      console.error(`保存データの移行に失敗しました (key: ${key}):`, error);
+      return result(options.fallback, {
+        content: stored,
+        reason: 'データの形式が正しくないため読み込めませんでした',
+        whole: true,
+      });
+    }
+  }
+
+  /**
+   * バージョン付きのデータを読み込み、読み込めなかったデータを隔離して保存し直す
+   * - 読み込めなかったデータは破棄せずに隔離用のキーへ移し、次の保存で失われないようにする
+   * - 移行したデータ・隔離したレコードを除いたデータを保存し直す（次回の読み込みで同じ処理を繰り返さない）
+   * 起動時（描画の前）に保存されているデータごとに呼び出す
+   * @param key 保存キー
+   * @param options 読み込みの設定
+   */
+  static repairVersioned<T>(key: string, options: VersionedReadOptions<T>): void {
+    const { value, rejected, needsRewrite } = this.readVersioned(key, options);
+
+    if (rejected?.whole) {
+      // 隔離できなかった場合は元のデータを残す
+      if (this.quarantine(key, rejected.content, rejected.reason)) {
+        this.removeItem(key);
+      }
+      return;
+    }
+
+    if (rejected) {
+      this.quarantine(key, rejected.content, rejected.reason);
+    }
+    if (needsRewrite) {
+      this.rewrite(key, options.version, value);
+    }
+  }
+
+  /**
+   * 保存されていた値を読み込む（隔離や保存し直しは行わず、復元できないレコードは除く）
+   * 別のタブから通知された変更前の値など、保存されていない値の復元に使用する
+   * @param stored 保存されていた値
+   * @param options 読み込みの設定
+   * @returns 復元した値（値がない場合や読み込めない場合はfallback）
+   */
+  static decodeVersioned<T>(stored: string | null, options: VersionedReadOptions<T>): T {
+    if (stored === null) return options.fallback;
+
+    try {
+      const parsed: unknown = JSON.parse(stored);
+      const payload = isVersionedPayload(parsed) ? parsed : { schemaVersion: 0, data: parsed };
+      if (payload.schemaVersion > options.version) return options.fallback;
+
+      return options.restore(this.migrate(payload, options)).value;
+    } catch {
+      return options.fallback;
+    }
+  }
+
+  /**
+   * バージョン付きでデータを保存する
+   * @param key 保存キー
+   * @param version データ構造のバージョン
+   * @param data 保存するデータ
+   */
+  static writeVersioned(key: string, version: number, data: unknown): void {
+    const payload: VersionedPayload = { schemaVersion: version, data };
+    this.setItem(key, JSON.stringify(payload));
+  }
+
+  /**
+   * データを隔離用のキーに保存する
+   * @param sourceKey 元の保存キー
+   * @param content 隔離するデータ
+   * @param reason 隔離する理由
+   * @param now 隔離日時
+   * @returns 保存できた場合はtrue
+   */
+  static quarantine(sourceKey: string, content: string, reason: string, now: Date = new Date()): boolean {
+    try {
+      this.setItem(
+        `${this.QUARANTINE_PREFIX}${crypto.randomUUID()}`,
+        JSON.stringify({ sourceKey, reason, quarantinedAt: now, content })
+      );
+      console.warn(`データを隔離しました (key: ${sourceKey}): ${reason}`);
+
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event(this.QUARANTINE_EVENT));
+      }
+      return true;
+    } catch (error) {
+      console.error(`データの隔離に失敗しました (key: ${sourceKey}):`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 隔離されたデータの一覧を取得する
+   * @returns 隔離されたデータ（新しい順）
+   */
+  static listQuarantine(): QuarantineEntry[] {
+    if (!this.isAvailable()) return [];
+
+    const entries: QuarantineEntry[] = [];
+    for (const id of this.keys()) {
+      if (!id.startsWith(this.QUARANTINE_PREFIX)) continue;
+
+      try {
+        const raw = JSON.parse(this.getItem(id) ?? '{}') as Record<string, unknown>;
+        entries.push({
+          id,
+          sourceKey: String(raw.sourceKey ?? ''),
+          reason: String(raw.reason ?? ''),
+          quarantinedAt: new Date(raw.quarantinedAt as string),
+          content: String(raw.content ?? ''),
+        });
+      } catch (error) {
+        console.error(`隔離データを読み込めませんでした (key: ${id}):`, error);
+      }
+    }
+
+    return entries.sort((a, b) => b.quarantinedAt.getTime() - a.quarantinedAt.getTime());
+  }
+
+  /**
+   * 隔離されたデータを削除する
+   * @param id 隔離データの保存キー
+   */
+  static removeQuarantine(id: string): void {
+    if (!this.isAvailable() || !id.startsWith(this.QUARANTINE_PREFIX)) return;
+    this.removeItem(id);
+  }
+
+  /**
+   * 古いバージョンのデータを現在のバージョンへ順に移行する
+   */
+  private static migrate<T>(payload: VersionedPayload, options: VersionedReadOptions<T>): unknown {
+    return options.migrations
+      .filter(migration => migration.version > payload.schemaVersion && migration.version <= options.version)
+      .sort((a, b) => a.version - b.version)
+      .reduce((current, migration) => migration.migrate(current), payload.data);
+  }
+
+  /**
+   * 読み込んだデータを保存し直す（失敗しても読み込みは続ける）
+   */
+  private static rewrite(key: string, version: number, data: unknown): void {
+    try {
+      this.writeVersioned(key, version, data);
+    } catch (error) {
+      console.error(`移行したデータの保存に失敗しました (key: ${key}):`, error);
+    }
+  }
+
+  /**
+   * 利用できる保存先を選び、保存されているデータを読み込む
+   */
+  private static async selectAdapter(
+    isAppKey: (key: string) => boolean
+  ): Promise<{ adapter: StorageAdapter; entries: Record<string, string> }> {
+    const hasLocalStorage = LocalStorageAdapter.isSupported();
+
+    if (IndexedDbAdapter.isSupported()) {
+      try {
+        const adapter = await IndexedDbAdapter.open();
+        const entries = await adapter.loadAll();
+
+        if (hasLocalStorage) {
+          Object.assign(entries, await this.migrateFromLocalStorage(adapter, new LocalStorageAdapter(isAppKey)));
+        }
+        return { adapter, entries };
+      } catch (error) {
+        console.warn('IndexedDBが利用できないため、ローカルストレージに保存します:', error);
+      }
+    }
+
+    if (hasLocalStorage) {
+      try {
+        const adapter = new LocalStorageAdapter(isAppKey);
+        return { adapter, entries: await adapter.loadAll() };
+      } catch (error) {
+        console.warn('ローカルストレージを読み込めません:', error);
+      }
+    }
+
+    console.warn('ストレージが利用できないため、データは永続化されません');
+    return { adapter: new MemoryStorageAdapter(), entries: {} };
+  }
+
+  /**
+   * ローカルストレージに残っているデータをIndexedDBへ移す
+   * （IndexedDBへの書き込みが完了してからローカルストレージのデータを削除する）
+   * @returns 移したデータ
+   */
+  private static async migrateFromLocalStorage(
+    target: StorageAdapter,
+    source: LocalStorageAdapter
+  ): Promise<Record<string, string>> {
+    const entries = await source.loadAll();
+    const keys = Object.keys(entries);
+    if (keys.length === 0) return {};
+
+    await target.setItems(entries);
+    await Promise.all(keys.map(key => source.removeItem(key)));
+    console.info(`${keys.length}件のデータをローカルストレージからIndexedDBへ移しました`);
+    return entries;
+  }
+
+  /**
+   * 初期化前の保存を防ぐ（初期化前に保存すると、読み込んだデータで上書きされてしまう）
+   */
+  private static requireAdapter(): StorageAdapter {
+    if (!this.adapter) {
+      throw new Error('ストレージが初期化されていません');
+    }
+    return this.adapter;
+  }
+
+  /**
+   * 別のタブの変更を受け取る
+   * BroadcastChannelが利用できない場合は、ローカルストレージのstorageイベントで受け取る
+   * （ローカルストレージに保存している場合は保存したデータの変更を、IndexedDBに保存している場合は通知用のキーへの書き込みを受け取る）
+   */
+  private static listenToOtherTabs(): void {
+    if (typeof window === 'undefined') return;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<StorageChange>) => this.applyChange(event.data);
+    } else if (this.adapter?.backend === 'localstorage') {
+      window.addEventListener('storage', event => {
+        if (event.storageArea === window.localStorage && event.key !== null) {
+          this.applyChange({ key: event.key, value: event.newValue, previous: event.oldValue });
+        }
+      });
+    } else if (this.adapter?.backend === 'indexeddb' && LocalStorageAdapter.isSupported()) {
+      this.usePing = true;
+      window.addEventListener('storage', event => {
+        if (event.storageArea !== window.localStorage || event.key !== this.TAB_PING_KEY || !event.newValue) return;
+        try {
+          const { key } = JSON.parse(event.newValue) as { key: string };
+          void this.reloadChange(key);
+        } catch (error) {
+          console.error('他のタブの変更を読み込めませんでした:', error);
+        }
+      });
+    } else if (this.adapter?.backend === 'indexeddb') {
+      console.warn('このブラウザでは他のタブへ変更を通知できません。複数のタブで同時に編集すると変更が失われる場合があります');
+    }
+  }
+
+  /**
+   * 別のタブが変更した値を保存先から読み直して反映する（変更前の値は、このタブが最後に知っていた値とする）
+   */
+  private static async reloadChange(key: string): Promise<void> {
+    try {
+      const value = await this.requireAdapter().getItem(key);
+      const previous = this.getItem(key);
+      if (value !== previous) {
+        this.applyChange({ key, value, previous });
+      }
+    } catch (error) {
+      console.error(`他のタブの変更を読み込めませんでした (key: ${key}):`, error);
+    }
+  }
+
+  /**
+   * 別のタブの変更をメモリへ反映し、windowへ通知する（保存先へは変更したタブが書き込み済み）
+   */
+  private static applyChange(change: StorageChange): void {
+    if (change.value === null) {
+      this.cache.delete(change.key);
+    } else {
+      this.cache.set(change.key, change.value);
+    }
+    this.notifyChange(change);
+  }
+
+  /**
+   * 別のタブへ変更を通知する
+   */
+  private static notifyOtherTabs(change: StorageChange): void {
+    try {
+      this.channel?.postMessage(change);
+    } catch (error) {
+      console.error('他のタブへの変更の通知に失敗しました:', error);
+    }
+
+    if (this.usePing) {
+      // 受け取ったタブは保存先から読み直すため、保存先への書き込みが終わってから通知する
+      void this.pending.then(() => this.ping(change.key));
+    }
+  }
+
+  /**
+   * ローカルストレージのstorageイベントで、変更された保存キーを他のタブへ通知する
+   */
+  private static ping(key: string): void {
+    try {
+      // 同じキーでもstorageイベントが発生するよう、書き込むたびに異なる値にする
+      window.localStorage.setItem(this.TAB_PING_KEY, JSON.stringify({ key, nonce: crypto.randomUUID() }));
+      window.localStorage.removeItem(this.TAB_PING_KEY);
+    } catch (error) {
+      console.error('他のタブへの変更の通知に失敗しました:', error);
+    }
+  }
+
+  /**
+   * 変更を保存先へ書き込み、他のタブへ通知する（batchの実行中は処理の後にまとめて行う）
+   */
+  private static record(change: StorageChange, write: () => Promise<void>): void {
+    if (this.batchChanges) {
+      // 同じキーを複数回変更した場合は、最初の変更前の値と最後の値を使う
+      const earlier = this.batchChanges.get(change.key);
+      this.batchChanges.set(change.key, earlier ? { ...change, previous: earlier.previous } : change);
+      return;
+    }
+
+    this.persist(write);
+    this.notifyOtherTabs(change);
+  }
+
+  /**
+   * 保存先へ書き込む（失敗した場合はwindowへ通知する）
+   */
+  private static persist(write: () => Promise<void>): void {
+    this.pending = this.pending
+      .then(write)
+      .catch((error: unknown) => {
+        console.error('データの保存に失敗しました:', error);
+
+        const message =
+          error instanceof Error && error.name === 'QuotaExceededError'
+            ? 'ストレージ容量が不足しています。ゴミ箱を空にするか、古いデータを削除してください。'
+            : 'データの保存に失敗しました。ページを再読み込みすると変更が失われる可能性があります。';
+        if (typeof window !== 'undefined') {
+          window.dispatchEvent(new CustomEvent(this.ERROR_EVENT, { detail: message }));
+        }
+      });
+  }
+}
@@ -0,0 +1,432 @@
+import { Todo, TodoListMeta, isNonEmptyString } from '@/types';
+import { StorageService } from './storageService';
+import { TodoService } from './todoService';
+import { ListService } from './listService';
+import { TrashService } from './trashService';
+import { ChangeLogService, ChangeEntry, SyncRecordKind } from './changeLogService';
+
+/**
+ * 同期サーバーとやり取りするレコード（変更・削除の1件）
+ */
+export interface SyncRecord {
+  kind: SyncRecordKind;
+  /** レコード（リストまたはTODO）のID */
+  id: string;
+  /** TODOの場合は所属するリストのID */
+  listId?: string;
+  /** 変更（削除）した日時（ISO 8601形式。競合時は新しい方を採用する） */
+  updatedAt: string;
+  /** 削除された場合はtrue（tombstone） */
+  deleted: boolean;
+  /** レコードの内容（JSON。削除された場合はなし） */
+  data?: unknown;
+}
+
+/**
+ * 同期の設定
+ */
+export interface SyncSettings {
+  /** 同期サーバーのURL（末尾の/なし） */
+  endpoint: string;
+  /** 認証トークン（サーバーで設定した場合のみ） */
+  token?: string;
+  /** 受け取り済みの変更の位置（サーバーが返した値） */
+  cursor: number;
+  /** 最後に同期した日時（ISO 8601形式） */
+  lastSyncedAt?: string;
+}
+
+/**
+ * 同期の結果
+ */
+export interface SyncResult {
+  /** 送信した変更の件数 */
+  pushed: number;
+  /** 受け取って反映した変更の件数 */
+  pulled: number;
+}
+
+/**
+ * 同期サーバーの応答
+ */
+interface SyncResponse {
+  cursor: number;
+  changes: SyncRecord[];
+}
+
+/**
+ * 同期中に読み込んだ手元のレコード（同じリストを何度も読み込まないようにする）
+ */
+interface LocalRecords {
+  lists: TodoListMeta[];
+  todos: Map<string, Todo[]>;
+}
+
+/**
+ * レコードを比べる（同期サーバーと同じ規則。どの端末で比べても同じ結果になる）
+ * - 変更日時の新しい方を優先する
+ * - 同じ日時の場合は削除を優先し、それでも決まらない場合は内容で決める
+ * @returns aを優先する場合は正の数、bを優先する場合は負の数
+ */
+const compareRecords = (a: SyncRecord, b: SyncRecord): number => {
+  const diff = Date.parse(a.updatedAt) - Date.parse(b.updatedAt);
+  if (diff !== 0) return diff;
+  if (a.deleted !== b.deleted) return a.deleted ? 1 : -1;
+
+  const aData = JSON.stringify(a.data) ?? '';
+  const bData = JSON.stringify(b.data) ?? '';
+  return aData === bData ? 0 : aData > bData ? 1 : -1;
+};
+
+/**
+ * 同期サーバーから受け取ったレコードの形式か判定する
+ */
+const isSyncRecord = (value: unknown): value is SyncRecord => {
+  const record = (value ?? {}) as Record<string, unknown>;
+  return (
+    (record.kind === 'list' || (record.kind === 'todo' && isNonEmptyString(record.listId))) &&
+    isNonEmptyString(record.id) &&
+    typeof record.updatedAt === 'string' &&
+    !Number.isNaN(Date.parse(record.updatedAt)) &&
+    typeof record.deleted === 'boolean'
+  );
+};
+
+/**
+ * 自前で運用できる同期サーバー（REST）との同期機能を提供するサービスクラス
+ * - 送信待ちの変更（ChangeLogService）を送り、前回以降にサーバーが受け付けた変更を受け取る
+ * - 変更はリスト・TODO単位で、変更日時の新しい方を採用する（削除はtombstoneとして送る）
+ * - 送信中に手元で再度変更したレコードは、受け取った変更と比べて新しい方を残す
+ * 同期サーバーの実装は sync-server/server.mjs を参照
+ */
+export class SyncService {
+  /** 同期の設定の保存キー */
+  static readonly SETTINGS_KEY = 'sync-settings';
+
+  /** 同期サーバーの応答を待つ時間（ミリ秒） */
+  static readonly TIMEOUT_MS = 15000;
+
+  /**
+   * 同期の設定を読み込む
+   * @returns 同期の設定（同期が無効な場合はnull）
+   */
+  static loadSettings(): SyncSettings | null {
+    const stored = StorageService.getItem(this.SETTINGS_KEY);
+    if (stored === null) return null;
+
+    try {
+      const settings = JSON.parse(stored) as Partial<SyncSettings>;
+      if (!isNonEmptyString(settings.endpoint)) return null;
+
+      return {
+        endpoint: settings.endpoint,
+        token: isNonEmptyString(settings.token) ? settings.token : undefined,
+        cursor: Number.isInteger(settings.cursor) ? (settings.cursor as number) : 0,
+        lastSyncedAt: typeof settings.lastSyncedAt === 'string' ? settings.lastSyncedAt : undefined,
+      };
+    } catch (error) {
+      console.error('同期の設定を読み込めませんでした:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 同期の設定を保存する
+   * @param settings 同期の設定
+   */
+  static saveSettings(settings: SyncSettings): void {
+    StorageService.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  /**
+   * 同期サーバーのURLを検証する
+   * @param endpoint 同期サーバーのURL
+   * @returns 検証結果
+   */
+  static validateEndpoint(endpoint: string): { isValid: boolean; error?: string } {
+    if (!endpoint.trim()) {
+      return { isValid: false, error: '同期サーバーのURLを入力してください' };
+    }
+
+    try {
+      const url = new URL(endpoint.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { isValid: false, error: 'URLはhttp://またはhttps://で始めてください' };
+      }
+    } catch {
+      return { isValid: false, error: 'URLの形式が正しくありません' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * 同期を有効にする（手元のリストとTODOをすべて送信待ちにする）
+   * 送信するレコードの変更日時は各レコードの更新日時とし、サーバーにより新しい変更があればそちらを採用する
+   * @param endpoint 同期サーバーのURL
+   * @param token 認証トークン
+   * @throws URLが正しくない場合
+   */
+  static enable(endpoint: string, token?: string): void {
+    const validation = this.validateEndpoint(endpoint);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+
+    const lists = ListService.loadLists();
+    const records: Omit<ChangeEntry, 'seq'>[] = lists.flatMap(list => [
+      { kind: 'list' as const, id: list.id, changedAt: (list.updatedAt ?? list.createdAt).toISOString() },
+      ...TodoService.loadTodos(list.id).map(todo => ({
+        kind: 'todo' as const,
+        id: todo.id,
+        listId: list.id,
+        changedAt: todo.updatedAt.toISOString(),
+      })),
+    ]);
+
+    this.saveSettings({
+      endpoint: endpoint.trim().replace(/\/+$/, ''),
+      token: token?.trim() || undefined,
+      cursor: 0,
+    });
+    ChangeLogService.start(records);
+  }
+
+  /**
+   * 同期を無効にする（手元のデータはそのまま残し、送信待ちの変更は破棄する）
+   */
+  static disable(): void {
+    StorageService.removeItem(this.SETTINGS_KEY);
+    ChangeLogService.stop();
+  }
+
+  /**
+   * 送信待ちの変更の件数を取得する
+   */
+  static getPendingCount(): number {
+    return Object.keys(ChangeLogService.getEntries()).length;
+  }
+
+  /**
+   * 同期サーバーと同期する（送信待ちの変更を送り、新しい変更を受け取って反映する）
+   * 失敗した場合は送信待ちの変更を残す（次の同期で送り直す）
+   * @returns 同期の結果
+   * @throws 同期が無効な場合、サーバーに接続できない・エラーを返した場合
+   */
+  static async sync(): Promise<SyncResult> {
+    const settings = this.loadSettings();
+    if (!settings) {
+      throw new Error('同期が有効になっていません');
+    }
+
+    const sent = ChangeLogService.getEntries();
+    const local = this.readLocalRecords();
+    const changes = Object.values(sent).map(entry => this.toSyncRecord(entry, local));
+
+    const response = await this.post(settings, { since: settings.cursor, changes });
+
+    // 応答を待つ間に同期を無効にした場合は反映しない
+    const current = this.loadSettings();
+    if (!current || current.endpoint !== settings.endpoint) {
+      return { pushed: changes.length, pulled: 0 };
+    }
+
+    ChangeLogService.acknowledge(sent);
+    const pulled = this.applyRecords(response.changes.filter(isSyncRecord));
+    this.saveSettings({ ...current, cursor: response.cursor, lastSyncedAt: new Date().toISOString() });
+
+    return { pushed: changes.length, pulled };
+  }
+
+  /**
+   * 同期サーバーへ変更を送り、応答を受け取る
+   */
+  private static async post(
+    settings: SyncSettings,
+    body: { since: number; changes: SyncRecord[] }
+  ): Promise<SyncResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.token) {
+      headers.Authorization = `Bearer ${settings.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${settings.endpoint}/sync`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.TIMEOUT_MS),
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'TimeoutError') {
+        throw new Error('同期サーバーの応答がタイムアウトしました');
+      }
+      throw new Error('同期サーバーに接続できませんでした');
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('同期サーバーの認証に失敗しました。トークンを確認してください');
+    }
+    if (!response.ok) {
+      throw new Error(`同期サーバーがエラーを返しました（${response.status}）`);
+    }
+
+    const data = (await response.json().catch(() => null)) as Partial<SyncResponse> | null;
+    if (!data || !Number.isInteger(data.cursor) || !Array.isArray(data.changes)) {
+      throw new Error('同期サーバーの応答の形式が正しくありません');
+    }
+    return data as SyncResponse;
+  }
+
+  /**
+   * 手元のリスト一覧を読み込む（TODOは必要になったリストから読み込む）
+   */
+  private static readLocalRecords(): LocalRecords {
+    return { lists: ListService.loadLists(), todos: new Map() };
+  }
+
+  /**
+   * 手元のリストのTODOを取得する
+   */
+  private static getLocalTodos(local: LocalRecords, listId: string): Todo[] {
+    if (!local.todos.has(listId)) {
+      local.todos.set(listId, TodoService.loadTodos(listId));
+    }
+    return local.todos.get(listId)!;
+  }
+
+  /**
+   * 送信待ちの変更を送信するレコードにする（レコードがなくなっていた場合は削除として送る）
+   */
+  private static toSyncRecord(entry: ChangeEntry, local: LocalRecords): SyncRecord {
+    const record: SyncRecord = { kind: entry.kind, id: entry.id, updatedAt: entry.changedAt, deleted: true };
+    if (entry.listId !== undefined) {
+      record.listId = entry.listId;
+    }
+    if (entry.deleted) return record;
+
+    const current =
+      entry.kind === 'list'
+        ? local.lists.find(list => list.id === entry.id)
+        : this.getLocalTodos(local, entry.listId ?? '').find(todo => todo.id === entry.id);
+    if (!current) return record;
+
+    return { ...record, deleted: false, data: JSON.parse(JSON.stringify(current)) };
+  }
+
+  /**
+   * 受け取ったレコードを反映する
+   * - 送信待ちの変更がないレコードは受け取った内容に置き換える（サーバーで競合を解決済み）
+   * - 送信中に手元で再度変更したレコードは、新しい方を残す
+   * - 削除されたリストのTODOとゴミ箱は削除し、手元にないリストのTODOは反映しない
+   * 反映した変更は、別のタブの変更と同じく画面へ通知する
+   * @param records 受け取ったレコード
+   * @returns 反映したレコードの件数（手元と同じ内容のレコードは数えない）
+   */
+  private static applyRecords(records: SyncRecord[]): number {
+    if (records.length === 0) return 0;
+
+    const local = this.readLocalRecords();
+    const pending = ChangeLogService.getEntries();
+    const overwritten: string[] = [];
+
+    const accepted = records.filter(record => {
+      const key = ChangeLogService.getKey(record.kind, record.id, record.listId);
+      const entry = pending[key];
+      if (!entry) return true;
+      if (compareRecords(record, this.toSyncRecord(entry, local)) <= 0) return false;
+
+      overwritten.push(key);
+      return true;
+    });
+
+    let applied = 0;
+    const lists = ChangeLogService.withoutTracking(() => {
+      // リストを先に反映し、同じ応答に含まれる新しいリストのTODOを反映できるようにする
+      const removedListIds: string[] = [];
+      let lists = local.lists;
+      accepted
+        .filter(record => record.kind === 'list')
+        .forEach(record => {
+          if (record.deleted) {
+            if (!lists.some(list => list.id === record.id)) return;
+            removedListIds.push(record.id);
+            lists = lists.filter(list => list.id !== record.id);
+          } else {
+            const [list] = ListService.restoreLists([record.data]).value;
+            if (!list || list.id !== record.id || this.isSameRecord(lists, list)) return;
+            lists = lists.some(item => item.id === list.id)
+              ? lists.map(item => (item.id === list.id ? list : item))
+              : [...lists, list];
+          }
+          applied++;
+        });
+
+      if (lists !== local.lists) {
+        this.writeAndNotify(ListService.LISTS_KEY, () => ListService.saveLists(lists));
+      }
+
+      removedListIds.forEach(listId => {
+        this.writeAndNotify(TodoService.getStorageKey(listId), () => TodoService.clearTodos(listId));
+        this.writeAndNotify(TrashService.getStorageKey(listId), () => TrashService.clearTrash(listId));
+      });
+
+      // TODOはリストごとにまとめて保存する
+      const byList = new Map<string, SyncRecord[]>();
+      accepted
+        .filter(record => record.kind === 'todo' && lists.some(list => list.id === record.listId))
+        .forEach(record => byList.set(record.listId!, [...(byList.get(record.listId!) ?? []), record]));
+
+      byList.forEach((listRecords, listId) => {
+        let todos = this.getLocalTodos(local, listId);
+        const before = todos;
+        listRecords.forEach(record => {
+          if (record.deleted) {
+            if (!todos.some(todo => todo.id === record.id)) return;
+            todos = todos.filter(todo => todo.id !== record.id);
+          } else {
+            const [todo] = TodoService.restoreTodos([record.data]).value;
+            if (!todo || todo.id !== record.id || this.isSameRecord(todos, todo)) return;
+            todos = todos.some(item => item.id === todo.id)
+              ? todos.map(item => (item.id === todo.id ? todo : item))
+              : [...todos, todo];
+          }
+          applied++;
+        });
+
+        if (todos !== before) {
+          this.writeAndNotify(TodoService.getStorageKey(listId), () => TodoService.saveTodos(todos, listId));
+        }
+      });
+
+      return lists;
+    });
+
+    // 未アーカイブのリストが残らない場合は新しいリストを加える（この変更は次の同期で送る）
+    if (!lists.some(list => !list.archived)) {
+      const created = ListService.createList(ListService.DEFAULT_LIST_NAME);
+      this.writeAndNotify(ListService.LISTS_KEY, () => ListService.saveLists([...lists, created]));
+    }
+
+    ChangeLogService.discard(overwritten);
+    return applied;
+  }
+
+  /**
+   * 手元に同じ内容のレコードがあるか判定する（自分が送った変更が返ってきた場合など）
+   */
+  private static isSameRecord<T extends { id: string }>(records: T[], record: T): boolean {
+    const current = records.find(item => item.id === record.id);
+    return current !== undefined && JSON.stringify(current) === JSON.stringify(record);
+  }
+
+  /**
+   * 保存し、別のタブの変更と同じく画面へ通知する
+   */
+  private static writeAndNotify(key: string, write: () => void): void {
+    const previous = StorageService.getItem(key);
+    write();
+    StorageService.notifyChange({ key, value: StorageService.getItem(key), previous });
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { StorageService } from './storageService';
+import { MemoryStorageAdapter } from './storageAdapters';
+import { ChangeLogService } from './changeLogService';
+import { TodoService } from './todoService';
+
+describe('TodoService.clearTodos', () => {
+  beforeAll(async () => {
+    await StorageService.init(() => true, new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    ChangeLogService.stop();
+  });
+
+  it('同期が有効な場合は、リストのTODOの削除を送信待ちに記録する', () => {
+    const first = TodoService.createTodo({ title: '買い物' });
+    const second = TodoService.createTodo({ title: '掃除' }, [first]);
+    TodoService.saveTodos([first, second], 'list-1');
+    ChangeLogService.start([]);
+
+    TodoService.clearTodos('list-1');
+
+    const entries = Object.values(ChangeLogService.getEntries());
+    expect(entries.map(entry => entry.id).sort()).toEqual([first.id, second.id].sort());
+    expect(entries.every(entry => entry.deleted && entry.listId === 'list-1')).toBe(true);
+    expect(TodoService.loadTodos('list-1')).toEqual([]);
+  });
+
+  it('同期が無効な場合は何も記録しない', () => {
+    TodoService.saveTodos([TodoService.createTodo({ title: '買い物' })], 'list-2');
+
+    TodoService.clearTodos('list-2');
+
+    expect(ChangeLogService.getEntries()).toEqual({});
+  });
+});
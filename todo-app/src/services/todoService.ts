@@ -1,97 +1,320 @@
-import { Todo, CreateTodoInput, TodoUpdate } from '@/types';
+import {
+  Todo,
+  Subtask,
+  CreateTodoInput,
+  TodoUpdate,
+  BulkEdit,
+  TodoPriority,
+  DueStatus,
+  TagFilterMode,
+  StatusFilter,
+  RejectedRecord,
+  TODO_PRIORITIES,
+  isValidDate,
+  isValidPriority,
+} from '@/types';
+import { RecurrenceService } from './recurrenceService';
+import { StorageService, Migration, RestoreResult, VersionedReadOptions } from './storageService';
+import { ChangeLogService } from './changeLogService';
+import { CrdtService, CrdtState, CrdtMergeResult } from './crdtService';
 
 /**
  * TODOアイテムのCRUD操作を提供するサービスクラス
  */
 export class TodoService {
-  private static readonly STORAGE_KEY = 'todos';
+  /** TODOリストの保存キー（リストごとに「todos:<リストID>」となる） */
+  static readonly STORAGE_KEY = 'todos';
+
+  /** 並び順の設定の保存キー */
+  static readonly SORT_MODE_KEY = 'todo-sort-mode';
+
+  /** タグの最大文字数 */
+  static readonly MAX_TAG_LENGTH = 30;
+
+  /** 保存するTODOリストのデータ構造のバージョン */
+  static readonly SCHEMA_VERSION = 1;
+
+  /**
+   * 保存されたTODOリストの移行処理（バージョン順）
+   */
+  static readonly MIGRATIONS: Migration[] = [
+    {
+      version: 1,
+      description: 'バージョン管理導入前の配列に、後から追加した項目の既定値を補う',
+      migrate: data => {
+        if (!Array.isArray(data)) {
+          throw new Error('TODOリストの形式が正しくありません');
+        }
+
+        return data.map((item: unknown) => {
+          if (!item || typeof item !== 'object') return item;
+
+          const record = item as Record<string, unknown>;
+          return {
+            priority: 'none',
+            tags: [],
+            subtasks: [],
+            ...record,
+            updatedAt: record.updatedAt ?? record.createdAt,
+          };
+        });
+      },
+    },
+  ];
 
   /**
    * 新しいTODOアイテムを作成する（要件1.2）
    * @param input TODOアイテムの作成データ
+   * @param existingTodos 追加先のTODOリスト（並び順の位置の決定に使用）
    * @returns 作成されたTODOアイテム
    */
-  static createTodo(input: CreateTodoInput): Todo {
-    return {
+  static createTodo(input: CreateTodoInput, existingTodos: Todo[] = []): Todo {
+    const now = new Date();
+    const todo: Todo = {
       id: crypto.randomUUID(),
       title: input.title.trim(),
       completed: false, // 要件1.4: 新しいTODOは「未完了」ステータス
-      createdAt: new Date(),
+      priority: isValidPriority(input.priority) ? input.priority : 'none',
+      tags: this.normalizeTags(input.tags ?? []),
+      subtasks: [],
+      createdAt: now,
+      updatedAt: now,
+      // 手動の並び順では先頭に追加する
+      position: this.getTopPosition(existingTodos),
     };
+
+    if (isValidDate(input.dueDate)) {
+      todo.dueDate = input.dueDate;
+      todo.hasDueTime = !!input.hasDueTime;
+    }
+
+    if (input.recurrence) {
+      todo.recurrence = input.recurrence;
+    }
+
+    return todo;
   }
 
   /**
-   * TODOリストをローカルストレージに保存する（要件6.1）
+   * リストごとのストレージのキーを取得する
+   * @param listId リストID
+   * @returns ストレージキー
+   */
+  static getStorageKey(listId: string): string {
+    return `${this.STORAGE_KEY}:${listId}`;
+  }
+
+  /**
+   * TODOリストをストレージに保存する（要件6.1）
    * @param todos 保存するTODOリスト
+   * @param listId 保存先のリストID
    */
-  static saveTodos(todos: Todo[]): void {
+  static saveTodos(todos: Todo[], listId: string): void {
     try {
-      if (typeof window === 'undefined' || !window.localStorage) {
-        console.warn('ローカルストレージが利用できません');
+      if (!StorageService.isAvailable()) {
+        console.warn('ストレージが利用できません');
         return;
       }
 
-      const serializedTodos = JSON.stringify(todos);
-      window.localStorage.setItem(this.STORAGE_KEY, serializedTodos);
+      // 同期が有効な場合は、保存前と比べて変更・削除されたTODOを記録する
+      if (ChangeLogService.isTracking()) {
+        const previous = this.decodeTodos(StorageService.getItem(this.getStorageKey(listId)));
+        ChangeLogService.recordChanges('todo', previous, todos, listId);
+      }
+
+      // 保存先への書き込みの失敗（容量不足など）はStorageServiceが通知する
+      StorageService.writeVersioned(this.getStorageKey(listId), this.SCHEMA_VERSION, todos);
     } catch (error) {
       console.error('TODOリストの保存に失敗しました:', error);
-      
-      // ストレージ容量制限への対応
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        throw new Error('ストレージ容量が不足しています。古いデータを削除してください。');
-      }
-      
       throw new Error('データの保存に失敗しました');
     }
   }
 
   /**
-   * ローカルストレージからTODOリストを読み込む（要件6.2）
+   * ストレージからTODOリストを読み込む（要件6.2）
+   * 古い形式のデータは移行し、読み込めないデータは除く（隔離はrepairStorageで行う）
+   * @param listId 読み込むリストID
    * @returns 読み込まれたTODOリスト
    */
-  static loadTodos(): Todo[] {
-    try {
-      if (typeof window === 'undefined' || !window.localStorage) {
-        console.warn('ローカルストレージが利用できません');
-        return [];
+  static loadTodos(listId: string): Todo[] {
+    return StorageService.readVersioned(this.getStorageKey(listId), this.getReadOptions()).value;
+  }
+
+  /**
+   * 保存されているすべてのリストのTODOリストについて、古い形式のデータを移行して保存し直し、
+   * 読み込めないデータは破棄せずに隔離する（起動時に描画の前に行う）
+   */
+  static repairStorage(): void {
+    const prefix = this.getStorageKey('');
+    StorageService.keys()
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => StorageService.repairVersioned(key, this.getReadOptions()));
+  }
+
+  /**
+   * 保存されていた値をTODOリストに復元する（隔離は行わない）
+   * 別のタブから通知された変更前の値の復元に使用する
+   * @param stored 保存されていた値
+   * @returns 復元されたTODOリスト（値がない場合や読み込めない場合は空）
+   */
+  static decodeTodos(stored: string | null): Todo[] {
+    return StorageService.decodeVersioned(stored, this.getReadOptions());
+  }
+
+  /**
+   * 保存されたTODOリストの読み込みの設定
+   */
+  private static getReadOptions(): VersionedReadOptions<Todo[]> {
+    return {
+      version: this.SCHEMA_VERSION,
+      migrations: this.MIGRATIONS,
+      restore: data => this.restoreTodos(data),
+      fallback: [],
+    };
+  }
+
+  /**
+   * 移行後の保存データをTODOリストに復元する
+   * @param data 移行後の保存データ
+   * @returns 復元されたTODOリストと、復元できなかったレコード（理由付き）
+   * @throws 配列でない場合
+   */
+  static restoreTodos(data: unknown): RestoreResult<Todo[]> {
+    if (!Array.isArray(data)) {
+      throw new Error('TODOリストの形式が正しくありません');
+    }
+
+    const { todos, rejected } = this.validateTodoRecords(data);
+    return { value: todos, rejected: rejected.map(({ reason, record }) => ({ reason, record })) };
+  }
+
+  /**
+   * TODOのレコードを検証して復元する
+   * 不正なレコードは除外し、その位置と理由を返す（インポート時の報告に使用）
+   * @param records JSON.parseの結果の配列
+   * @returns 復元されたTODOリストと除外されたレコード
+   */
+  static validateTodoRecords(records: unknown[]): { todos: Todo[]; rejected: RejectedRecord[] } {
+    const rejected: RejectedRecord[] = [];
+
+    const restoredTodos = records.map((item: unknown, index) => {
+      const todo = (item ?? {}) as Record<string, unknown>;
+
+      // 必須フィールドの存在チェック
+      const reason = !todo.id
+        ? 'IDがありません'
+        : !todo.title
+          ? 'タイトルがありません'
+          : typeof todo.completed !== 'boolean'
+            ? '完了状態が正しくありません'
+            : null;
+      if (reason) {
+        rejected.push({ index, reason, record: item });
+        return null;
       }
 
-      const stored = window.localStorage.getItem(this.STORAGE_KEY);
-      
-      if (!stored) {
-        return [];
+      const createdAt = new Date((todo.createdAt as string | number | undefined) || Date.now());
+      const updatedAt = new Date(todo.updatedAt as string | number);
+      const restored: Todo = {
+        id: String(todo.id),
+        title: String(todo.title),
+        completed: todo.completed as boolean,
+        // 優先度導入前のデータは「なし」として扱う
+        priority: isValidPriority(todo.priority) ? todo.priority : 'none',
+        tags: Array.isArray(todo.tags)
+          ? this.normalizeTags(todo.tags.filter((tag): tag is string => typeof tag === 'string'))
+          : [],
+        subtasks: this.deserializeSubtasks(todo.subtasks),
+        createdAt,
+        // 更新日時導入前のデータは作成日時を使う
+        updatedAt: isValidDate(updatedAt) ? updatedAt : createdAt,
+        // 並び替え導入前のデータは後で位置を割り当てる
+        position:
+          typeof todo.position === 'number' && Number.isFinite(todo.position) ? todo.position : NaN,
+      };
+
+      if (todo.autoCompleteWithSubtasks === true) {
+        restored.autoCompleteWithSubtasks = true;
       }
 
-      const parsedTodos = JSON.parse(stored);
-      
-      // データの整合性チェックと日付オブジェクトの復元
-      if (!Array.isArray(parsedTodos)) {
-        console.warn('保存されたデータの形式が正しくありません');
-        return [];
+      const recurrence = RecurrenceService.deserializeRule(todo.recurrence);
+      if (recurrence) {
+        restored.recurrence = recurrence;
       }
 
-      return parsedTodos.map((todo: any) => {
-        // 必須フィールドの存在チェック
-        if (!todo.id || !todo.title || typeof todo.completed !== 'boolean') {
-          console.warn('不正なTODOデータを検出しました:', todo);
+      // 期限は不正な値であれば破棄する（TODO自体は残す）
+      if (todo.dueDate) {
+        const dueDate = new Date(todo.dueDate as string | number);
+        if (isValidDate(dueDate)) {
+          restored.dueDate = dueDate;
+          restored.hasDueTime = todo.hasDueTime === true;
+        }
+      }
+
+      return restored;
+    }).filter((todo): todo is Todo => todo !== null);
+
+    return { todos: this.assignMissingPositions(restoredTodos), rejected };
+  }
+
+  /**
+   * 変更されたTODOの更新日時を設定する
+   * 変更前と同じオブジェクトのTODOは変更なしとみなす
+   * @param before 変更前のTODOリスト
+   * @param after 変更後のTODOリスト
+   * @param now 更新日時
+   * @returns 更新日時を設定したTODOリスト
+   */
+  static stampUpdatedAt(before: Todo[], after: Todo[], now: Date = new Date()): Todo[] {
+    if (before === after) return after;
+
+    const previous = new Map(before.map(todo => [todo.id, todo]));
+    return after.map(todo => (previous.get(todo.id) === todo ? todo : { ...todo, updatedAt: now }));
+  }
+
+  /**
+   * 位置を持たないTODOに位置を割り当てる
+   * 自動の並び順のまま、位置を持つTODOの後ろに並べる
+   * @param todos TODOリスト（位置が未設定の場合はNaN）
+   * @returns すべてのTODOに位置が設定されたTODOリスト
+   */
+  private static assignMissingPositions(todos: Todo[]): Todo[] {
+    const missing = todos.filter(todo => Number.isNaN(todo.position));
+    if (missing.length === 0) return todos;
+
+    const positioned = todos.filter(todo => !Number.isNaN(todo.position));
+    const start = positioned.length > 0 ? Math.max(...positioned.map(todo => todo.position)) + 1 : 0;
+    const positions = new Map(
+      [...missing].sort(this.compareTodos).map((todo, index) => [todo.id, start + index])
+    );
+
+    return todos.map(todo =>
+      positions.has(todo.id) ? { ...todo, position: positions.get(todo.id)! } : todo
+    );
+  }
+
+  /**
+   * JSONから復元した値をサブタスクの一覧に変換する（不正な項目は除外する）
+   * @param data JSON.parseの結果
+   * @returns サブタスクの一覧
+   */
+  static deserializeSubtasks(data: unknown): Subtask[] {
+    if (!Array.isArray(data)) return [];
+
+    return data
+      .map((item: unknown) => {
+        const subtask = (item ?? {}) as Record<string, unknown>;
+        if (!subtask.id || !subtask.title || typeof subtask.completed !== 'boolean') {
           return null;
         }
 
         return {
-          id: todo.id,
-          title: todo.title,
-          completed: todo.completed,
-          createdAt: new Date(todo.createdAt || Date.now()),
+          id: String(subtask.id),
+          title: String(subtask.title),
+          completed: subtask.completed,
         };
-      }).filter((todo): todo is Todo => todo !== null);
-      
-    } catch (error) {
-      console.error('TODOリストの読み込みに失敗しました:', error);
-      
-      // データ破損時の復旧処理
-      console.warn('データが破損している可能性があります。空のリストで開始します。');
-      return [];
-    }
+      })
+      .filter((subtask): subtask is Subtask => subtask !== null);
   }
 
   /**
@@ -109,6 +332,8 @@ export class TodoService {
           ...updates,
           // タイトルが更新される場合はトリムする
           title: updates.title ? updates.title.trim() : todo.title,
+          // タグが更新される場合は正規化する
+          tags: updates.tags ? this.normalizeTags(updates.tags) : todo.tags,
         };
       }
       return todo;
@@ -125,6 +350,33 @@ export class TodoService {
     return todos.filter(todo => todo.id !== id);
   }
 
+  /**
+   * TODOアイテムを別のリストへ移動する
+   * @param sourceTodos 移動元のTODOリスト
+   * @param targetTodos 移動先のTODOリスト
+   * @param id 移動するTODOのID
+   * @returns 移動後の移動元・移動先のTODOリスト
+   */
+  static moveTodo(
+    sourceTodos: Todo[],
+    targetTodos: Todo[],
+    id: string
+  ): { source: Todo[]; target: Todo[] } {
+    const todo = sourceTodos.find(item => item.id === id);
+    if (!todo) {
+      return { source: sourceTodos, target: targetTodos };
+    }
+
+    return {
+      source: sourceTodos.filter(item => item.id !== id),
+      // 同じIDが既に存在する場合は置き換える（手動の並び順では移動先の先頭に置く）
+      target: [
+        ...targetTodos.filter(item => item.id !== id),
+        { ...todo, position: this.getTopPosition(targetTodos), updatedAt: new Date() },
+      ],
+    };
+  }
+
   /**
    * TODOアイテムの完了状態を切り替える
    * @param todos 現在のTODOリスト
@@ -132,6 +384,12 @@ export class TodoService {
    * @returns 更新されたTODOリスト
    */
   static toggleComplete(todos: Todo[], id: string): Todo[] {
+    // 繰り返しTODOを完了にする場合は次回分を作成する
+    const target = todos.find(todo => todo.id === id);
+    if (target && !target.completed && target.recurrence) {
+      return this.completeRecurringTodo(todos, { ...target, completed: true });
+    }
+
     return todos.map(todo => {
       if (todo.id === id) {
         return {
@@ -143,13 +401,312 @@ export class TodoService {
     });
   }
 
+  /**
+   * 複数のTODOアイテムの完了状態をまとめて設定する
+   * 既に指定した状態のTODOは変更しない（同じオブジェクトのまま返す）
+   * @param todos 現在のTODOリスト
+   * @param ids 対象のTODOのID
+   * @param completed 完了にする場合はtrue、未完了に戻す場合はfalse
+   * @param now 完了日時（繰り返しTODOの次回分の作成に使用）
+   * @returns 更新されたTODOリスト
+   */
+  static setCompleted(todos: Todo[], ids: string[], completed: boolean, now: Date = new Date()): Todo[] {
+    const targets = new Set(ids);
+    // 繰り返しTODOを完了にする場合は次回分を作成する
+    const nextOccurrences: Todo[] = [];
+
+    const updated = todos.map(todo => {
+      if (!targets.has(todo.id) || todo.completed === completed) return todo;
+
+      if (completed && todo.recurrence) {
+        const completedTodo = { ...todo, completed: true };
+        nextOccurrences.push(this.createNextOccurrence(completedTodo, [...todos, ...nextOccurrences], now));
+        // 完了したTODOは履歴として残し、繰り返しルールは次回分に引き継ぐ
+        return { ...completedTodo, recurrence: undefined };
+      }
+      return { ...todo, completed };
+    });
+
+    return [...updated, ...nextOccurrences];
+  }
+
+  /**
+   * 複数のTODOアイテムをまとめて削除する
+   * @param todos 現在のTODOリスト
+   * @param ids 削除するTODOのID
+   * @returns 削除後のTODOリスト
+   */
+  static deleteTodos(todos: Todo[], ids: string[]): Todo[] {
+    const targets = new Set(ids);
+    return todos.filter(todo => !targets.has(todo.id));
+  }
+
+  /**
+   * 複数のTODOアイテムをまとめて編集する
+   * 変更のないTODOは同じオブジェクトのまま返す
+   * @param todos 現在のTODOリスト
+   * @param ids 対象のTODOのID
+   * @param edit 編集内容
+   * @returns 更新されたTODOリスト
+   */
+  static applyBulkEdit(todos: Todo[], ids: string[], edit: BulkEdit): Todo[] {
+    const targets = new Set(ids);
+    return todos.map(todo => (targets.has(todo.id) ? this.applyEdit(todo, edit) : todo));
+  }
+
+  /**
+   * 1件のTODOアイテムに一括編集の内容を適用する
+   * @param todo TODOアイテム
+   * @param edit 編集内容
+   * @returns 編集後のTODOアイテム（変更がない場合は元のオブジェクト）
+   */
+  private static applyEdit(todo: Todo, edit: BulkEdit): Todo {
+    switch (edit.field) {
+      case 'priority':
+        return todo.priority === edit.priority ? todo : { ...todo, priority: edit.priority };
+      case 'dueDate': {
+        if (!edit.dueDate) {
+          return todo.dueDate ? { ...todo, dueDate: undefined, hasDueTime: undefined } : todo;
+        }
+        const isSame = todo.dueDate?.getTime() === edit.dueDate.getTime() && !todo.hasDueTime;
+        return isSame ? todo : { ...todo, dueDate: edit.dueDate, hasDueTime: false };
+      }
+      case 'addTag': {
+        const tags = this.normalizeTags([...todo.tags, edit.tag]);
+        return tags.length === todo.tags.length ? todo : { ...todo, tags };
+      }
+      case 'removeTag': {
+        const key = this.normalizeTag(edit.tag).toLowerCase();
+        const tags = todo.tags.filter(tag => tag.toLowerCase() !== key);
+        return tags.length === todo.tags.length ? todo : { ...todo, tags };
+      }
+    }
+  }
+
+  /**
+   * 指定したTODOのサブタスクを更新し、自動完了の設定に応じて親の完了状態を同期する
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param updater サブタスクの一覧を更新する関数
+   * @returns 更新されたTODOリスト
+   */
+  private static updateSubtasks(
+    todos: Todo[],
+    id: string,
+    updater: (subtasks: Subtask[]) => Subtask[]
+  ): Todo[] {
+    const target = todos.find(todo => todo.id === id);
+    if (!target) return todos;
+
+    const updated = this.syncCompletionWithSubtasks({
+      ...target,
+      subtasks: updater(target.subtasks),
+    });
+
+    // 自動完了によって繰り返しTODOが完了した場合は次回分を作成する
+    if (!target.completed && updated.completed && updated.recurrence) {
+      return this.completeRecurringTodo(todos, updated);
+    }
+
+    return todos.map(todo => (todo.id === id ? updated : todo));
+  }
+
+  /**
+   * 自動完了が有効な場合、サブタスクの状態に合わせて親の完了状態を揃える
+   * すべて完了していれば親を完了に、未完了が残っていれば親を未完了にする
+   * @param todo TODOアイテム
+   * @returns 同期後のTODOアイテム
+   */
+  static syncCompletionWithSubtasks(todo: Todo): Todo {
+    if (!todo.autoCompleteWithSubtasks || todo.subtasks.length === 0) {
+      return todo;
+    }
+
+    const allDone = todo.subtasks.every(subtask => subtask.completed);
+    return allDone === todo.completed ? todo : { ...todo, completed: allDone };
+  }
+
+  /**
+   * サブタスクを追加する
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param title サブタスクのタイトル
+   * @returns 更新されたTODOリスト
+   */
+  static addSubtask(todos: Todo[], id: string, title: string): Todo[] {
+    const subtask: Subtask = {
+      id: crypto.randomUUID(),
+      title: title.trim(),
+      completed: false,
+    };
+
+    return this.updateSubtasks(todos, id, subtasks => [...subtasks, subtask]);
+  }
+
+  /**
+   * サブタスクのタイトルを変更する
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param subtaskId サブタスクのID
+   * @param title 新しいタイトル
+   * @returns 更新されたTODOリスト
+   */
+  static renameSubtask(todos: Todo[], id: string, subtaskId: string, title: string): Todo[] {
+    return this.updateSubtasks(todos, id, subtasks =>
+      subtasks.map(subtask =>
+        subtask.id === subtaskId ? { ...subtask, title: title.trim() } : subtask
+      )
+    );
+  }
+
+  /**
+   * サブタスクの完了状態を切り替える
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param subtaskId サブタスクのID
+   * @returns 更新されたTODOリスト
+   */
+  static toggleSubtask(todos: Todo[], id: string, subtaskId: string): Todo[] {
+    return this.updateSubtasks(todos, id, subtasks =>
+      subtasks.map(subtask =>
+        subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+      )
+    );
+  }
+
+  /**
+   * サブタスクを削除する
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param subtaskId サブタスクのID
+   * @returns 更新されたTODOリスト
+   */
+  static deleteSubtask(todos: Todo[], id: string, subtaskId: string): Todo[] {
+    return this.updateSubtasks(todos, id, subtasks =>
+      subtasks.filter(subtask => subtask.id !== subtaskId)
+    );
+  }
+
+  /**
+   * サブタスクを並べ替える
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param subtaskId 移動するサブタスクのID
+   * @param toIndex 移動先の位置
+   * @returns 更新されたTODOリスト
+   */
+  static moveSubtask(todos: Todo[], id: string, subtaskId: string, toIndex: number): Todo[] {
+    return this.updateSubtasks(todos, id, subtasks => {
+      const fromIndex = subtasks.findIndex(subtask => subtask.id === subtaskId);
+      if (fromIndex === -1) return subtasks;
+
+      const result = [...subtasks];
+      const [moved] = result.splice(fromIndex, 1);
+      result.splice(Math.max(0, Math.min(result.length, toIndex)), 0, moved);
+      return result;
+    });
+  }
+
+  /**
+   * サブタスクによる自動完了の設定を変更する
+   * @param todos 現在のTODOリスト
+   * @param id 対象のTODOのID
+   * @param enabled 自動完了を有効にするかどうか
+   * @returns 更新されたTODOリスト
+   */
+  static setSubtaskAutoComplete(todos: Todo[], id: string, enabled: boolean): Todo[] {
+    return todos.map(todo => {
+      if (todo.id !== id) return todo;
+      return this.syncCompletionWithSubtasks({ ...todo, autoCompleteWithSubtasks: enabled });
+    });
+  }
+
+  /**
+   * サブタスクの進捗を取得する
+   * @param todo TODOアイテム
+   * @returns 完了数と総数
+   */
+  static getSubtaskProgress(todo: Todo): { done: number; total: number } {
+    return {
+      done: todo.subtasks.filter(subtask => subtask.completed).length,
+      total: todo.subtasks.length,
+    };
+  }
+
+  /**
+   * 繰り返しTODOの完了を確定し、次回分を作成する
+   * 完了したTODOは履歴として残し、繰り返しルールは次回分に引き継ぐ
+   * @param todos 現在のTODOリスト
+   * @param completedTodo 完了状態にしたTODOアイテム
+   * @param now 完了日時
+   * @returns 更新されたTODOリスト
+   */
+  static completeRecurringTodo(todos: Todo[], completedTodo: Todo, now: Date = new Date()): Todo[] {
+    const { recurrence, ...history } = completedTodo;
+    if (!recurrence) {
+      return todos.map(todo => (todo.id === completedTodo.id ? completedTodo : todo));
+    }
+
+    return [
+      ...todos.map(todo => (todo.id === completedTodo.id ? history : todo)),
+      this.createNextOccurrence(completedTodo, todos, now),
+    ];
+  }
+
+  /**
+   * 繰り返しTODOの次回分を作成する
+   * 期限がある場合は期限を、ない場合は完了日を基準に次回の期限を決める
+   * 期限切れのまま完了した場合は今日以降の最初の該当日とする
+   * 手動の並び順では、新しいTODOと同じく先頭に置く（完了したTODOと同じ位置にしない）
+   * @param todo 完了した繰り返しTODO
+   * @param existingTodos 既存のTODOリスト（並び順の位置の決定に使用）
+   * @param now 完了日時
+   * @returns 次回分のTODOアイテム
+   */
+  static createNextOccurrence(todo: Todo, existingTodos: Todo[], now: Date = new Date()): Todo {
+    if (!todo.recurrence) {
+      throw new Error('繰り返しルールが設定されていません');
+    }
+
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const base = isValidDate(todo.dueDate) ? todo.dueDate : today;
+
+    // 期限切れのまま完了した場合は、今日以降になるまで先に進める
+    let nextDate = RecurrenceService.getNextDate(todo.recurrence, base);
+    for (let i = 0; i < 1000 && nextDate.getTime() < today.getTime(); i++) {
+      nextDate = RecurrenceService.getNextDate(todo.recurrence, nextDate);
+    }
+
+    return {
+      ...todo,
+      id: crypto.randomUUID(),
+      completed: false,
+      createdAt: now,
+      updatedAt: now,
+      dueDate: nextDate,
+      hasDueTime: isValidDate(todo.dueDate) ? !!todo.hasDueTime : false,
+      position: this.getTopPosition(existingTodos),
+      // サブタスクは未完了に戻して引き継ぐ
+      subtasks: todo.subtasks.map(subtask => ({
+        ...subtask,
+        id: crypto.randomUUID(),
+        completed: false,
+      })),
+    };
+  }
+
   /**
    * TODOリストをクリアする
+   * 同期が有効な場合は、リストのTODOの削除を記録する（同期サーバーや他の端末に残らないようにする）
+   * @param listId クリアするリストID
    */
-  static clearTodos(): void {
+  static clearTodos(listId: string): void {
     try {
-      if (typeof window !== 'undefined' && window.localStorage) {
-        window.localStorage.removeItem(this.STORAGE_KEY);
+      if (StorageService.isAvailable()) {
+        if (ChangeLogService.isTracking()) {
+          ChangeLogService.recordChanges('todo', this.loadTodos(listId), [], listId);
+        }
+        StorageService.removeItem(this.getStorageKey(listId));
       }
     } catch (error) {
       console.error('TODOリストのクリアに失敗しました:', error);
@@ -157,6 +714,343 @@ export class TodoService {
     }
   }
 
+  /**
+   * 他の端末と統合するための状態（CRDT）を作成する
+   * 保存していた状態に現在のTODOリストとの差分を取り込んで保存する（書き出し時に使用）
+   * @param todos 現在のTODOリスト
+   * @param listId リストID
+   * @returns 状態
+   */
+  static exportCrdtState(todos: Todo[], listId: string): CrdtState {
+    const state = CrdtService.reconcile(CrdtService.loadState(listId), todos, CrdtService.getReplicaId());
+    CrdtService.saveState(listId, state);
+    return state;
+  }
+
+  /**
+   * 2つの状態をマージする（可換・結合的・冪等。どの順で統合しても同じ結果になる）
+   * @param a 状態
+   * @param b 状態
+   * @returns マージ後の状態
+   */
+  static mergeCrdtStates(a: CrdtState, b: CrdtState): CrdtState {
+    return CrdtService.merge(a, b);
+  }
+
+  /**
+   * 状態からTODOリストを作る（存在するTODOを位置の順に並べる）
+   * @param state 状態
+   * @returns TODOリスト
+   */
+  static materializeCrdtState(state: CrdtState): Todo[] {
+    return this.restoreTodos(CrdtService.toRecords(state)).value;
+  }
+
+  /**
+   * 他の端末から書き出した状態を現在のTODOリストに統合する
+   * どちらの端末の編集も失わない（同じフィールドの編集は後の方、削除と編集は編集を残す）
+   * @param todos 現在のTODOリスト
+   * @param listId リストID
+   * @param remote 他の端末の状態
+   * @returns 統合後のTODOリストと、追加・更新・削除された件数
+   */
+  static mergeCrdtState(todos: Todo[], listId: string, remote: CrdtState): CrdtMergeResult {
+    const local = CrdtService.reconcile(CrdtService.loadState(listId), todos, CrdtService.getReplicaId());
+    const merged = CrdtService.merge(local, remote);
+    CrdtService.saveState(listId, merged);
+
+    const mergedTodos = this.materializeCrdtState(merged);
+    const before = new Map(todos.map(todo => [todo.id, JSON.stringify(todo)]));
+    const after = new Set(mergedTodos.map(todo => todo.id));
+    return {
+      todos: mergedTodos,
+      added: mergedTodos.filter(todo => !before.has(todo.id)).length,
+      updated: mergedTodos.filter(todo => before.has(todo.id) && before.get(todo.id) !== JSON.stringify(todo)).length,
+      removed: todos.filter(todo => !after.has(todo.id)).length,
+    };
+  }
+
+  /**
+   * タグを正規化する（前後の空白と先頭の#を除去し、連続する空白を1つにまとめる）
+   * @param tag タグ
+   * @returns 正規化されたタグ
+   */
+  static normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * タグの一覧を正規化する（空のタグと重複を除去する）
+   * @param tags タグの一覧
+   * @returns 正規化されたタグの一覧
+   */
+  static normalizeTags(tags: string[]): string[] {
+    const result: string[] = [];
+    const seen = new Set<string>();
+
+    tags.forEach(tag => {
+      const normalized = this.normalizeTag(tag);
+      const key = normalized.toLowerCase();
+      if (normalized && !seen.has(key)) {
+        seen.add(key);
+        result.push(normalized);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * タグの検証
+   * @param tag タグ
+   * @returns 検証結果
+   */
+  static validateTag(tag: string): { isValid: boolean; error?: string } {
+    const normalized = this.normalizeTag(tag);
+    if (!normalized) {
+      return { isValid: false, error: 'タグは空にできません' };
+    }
+
+    if (normalized.length > this.MAX_TAG_LENGTH) {
+      return { isValid: false, error: `タグは${this.MAX_TAG_LENGTH}文字以内で入力してください` };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * TODOリストで使用されているすべてのタグを取得する
+   * @param todos TODOリスト
+   * @returns タグの一覧（名前順）
+   */
+  static getAllTags(todos: Todo[]): string[] {
+    return this.normalizeTags(todos.flatMap(todo => todo.tags)).sort((a, b) =>
+      a.localeCompare(b, 'ja')
+    );
+  }
+
+  /**
+   * タグの名前を変更する（そのタグを持つすべてのTODOに反映する）
+   * @param todos 現在のTODOリスト
+   * @param oldTag 変更前のタグ
+   * @param newTag 変更後のタグ
+   * @returns 更新されたTODOリスト
+   */
+  static renameTag(todos: Todo[], oldTag: string, newTag: string): Todo[] {
+    const oldKey = this.normalizeTag(oldTag).toLowerCase();
+    const renamed = this.normalizeTag(newTag);
+
+    return todos.map(todo => {
+      if (!todo.tags.some(tag => tag.toLowerCase() === oldKey)) {
+        return todo;
+      }
+
+      return {
+        ...todo,
+        // 変更後のタグを既に持っている場合は重複を除去する
+        tags: this.normalizeTags(
+          todo.tags.map(tag => (tag.toLowerCase() === oldKey ? renamed : tag))
+        ),
+      };
+    });
+  }
+
+  /**
+   * タグを削除する（そのタグを持つすべてのTODOから取り除く）
+   * @param todos 現在のTODOリスト
+   * @param tagToDelete 削除するタグ
+   * @returns 更新されたTODOリスト
+   */
+  static deleteTag(todos: Todo[], tagToDelete: string): Todo[] {
+    const key = this.normalizeTag(tagToDelete).toLowerCase();
+
+    return todos.map(todo => {
+      if (!todo.tags.some(tag => tag.toLowerCase() === key)) {
+        return todo;
+      }
+
+      return {
+        ...todo,
+        tags: todo.tags.filter(tag => tag.toLowerCase() !== key),
+      };
+    });
+  }
+
+  /**
+   * タグでTODOリストを絞り込む
+   * @param todos TODOリスト
+   * @param tags 選択されたタグ（空の場合は絞り込まない）
+   * @param mode AND/ORの条件
+   * @returns 絞り込まれたTODOリスト
+   */
+  static filterByTags(todos: Todo[], tags: string[], mode: TagFilterMode): Todo[] {
+    if (tags.length === 0) return todos;
+
+    const keys = tags.map(tag => this.normalizeTag(tag).toLowerCase());
+
+    return todos.filter(todo => {
+      const todoKeys = new Set(todo.tags.map(tag => tag.toLowerCase()));
+      return mode === 'and'
+        ? keys.every(key => todoKeys.has(key))
+        : keys.some(key => todoKeys.has(key));
+    });
+  }
+
+  /**
+   * 完了状態でTODOを絞り込む
+   * @param todos TODOリスト
+   * @param filter 絞り込みの条件
+   * @returns 絞り込まれたTODOリスト
+   */
+  static filterByStatus(todos: Todo[], filter: StatusFilter): Todo[] {
+    switch (filter) {
+      case 'active':
+        return todos.filter(todo => !todo.completed);
+      case 'completed':
+        return todos.filter(todo => todo.completed);
+      default:
+        return todos;
+    }
+  }
+
+  /**
+   * 期限の実効日時を取得する
+   * 時刻未指定の場合はその日の終わりを期限とみなす
+   * @param todo TODOアイテム
+   * @returns 実効期限（期限なしの場合はnull）
+   */
+  static getEffectiveDueTime(todo: Todo): number | null {
+    if (!isValidDate(todo.dueDate)) return null;
+    if (todo.hasDueTime) return todo.dueDate.getTime();
+
+    const endOfDay = new Date(todo.dueDate);
+    endOfDay.setHours(23, 59, 59, 999);
+    return endOfDay.getTime();
+  }
+
+  /**
+   * 期限の状態を判定する
+   * @param todo TODOアイテム
+   * @param now 基準日時
+   * @returns 期限の状態
+   */
+  static getDueStatus(todo: Todo, now: Date = new Date()): DueStatus {
+    const effectiveDue = this.getEffectiveDueTime(todo);
+    if (effectiveDue === null || !todo.dueDate) return 'none';
+
+    if (effectiveDue < now.getTime()) return 'overdue';
+
+    if (todo.dueDate.toDateString() === now.toDateString()) return 'today';
+
+    return 'upcoming';
+  }
+
+  /**
+   * 優先度の順位を取得する（大きいほど優先度が高い）
+   * @param priority 優先度
+   * @returns 順位
+   */
+  static getPriorityRank(priority: TodoPriority): number {
+    return TODO_PRIORITIES.indexOf(priority);
+  }
+
+  /**
+   * TODOリストの表示順を決める比較関数
+   * 未完了を上に、完了済みを下に並べる。
+   * 未完了は優先度の高い順、次に期限の近い順、期限なしは作成日時の新しい順とする
+   */
+  static compareTodos(a: Todo, b: Todo): number {
+    // 完了状態で分ける
+    if (a.completed !== b.completed) {
+      return a.completed ? 1 : -1;
+    }
+
+    if (!a.completed) {
+      // 未完了同士では優先度の高いものを上にする
+      const priorityDiff =
+        TodoService.getPriorityRank(b.priority) - TodoService.getPriorityRank(a.priority);
+      if (priorityDiff !== 0) {
+        return priorityDiff;
+      }
+
+      // 同じ優先度では期限の近いものを優先する
+      const aDue = TodoService.getEffectiveDueTime(a);
+      const bDue = TodoService.getEffectiveDueTime(b);
+      if (aDue !== null && bDue !== null && aDue !== bDue) {
+        return aDue - bDue;
+      }
+      if ((aDue === null) !== (bDue === null)) {
+        return aDue === null ? 1 : -1;
+      }
+    }
+
+    // 作成日時の新しい順
+    return b.createdAt.getTime() - a.createdAt.getTime();
+  }
+
+  /**
+   * 手動の並び順で比較する（位置が同じ場合は作成日時の新しい順）
+   * sortの比較関数として渡せるよう、thisを使わない
+   */
+  static compareByPosition(a: Todo, b: Todo): number {
+    return a.position - b.position || b.createdAt.getTime() - a.createdAt.getTime();
+  }
+
+  /**
+   * 手動の並び順で先頭になる位置を取得する
+   * @param todos 現在のTODOリスト
+   * @returns 先頭の位置
+   */
+  static getTopPosition(todos: Todo[]): number {
+    return todos.length > 0 ? Math.min(...todos.map(todo => todo.position)) - 1 : 0;
+  }
+
+  /**
+   * TODOを指定した2つのTODOの間に移動する（手動の並び順）
+   * 移動するTODOの位置だけを書き換え、数値の精度が尽きた場合のみ全体の位置を振り直す
+   * @param todos 現在のTODOリスト
+   * @param id 移動するTODOのID
+   * @param prevId 移動先の直前のTODOのID（先頭に移動する場合はnull）
+   * @param nextId 移動先の直後のTODOのID（末尾に移動する場合はnull）
+   * @returns 更新されたTODOリスト
+   */
+  static reorderTodo(todos: Todo[], id: string, prevId: string | null, nextId: string | null): Todo[] {
+    const prev = todos.find(todo => todo.id === prevId);
+    const next = todos.find(todo => todo.id === nextId);
+    const position = this.getPositionBetween(prev?.position, next?.position);
+
+    if (position === null) {
+      return this.reorderTodo(this.normalizePositions(todos), id, prevId, nextId);
+    }
+
+    return todos.map(todo => (todo.id === id ? { ...todo, position } : todo));
+  }
+
+  /**
+   * 2つの位置の間の位置を求める
+   * @returns 間の位置（間に値を取れない場合はnull）
+   */
+  private static getPositionBetween(prev?: number, next?: number): number | null {
+    if (prev === undefined && next === undefined) return 0;
+    if (prev === undefined) return next! - 1;
+    if (next === undefined) return prev + 1;
+
+    const middle = (prev + next) / 2;
+    return middle > prev && middle < next ? middle : null;
+  }
+
+  /**
+   * 手動の並び順を保ったまま、位置を0からの連番に振り直す
+   * @param todos 現在のTODOリスト
+   * @returns 位置を振り直したTODOリスト
+   */
+  static normalizePositions(todos: Todo[]): Todo[] {
+    const positions = new Map(
+      [...todos].sort(this.compareByPosition).map((todo, index) => [todo.id, index])
+    );
+    return todos.map(todo => ({ ...todo, position: positions.get(todo.id)! }));
+  }
+
   /**
    * 入力値の検証
    * @param title TODOのタイトル
@@ -0,0 +1,210 @@
+import { Todo, TodoPriority, toDateInputValue, toTimeInputValue, parseDateTimeInput } from '@/types';
+import { TodoService } from './todoService';
+
+/**
+ * 読み込めなかった行の報告
+ */
+export interface TodoTxtLineError {
+  /** 行番号（1始まり） */
+  line: number;
+  /** 読み込めなかった理由 */
+  message: string;
+}
+
+/**
+ * todo.txtの読み込み結果
+ */
+export interface TodoTxtImportResult {
+  /** 読み込み後のTODOリスト */
+  todos: Todo[];
+  /** 追加したTODOの件数 */
+  added: number;
+  /** 読み込めなかった行 */
+  errors: TodoTxtLineError[];
+}
+
+/** 優先度とtodo.txtの優先度（A〜D）の対応 */
+const PRIORITY_LETTERS: Record<Exclude<TodoPriority, 'none'>, string> = {
+  urgent: 'A',
+  high: 'B',
+  medium: 'C',
+  low: 'D',
+};
+
+/** 日付（YYYY-MM-DD） */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 期限（due:YYYY-MM-DD、時刻付きの場合は due:YYYY-MM-DDTHH:mm） */
+const DUE_PATTERN = /^due:(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?$/;
+
+/**
+ * todo.txt形式（https://github.com/todotxt/todo.txt）との変換を提供するサービスクラス
+ * - 完了の「x」・完了日・作成日・優先度「(A)」〜「(D)」・「+プロジェクト」「@コンテキスト」・「due:」に対応する
+ * - 「+プロジェクト」「@コンテキスト」は記号付きのままタグにする（記号のないタグは「+タグ」として書き出す）
+ * - 完了日は更新日時の日付として扱う
+ * - 表せないトークン（「(E)」以降の優先度や「due:」以外の「キー:値」）はタイトルにそのまま残す
+ */
+export class TodoTxtService {
+  /**
+   * TODOリストをtodo.txt形式に変換する（サブタスクと繰り返しは書き出さない）
+   * @param todos TODOリスト（表示順）
+   * @returns todo.txtの内容
+   */
+  static toTodoTxt(todos: Todo[]): string {
+    return todos.map(todo => this.formatLine(todo)).join('\n') + '\n';
+  }
+
+  /**
+   * todo.txtのファイル名を生成する
+   * @param listName リスト名
+   * @returns ファイル名
+   */
+  static getFileName(listName: string): string {
+    const safeName = listName.replace(/[\\/:*?"<>|\s]+/g, '_');
+    return `${safeName}.todo.txt`;
+  }
+
+  /**
+   * todo.txt形式の内容を読み込んでTODOを追加する（空行は読み飛ばす）
+   * @param text todo.txtの内容
+   * @param existingTodos 読み込み先のTODOリスト（追加したTODOは末尾に並べる）
+   * @param now 読み込み日時（作成日のない行の作成日時に使用）
+   * @returns 読み込み後のTODOリストと読み込み結果
+   */
+  static importTodoTxt(text: string, existingTodos: Todo[], now: Date = new Date()): TodoTxtImportResult {
+    const result: TodoTxtImportResult = { todos: [...existingTodos], added: 0, errors: [] };
+    let nextPosition =
+      existingTodos.length > 0 ? Math.max(...existingTodos.map(todo => todo.position)) + 1 : 0;
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      const todo = this.parseLine(line.trim(), now);
+      const validation = TodoService.validateTodoTitle(todo.title);
+      if (!validation.isValid) {
+        result.errors.push({ line: index + 1, message: validation.error ?? 'タイトルが正しくありません' });
+        return;
+      }
+
+      result.todos.push({ ...todo, position: nextPosition++ });
+      result.added++;
+    });
+
+    return result;
+  }
+
+  /**
+   * TODOを1行に変換する
+   * 形式: [x 完了日] [(優先度)] 作成日 タイトル [+タグ…] [due:期限] [pri:優先度（完了済みの場合）]
+   */
+  private static formatLine(todo: Todo): string {
+    const letter = todo.priority !== 'none' ? PRIORITY_LETTERS[todo.priority] : null;
+    const parts: string[] = [];
+
+    let title = todo.title.replace(/\s*[\r\n]+\s*/g, ' ');
+
+    if (todo.completed) {
+      parts.push('x', toDateInputValue(todo.updatedAt));
+    } else if (letter) {
+      parts.push(`(${letter})`);
+    } else {
+      // タイトルの先頭に残した優先度（E以降）は行頭に戻す
+      const kept = /^(\([A-Z]\)) (.*)$/.exec(title);
+      if (kept) {
+        parts.push(kept[1]);
+        title = kept[2];
+      }
+    }
+    parts.push(toDateInputValue(todo.createdAt), title);
+
+    // 記号のないタグはプロジェクトとして書き出す（空白は「_」にする）
+    parts.push(...todo.tags.map(tag => (/^[+@]/.test(tag) ? tag : `+${tag.replace(/\s+/g, '_')}`)));
+
+    if (todo.dueDate) {
+      const time = todo.hasDueTime ? `T${toTimeInputValue(todo.dueDate)}` : '';
+      parts.push(`due:${toDateInputValue(todo.dueDate)}${time}`);
+    }
+    // 完了済みのTODOは慣例に従い優先度を「pri:」で残す
+    if (todo.completed && letter) {
+      parts.push(`pri:${letter}`);
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * 1行をTODOに変換する
+   */
+  private static parseLine(line: string, now: Date): Todo {
+    const words = line.split(/\s+/);
+    let completed = false;
+    let completedAt: Date | undefined;
+    let createdAt: Date | undefined;
+    let priority: TodoPriority = 'none';
+    const titleWords: string[] = [];
+
+    // 完了の印と完了日（完了日がある場合のみ作成日が続く）
+    if (words[0] === 'x') {
+      completed = true;
+      words.shift();
+      if (DATE_PATTERN.test(words[0] ?? '')) {
+        completedAt = parseDateTimeInput(words.shift()!);
+      }
+    } else if (/^\([A-Z]\)$/.test(words[0] ?? '')) {
+      const letter = words.shift()!;
+      // 表せない優先度（E以降）はタイトルの先頭に残す
+      const letterPriority = this.toPriority(letter[1]);
+      if (letterPriority) {
+        priority = letterPriority;
+      } else {
+        titleWords.push(letter);
+      }
+    }
+
+    if ((!completed || completedAt) && DATE_PATTERN.test(words[0] ?? '')) {
+      createdAt = parseDateTimeInput(words.shift()!);
+    }
+
+    const tags: string[] = [];
+    let dueDate: Date | undefined;
+    let hasDueTime = false;
+
+    words.forEach(word => {
+      const due = DUE_PATTERN.exec(word);
+      const pri = /^pri:([A-Z])$/.exec(word);
+
+      if (/^[+@]\S+$/.test(word) && TodoService.validateTag(word).isValid) {
+        tags.push(word);
+      } else if (due && parseDateTimeInput(due[1], due[2])) {
+        dueDate = parseDateTimeInput(due[1], due[2]);
+        hasDueTime = !!due[2];
+      } else if (pri && this.toPriority(pri[1])) {
+        priority = this.toPriority(pri[1])!;
+      } else {
+        titleWords.push(word);
+      }
+    });
+
+    const todo: Todo = {
+      ...TodoService.createTodo({ title: titleWords.join(' '), priority, tags }),
+      completed,
+      createdAt: createdAt ?? now,
+      // 完了日は更新日時として保持する（書き出し時に完了日になる）
+      updatedAt: completedAt ?? createdAt ?? now,
+    };
+    if (dueDate) {
+      todo.dueDate = dueDate;
+      todo.hasDueTime = hasDueTime;
+    }
+
+    return todo;
+  }
+
+  /**
+   * todo.txtの優先度を優先度にする（表せない優先度はnull）
+   */
+  private static toPriority(letter: string): TodoPriority | null {
+    const entry = Object.entries(PRIORITY_LETTERS).find(([, value]) => value === letter);
+    return entry ? (entry[0] as TodoPriority) : null;
+  }
+}
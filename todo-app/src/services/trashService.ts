@@ -0,0 +1,251 @@
+import { Todo, TrashedTodo, isValidDate } from '@/types';
+import { TodoService } from './todoService';
+import { StorageService, Migration, RestoreResult, VersionedReadOptions } from './storageService';
+
+/** 1日のミリ秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ゴミ箱（削除したTODOの一時保管）を管理するサービスクラス
+ * ゴミ箱はリストごとに「trash:<リストID>」のキーで保存する
+ */
+export class TrashService {
+  /** ゴミ箱の保存キー */
+  static readonly STORAGE_KEY = 'trash';
+
+  /** 保存期間（日数）の保存キー */
+  static readonly RETENTION_KEY = 'trash-retention-days';
+
+  /** 保存期間の既定値（日数） */
+  static readonly DEFAULT_RETENTION_DAYS = 30;
+
+  /** 選択できる保存期間（日数、0は無期限） */
+  static readonly RETENTION_OPTIONS = [7, 30, 90, 0];
+
+  /** 保存するゴミ箱のデータ構造のバージョン */
+  static readonly SCHEMA_VERSION = 1;
+
+  /**
+   * 保存されたゴミ箱の移行処理（バージョン順）
+   */
+  static readonly MIGRATIONS: Migration[] = [
+    {
+      version: 1,
+      description: 'バージョン管理導入前の配列をそのまま引き継ぐ',
+      migrate: data => {
+        if (!Array.isArray(data)) {
+          throw new Error('ゴミ箱の形式が正しくありません');
+        }
+        return data;
+      },
+    },
+  ];
+
+  /**
+   * リストのゴミ箱の保存キーを取得する
+   * @param listId リストID
+   * @returns ストレージのキー
+   */
+  static getStorageKey(listId: string): string {
+    return `${this.STORAGE_KEY}:${listId}`;
+  }
+
+  /**
+   * TODOをゴミ箱に入れる（新しいものを先頭にする）
+   * @param trash 現在のゴミ箱
+   * @param todos 削除するTODO
+   * @param now 削除日時
+   * @returns 更新されたゴミ箱
+   */
+  static moveToTrash(trash: TrashedTodo[], todos: Todo[], now: Date = new Date()): TrashedTodo[] {
+    const ids = new Set(todos.map(todo => todo.id));
+    return [
+      ...todos.map(todo => ({ todo, deletedAt: now })),
+      ...trash.filter(item => !ids.has(item.todo.id)),
+    ];
+  }
+
+  /**
+   * ゴミ箱からTODOを復元する
+   * 同じIDのTODOが既にリストにある場合は、ゴミ箱から取り除くだけにする
+   * @param trash 現在のゴミ箱
+   * @param todos 現在のTODOリスト
+   * @param ids 復元するTODOのID
+   * @returns 更新されたゴミ箱とTODOリスト
+   */
+  static restore(
+    trash: TrashedTodo[],
+    todos: Todo[],
+    ids: string[]
+  ): { trash: TrashedTodo[]; todos: Todo[] } {
+    const targetIds = new Set(ids);
+    const existingIds = new Set(todos.map(todo => todo.id));
+    const restored = trash
+      .filter(item => targetIds.has(item.todo.id) && !existingIds.has(item.todo.id))
+      .map(item => item.todo);
+
+    return {
+      trash: trash.filter(item => !targetIds.has(item.todo.id)),
+      todos: [...todos, ...restored],
+    };
+  }
+
+  /**
+   * ゴミ箱から完全に削除する
+   * @param trash 現在のゴミ箱
+   * @param ids 削除するTODOのID
+   * @returns 更新されたゴミ箱
+   */
+  static remove(trash: TrashedTodo[], ids: string[]): TrashedTodo[] {
+    const targetIds = new Set(ids);
+    return trash.filter(item => !targetIds.has(item.todo.id));
+  }
+
+  /**
+   * 保存期間を過ぎたTODOをゴミ箱から取り除く
+   * @param trash 現在のゴミ箱
+   * @param retentionDays 保存期間（日数、0以下は無期限）
+   * @param now 基準日時
+   * @returns 更新されたゴミ箱
+   */
+  static purgeExpired(trash: TrashedTodo[], retentionDays: number, now: Date = new Date()): TrashedTodo[] {
+    if (retentionDays <= 0) return trash;
+
+    const threshold = now.getTime() - retentionDays * DAY_MS;
+    return trash.filter(item => item.deletedAt.getTime() > threshold);
+  }
+
+  /**
+   * ゴミ箱の項目が自動削除されるまでの残り日数を取得する
+   * @param item ゴミ箱の項目
+   * @param retentionDays 保存期間（日数、0以下は無期限）
+   * @param now 基準日時
+   * @returns 残り日数（無期限の場合はnull）
+   */
+  static getDaysUntilPurge(item: TrashedTodo, retentionDays: number, now: Date = new Date()): number | null {
+    if (retentionDays <= 0) return null;
+
+    const remaining = item.deletedAt.getTime() + retentionDays * DAY_MS - now.getTime();
+    return Math.max(0, Math.ceil(remaining / DAY_MS));
+  }
+
+  /**
+   * 移行後の保存データをゴミ箱の項目に復元する
+   * TODOの検証はTodoService.validateTodoRecordsに委ねる
+   * @param data 移行後の保存データ
+   * @returns 復元されたゴミ箱と、復元できなかった項目（理由付き）
+   * @throws 配列でない場合
+   */
+  static restoreTrash(data: unknown): RestoreResult<TrashedTodo[]> {
+    if (!Array.isArray(data)) {
+      throw new Error('ゴミ箱の形式が正しくありません');
+    }
+
+    const rejected: unknown[] = [];
+    const trash = data.flatMap((item: unknown): TrashedTodo[] => {
+      const raw = (item ?? {}) as Record<string, unknown>;
+      const deletedAt = new Date(raw.deletedAt as string);
+      const { todos: [todo], rejected: [rejectedTodo] } = TodoService.validateTodoRecords([raw.todo]);
+
+      if (!todo || !isValidDate(deletedAt)) {
+        rejected.push({ reason: rejectedTodo?.reason ?? '削除日時が正しくありません', record: item });
+        return [];
+      }
+
+      return [{ todo, deletedAt }];
+    });
+
+    return { value: trash, rejected };
+  }
+
+  /**
+   * ストレージからゴミ箱を読み込む
+   * 古い形式のデータは移行し、読み込めないデータは除く（隔離はrepairStorageで行う）
+   * @param listId リストID
+   * @returns 読み込まれたゴミ箱
+   */
+  static loadTrash(listId: string): TrashedTodo[] {
+    return StorageService.readVersioned(this.getStorageKey(listId), this.getReadOptions()).value;
+  }
+
+  /**
+   * 保存されているすべてのリストのゴミ箱について、古い形式のデータを移行して保存し直し、
+   * 読み込めないデータは破棄せずに隔離する（起動時に描画の前に行う）
+   */
+  static repairStorage(): void {
+    const prefix = this.getStorageKey('');
+    StorageService.keys()
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => StorageService.repairVersioned(key, this.getReadOptions()));
+  }
+
+  /**
+   * 保存されていた値をゴミ箱に復元する（隔離は行わない）
+   * @param stored 保存されていた値
+   * @returns 復元されたゴミ箱（値がない場合や読み込めない場合は空）
+   */
+  static decodeTrash(stored: string | null): TrashedTodo[] {
+    return StorageService.decodeVersioned(stored, this.getReadOptions());
+  }
+
+  /**
+   * 保存されたゴミ箱の読み込みの設定
+   */
+  private static getReadOptions(): VersionedReadOptions<TrashedTodo[]> {
+    return {
+      version: this.SCHEMA_VERSION,
+      migrations: this.MIGRATIONS,
+      restore: data => this.restoreTrash(data),
+      fallback: [],
+    };
+  }
+
+  /**
+   * ゴミ箱をストレージに保存する
+   * @param trash 保存するゴミ箱
+   * @param listId リストID
+   */
+  static saveTrash(trash: TrashedTodo[], listId: string): void {
+    try {
+      if (!StorageService.isAvailable()) {
+        console.warn('ストレージが利用できません');
+        return;
+      }
+
+      StorageService.writeVersioned(this.getStorageKey(listId), this.SCHEMA_VERSION, trash);
+    } catch (error) {
+      console.error('ゴミ箱の保存に失敗しました:', error);
+      throw new Error('データの保存に失敗しました');
+    }
+  }
+
+  /**
+   * リストのゴミ箱をストレージから削除する（リスト削除時に使用）
+   * @param listId リストID
+   */
+  static clearTrash(listId: string): void {
+    try {
+      if (StorageService.isAvailable()) {
+        StorageService.removeItem(this.getStorageKey(listId));
+      }
+    } catch (error) {
+      console.error('ゴミ箱のクリアに失敗しました:', error);
+      throw new Error('データのクリアに失敗しました');
+    }
+  }
+
+  /**
+   * 保存期間の設定を読み込む
+   * @returns 保存期間（日数、0は無期限）
+   */
+  static loadRetentionDays(): number {
+    try {
+      const stored = StorageService.getItem(this.RETENTION_KEY);
+      const days = stored === null ? NaN : Number(JSON.parse(stored));
+      return Number.isInteger(days) && days >= 0 ? days : this.DEFAULT_RETENTION_DAYS;
+    } catch (error) {
+      console.error('ゴミ箱の保存期間の読み込みに失敗しました:', error);
+      return this.DEFAULT_RETENTION_DAYS;
+    }
+  }
+}
@@ -1,5 +1,32 @@
 // TODOアプリケーション用の型定義をエクスポート
-export type { Todo, EmailData, TodoUpdate, CreateTodoInput } from './todo';
+export type {
+  Todo,
+  Subtask,
+  RecurrenceRule,
+  RecurrenceFrequency,
+  TodoListMeta,
+  TrashedTodo,
+  RejectedRecord,
+  TodoPriority,
+  DueStatus,
+  TagFilterMode,
+  StatusFilter,
+  SortMode,
+  EmailData,
+  TodoUpdate,
+  BulkEdit,
+  CreateTodoInput,
+} from './todo';
+export { TODO_PRIORITIES, PRIORITY_LABELS, STATUS_FILTERS, STATUS_FILTER_LABELS } from './todo';
 
 // ユーティリティ関数をエクスポート
-export { isValidDate, isNonEmptyString, isValidEmail, isValidUUID } from './utils';
\ No newline at end of file
+export {
+  isValidDate,
+  isNonEmptyString,
+  isValidEmail,
+  isValidUUID,
+  isValidPriority,
+  toDateInputValue,
+  toTimeInputValue,
+  parseDateTimeInput,
+} from './utils';
\ No newline at end of file
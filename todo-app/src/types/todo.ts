@@ -1,3 +1,58 @@
+/**
+ * 優先度の一覧（低い順）
+ */
+export const TODO_PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const;
+
+/**
+ * 優先度の型定義
+ */
+export type TodoPriority = (typeof TODO_PRIORITIES)[number];
+
+/**
+ * 優先度の表示名
+ */
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  none: 'なし',
+  low: '低',
+  medium: '中',
+  high: '高',
+  urgent: '緊急',
+};
+
+/**
+ * 繰り返しの頻度
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * 繰り返しルールの型定義
+ * - daily: interval日ごと
+ * - weekly: interval週ごとのweekdaysの曜日（未指定の場合は同じ曜日）
+ * - monthly: intervalか月ごとのmonthDay日（未指定の場合は同じ日、月末を超える場合は末日）
+ */
+export interface RecurrenceRule {
+  /** 頻度 */
+  frequency: RecurrenceFrequency;
+  /** 間隔（1以上） */
+  interval: number;
+  /** 曜日（0: 日曜 〜 6: 土曜） */
+  weekdays?: number[];
+  /** 日付（1〜31） */
+  monthDay?: number;
+}
+
+/**
+ * サブタスク（チェックリストの項目）の型定義
+ */
+export interface Subtask {
+  /** 一意識別子 */
+  id: string;
+  /** サブタスクのタイトル */
+  title: string;
+  /** 完了状態 */
+  completed: boolean;
+}
+
 /**
  * TODOアイテムの型定義
  */
@@ -8,10 +63,112 @@ export interface Todo {
   title: string;
   /** 完了状態 */
   completed: boolean;
+  /** 優先度 */
+  priority: TodoPriority;
+  /** タグ（ラベル） */
+  tags: string[];
+  /** サブタスク（表示順） */
+  subtasks: Subtask[];
+  /** サブタスクがすべて完了したら親を完了にし、未完了に戻したら親も戻す */
+  autoCompleteWithSubtasks?: boolean;
+  /** 作成日時 */
+  createdAt: Date;
+  /** 最終更新日時 */
+  updatedAt: Date;
+  /** 手動並び替えでの位置（小さいほど上。移動時は前後の項目の中間の値にする） */
+  position: number;
+  /** 期限（時刻未指定の場合はその日の0時） */
+  dueDate?: Date;
+  /** 期限に時刻が指定されているかどうか */
+  hasDueTime?: boolean;
+  /** 繰り返しルール（完了時に次回分が作成される） */
+  recurrence?: RecurrenceRule;
+}
+
+/**
+ * 期限の状態
+ * - overdue: 期限切れ
+ * - today: 本日が期限
+ * - upcoming: 期限が先
+ * - none: 期限なし
+ */
+export type DueStatus = 'overdue' | 'today' | 'upcoming' | 'none';
+
+/**
+ * 読み込み時に除外された不正なレコード
+ */
+export interface RejectedRecord {
+  /** 元データでの位置（0始まり） */
+  index: number;
+  /** 除外した理由 */
+  reason: string;
+  /** 元のデータ */
+  record: unknown;
+}
+
+/**
+ * ゴミ箱に入れられたTODO（削除前のデータと削除日時を保持する）
+ */
+export interface TrashedTodo {
+  /** 削除前のTODOアイテム */
+  todo: Todo;
+  /** 削除日時 */
+  deletedAt: Date;
+}
+
+/**
+ * 名前付きリスト（プロジェクト）の型定義
+ * 表示順は保存された配列の順序で表す
+ */
+export interface TodoListMeta {
+  /** 一意識別子 */
+  id: string;
+  /** リスト名 */
+  name: string;
+  /** アーカイブ済みかどうか */
+  archived: boolean;
   /** 作成日時 */
   createdAt: Date;
+  /** 最終更新日時（名前・アーカイブ状態の変更。同期の競合解決に使用し、ない場合は作成日時とみなす） */
+  updatedAt?: Date;
 }
 
+/**
+ * 並び順
+ * - auto: 完了状態・優先度・期限による自動の並び順
+ * - manual: ドラッグ＆ドロップなどで並べ替えた手動の並び順
+ */
+export type SortMode = 'auto' | 'manual';
+
+/**
+ * タグによる絞り込みの条件
+ * - and: 選択したすべてのタグを持つ
+ * - or: 選択したいずれかのタグを持つ
+ */
+export type TagFilterMode = 'and' | 'or';
+
+/**
+ * 完了状態による絞り込みの一覧
+ */
+export const STATUS_FILTERS = ['all', 'active', 'completed'] as const;
+
+/**
+ * 完了状態による絞り込みの条件
+ * - all: すべて
+ * - active: 未完了のみ
+ * - completed: 完了済みのみ
+ */
+export type StatusFilter = (typeof STATUS_FILTERS)[number];
+
+/**
+ * 完了状態による絞り込みの表示名
+ */
+export const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+  all: 'すべて',
+  active: '未完了',
+  completed: '完了済み',
+};
+
 /**
  * メール送信用のデータ型定義
  */
@@ -27,9 +184,23 @@ export interface EmailData {
 /**
  * TODOアイテムの部分更新用の型
  */
-export type TodoUpdate = Partial<Omit<Todo, 'id' | 'createdAt'>>;
+export type TodoUpdate = Partial<Omit<Todo, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * 複数のTODOに対する一括編集の内容
+ * - priority: 優先度を設定する
+ * - dueDate: 期限（日付のみ）を設定する。nullの場合は期限を外す
+ * - addTag: タグを追加する
+ * - removeTag: タグを外す
+ */
+export type BulkEdit =
+  | { field: 'priority'; priority: TodoPriority }
+  | { field: 'dueDate'; dueDate: Date | null }
+  | { field: 'addTag'; tag: string }
+  | { field: 'removeTag'; tag: string };
 
 /**
  * 新しいTODOアイテム作成用の型
  */
-export type CreateTodoInput = Pick<Todo, 'title'>;
\ No newline at end of file
+export type CreateTodoInput = Pick<Todo, 'title'> &
+  Partial<Pick<Todo, 'dueDate' | 'hasDueTime' | 'priority' | 'tags' | 'recurrence'>>;
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { TODO_PRIORITIES, TodoPriority } from './todo';
+
 /**
  * 型安全性を確保するためのユーティリティ型定義
  */
@@ -32,4 +34,49 @@ export const isValidUUID = (id: unknown): id is string => {
   if (typeof id !== 'string') return false;
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
   return uuidRegex.test(id);
+};
+
+/**
+ * 優先度の値チェック
+ */
+export const isValidPriority = (value: unknown): value is TodoPriority => {
+  return typeof value === 'string' && (TODO_PRIORITIES as readonly string[]).includes(value);
+};
+
+/**
+ * 日付を<input type="date">用の文字列（YYYY-MM-DD）に変換する
+ */
+export const toDateInputValue = (date: Date | undefined): string => {
+  if (!isValidDate(date)) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * 日付を<input type="time">用の文字列（HH:mm）に変換する
+ */
+export const toTimeInputValue = (date: Date | undefined): string => {
+  if (!isValidDate(date)) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * <input type="date">と<input type="time">の値からローカル時刻のDateを生成する
+ * 日付が空または不正な場合はundefinedを返す
+ */
+export const parseDateTimeInput = (dateValue: string, timeValue: string = ''): Date | undefined => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateValue);
+  if (!dateMatch) return undefined;
+
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(timeValue);
+  const date = new Date(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    timeMatch ? Number(timeMatch[1]) : 0,
+    timeMatch ? Number(timeMatch[2]) : 0
+  );
+
+  return isValidDate(date) ? date : undefined;
 };
\ No newline at end of file
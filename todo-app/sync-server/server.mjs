@@ -0,0 +1,213 @@
+/**
+ * TODOアプリの同期サーバー（参考実装）
+ * - 依存パッケージなし（Node.js 18以上）で動作し、データはJSONファイルに保存する
+ * - POST /sync で変更を受け取り、前回以降に受け付けた変更を返す
+ * - 同じレコード（リスト・TODO）の変更は、変更日時の新しい方を採用する（アプリの SyncService と同じ規則）
+ *
+ * 環境変数
+ * - PORT: 待ち受けるポート（既定は8787）
+ * - DATA_FILE: データを保存するファイル（既定は sync-server/data.json）
+ * - SYNC_TOKEN: 設定した場合は Authorization: Bearer <トークン> を必須にする
+ * - ALLOWED_ORIGIN: CORSで許可するオリジン（既定は *）
+ *
+ * 起動: npm run sync-server
+ */
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.DATA_FILE || fileURLToPath(new URL('./data.json', import.meta.url));
+const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+
+/** 受け付ける要求の最大サイズ（バイト） */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * 保存するデータ
+ * - seq: 最後に割り当てた番号（クライアントのcursor）
+ * - records: レコードの保存キーごとの、最新のレコードと受け付けた番号
+ */
+let store = { seq: 0, records: {} };
+
+/** ファイルへの書き込みを順に行うためのPromise */
+let pending = Promise.resolve();
+
+/**
+ * レコードの保存キーを取得する（アプリの ChangeLogService.getKey と同じ形式）
+ */
+const getKey = record => (record.kind === 'todo' ? `todo:${record.listId}:${record.id}` : `list:${record.id}`);
+
+/**
+ * レコードを比べる（アプリの SyncService と同じ規則）
+ * @returns aを優先する場合は正の数、bを優先する場合は負の数
+ */
+const compareRecords = (a, b) => {
+  const diff = Date.parse(a.updatedAt) - Date.parse(b.updatedAt);
+  if (diff !== 0) return diff;
+  if (a.deleted !== b.deleted) return a.deleted ? 1 : -1;
+
+  const aData = JSON.stringify(a.data) ?? '';
+  const bData = JSON.stringify(b.data) ?? '';
+  return aData === bData ? 0 : aData > bData ? 1 : -1;
+};
+
+/**
+ * レコードの形式か判定する
+ */
+const isSyncRecord = record =>
+  record !== null &&
+  typeof record === 'object' &&
+  (record.kind === 'list' || (record.kind === 'todo' && typeof record.listId === 'string' && record.listId !== '')) &&
+  typeof record.id === 'string' &&
+  record.id !== '' &&
+  typeof record.updatedAt === 'string' &&
+  !Number.isNaN(Date.parse(record.updatedAt)) &&
+  typeof record.deleted === 'boolean';
+
+/**
+ * 受け取った変更を反映し、クライアントへ返す変更を求める
+ * - 新しい方の変更だけを採用し、新しい番号を割り当てる
+ * - 採用しなかった変更は、採用済みのレコードを返す（クライアントが古い内容を持ち続けないようにする）
+ * @returns 返す変更と新しいcursor
+ */
+const applyChanges = (since, changes) => {
+  const rejected = new Set();
+  changes.forEach(change => {
+    const key = getKey(change);
+    const current = store.records[key];
+    if (current && compareRecords(change, current.record) <= 0) {
+      rejected.add(key);
+      return;
+    }
+
+    const record = { kind: change.kind, id: change.id, updatedAt: change.updatedAt, deleted: change.deleted };
+    if (change.kind === 'todo') record.listId = change.listId;
+    if (!change.deleted) record.data = change.data;
+    store.records[key] = { seq: ++store.seq, record };
+  });
+
+  const result = Object.entries(store.records)
+    .filter(([key, entry]) => entry.seq > since || rejected.has(key))
+    .sort(([, a], [, b]) => a.seq - b.seq)
+    .map(([, entry]) => entry.record);
+
+  return { cursor: store.seq, changes: result };
+};
+
+/**
+ * データをファイルから読み込む
+ */
+const loadStore = async () => {
+  try {
+    const data = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    if (Number.isInteger(data.seq) && data.records && typeof data.records === 'object') {
+      store = data;
+    }
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+};
+
+/**
+ * データをファイルへ保存する（一時ファイルに書いてから置き換える）
+ * 保存は直列に行い、失敗した場合もその要求だけを失敗にして、以降の保存は続ける
+ */
+const saveStore = () => {
+  const snapshot = JSON.stringify(store);
+  const write = pending.catch(() => {}).then(async () => {
+    const temporary = `${DATA_FILE}.tmp`;
+    await writeFile(temporary, snapshot);
+    await rename(temporary, DATA_FILE);
+  });
+  pending = write;
+  return write;
+};
+
+/**
+ * 要求の本文をJSONとして読み込む
+ */
+const readJson = request =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('要求が大きすぎます'), { status: 413 }));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(Object.assign(new Error('JSONの形式が正しくありません'), { status: 400 }));
+      }
+    });
+    request.on('error', reject);
+  });
+
+/**
+ * JSONで応答する
+ */
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+};
+
+const server = createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+  if (request.method === 'GET' && pathname === '/health') {
+    sendJson(response, 200, { ok: true, cursor: store.seq });
+    return;
+  }
+
+  if (request.method !== 'POST' || pathname !== '/sync') {
+    sendJson(response, 404, { error: '見つかりません' });
+    return;
+  }
+
+  if (SYNC_TOKEN && request.headers.authorization !== `Bearer ${SYNC_TOKEN}`) {
+    sendJson(response, 401, { error: '認証に失敗しました' });
+    return;
+  }
+
+  try {
+    const body = await readJson(request);
+    // サーバーのデータを作り直した場合（cursorが進みすぎている場合）はすべての変更を返す
+    const since = Number.isInteger(body?.since) && body.since >= 0 && body.since <= store.seq ? body.since : 0;
+    if (!Array.isArray(body?.changes) || !body.changes.every(isSyncRecord)) {
+      sendJson(response, 400, { error: '変更の形式が正しくありません' });
+      return;
+    }
+
+    const result = applyChanges(since, body.changes);
+    if (body.changes.length > 0) {
+      await saveStore();
+    }
+    sendJson(response, 200, result);
+  } catch (error) {
+    console.error('同期の処理に失敗しました:', error);
+    sendJson(response, error.status ?? 500, { error: error.status ? error.message : '同期の処理に失敗しました' });
+  }
+});
+
+await loadStore();
+server.listen(PORT, () => {
+  console.log(`同期サーバーを起動しました: http://localhost:${PORT}（データ: ${DATA_FILE}）`);
+});